@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { PivotingStrategy } from '../src/utils/solver';
+import type { Bandwidth } from '../src/utils/banded';
+import { readSystem, InputError } from './input';
+import { CLI_METHODS, runMethod } from './methods';
+import type { RunOptions } from './methods';
+import { EXIT_CODES, exitCode, formatHuman, formatJSON } from './output';
+
+const PIVOTING: PivotingStrategy[] = ['none', 'partial', 'scaled', 'complete'];
+
+const USAGE = `Usage: linear-solver [options] [file]
+
+Solves A x = b read from a JSON, CSV/TSV/MATLAB or equation-text file, or from stdin when the file is "-" or missing.
+JSON input looks like {"A": [[2, 1], [1, 3]], "b": [3, 5]}.
+
+Options:
+  -m, --method <id>      ${CLI_METHODS.map(method => method.id).join(', ')} or all (default: gauss)
+  -e, --exact            Solve with exact fractions
+  -p, --pivoting <name>  ${PIVOTING.join(', ')} (default: partial)
+      --factors          Also print L, U, P (or the Cholesky / LDLᵀ / QR factors)
+      --inverse          Also print A⁻¹
+  -f, --format <name>    human or json (default: human)
+  -d, --digits <n>       Decimal places (default: 4)
+      --tol <value>      Iterative tolerance (default: 1e-6)
+      --max-iter <n>     Iterative iteration limit (default: 100)
+      --omega <value>    SOR relaxation parameter (default: 1.25)
+      --shift <value>    Inverse power iteration shift σ (default: 0)
+      --bandwidth <p,q>  Banded LU bandwidth below and above the diagonal (default: detected)
+  -h, --help             Show this help
+
+Exit codes: ${EXIT_CODES.unique} unique solution, ${EXIT_CODES.error} error, ${EXIT_CODES.none} no solution, ${EXIT_CODES.infinite} infinitely many solutions, ${EXIT_CODES.notConverged} iteration did not converge.
+`;
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+const number = (value: string, flag: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) throw new UsageError(`${flag} expects a number, got "${value}".`);
+    return parsed;
+};
+
+const main = (argv: string[]): number => {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            method: { type: 'string', short: 'm', default: 'gauss' },
+            exact: { type: 'boolean', short: 'e', default: false },
+            pivoting: { type: 'string', short: 'p', default: 'partial' },
+            factors: { type: 'boolean', default: false },
+            inverse: { type: 'boolean', default: false },
+            format: { type: 'string', short: 'f', default: 'human' },
+            digits: { type: 'string', short: 'd', default: '4' },
+            tol: { type: 'string', default: '1e-6' },
+            'max-iter': { type: 'string', default: '100' },
+            omega: { type: 'string', default: '1.25' },
+            shift: { type: 'string', default: '0' },
+            bandwidth: { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return EXIT_CODES.unique;
+    }
+
+    const ids = values.method === 'all' ? CLI_METHODS.map(method => method.id) : [values.method];
+    if (!ids.every(id => CLI_METHODS.some(method => method.id === id))) {
+        throw new UsageError(`Unknown method "${values.method}".`);
+    }
+    const pivoting = values.pivoting as PivotingStrategy;
+    if (!PIVOTING.includes(pivoting)) {
+        throw new UsageError(`Unknown pivoting strategy "${values.pivoting}".`);
+    }
+    if (values.format !== 'human' && values.format !== 'json') {
+        throw new UsageError(`Unknown format "${values.format}".`);
+    }
+    const digits = number(values.digits, '--digits');
+    if (!Number.isInteger(digits) || digits < 0 || digits > 100) {
+        throw new UsageError('--digits expects a whole number from 0 to 100.');
+    }
+    let bandwidth: Bandwidth | null = null;
+    if (values.bandwidth !== undefined) {
+        const band = values.bandwidth.split(',').map(Number);
+        if (band.length !== 2 || !band.every(val => Number.isInteger(val) && val >= 0)) {
+            throw new UsageError('--bandwidth expects two whole numbers p,q, e.g. 1,2.');
+        }
+        bandwidth = { lower: band[0], upper: band[1] };
+    }
+    if (positionals.length > 1) {
+        throw new UsageError('Pass at most one input file.');
+    }
+
+    const file = positionals[0] ?? '-';
+    const source = file === '-' ? 'stdin' : file;
+    let text: string;
+    try {
+        text = readFileSync(file === '-' ? 0 : file, 'utf8');
+    } catch (err) {
+        throw new InputError(`Cannot read ${source}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const system = readSystem(text, source);
+
+    const options: RunOptions = {
+        exact: values.exact,
+        solver: { pivoting },
+        iterative: {
+            tolerance: number(values.tol, '--tol'),
+            maxIterations: number(values['max-iter'], '--max-iter'),
+            omega: number(values.omega, '--omega'),
+            shift: number(values.shift, '--shift'),
+        },
+        showFactors: values.factors,
+        showInverse: values.inverse,
+        bandwidth,
+    };
+    const runs = ids.map(id => runMethod(id, system, options));
+
+    process.stdout.write(values.format === 'json' ? formatJSON(runs, digits) : formatHuman(runs, digits));
+    return exitCode(runs);
+};
+
+try {
+    process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+    if (err instanceof UsageError || (err instanceof Error && 'code' in err && String(err.code).startsWith('ERR_PARSE_ARGS'))) {
+        process.stderr.write('Run with --help for usage.\n');
+    }
+    process.exitCode = EXIT_CODES.error;
+}
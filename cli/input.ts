@@ -0,0 +1,59 @@
+import { parseSystem } from '../src/utils/parser';
+import type { ParsedSystem } from '../src/utils/parser';
+
+/**
+ * An input file the CLI cannot use. The message is printed as is, so it names the file.
+ */
+export class InputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InputError';
+    }
+}
+
+const isNumberArray = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every(entry => typeof entry === 'number' && Number.isFinite(entry));
+
+/**
+ * Reads `{ "A": [[...], ...], "b": [...], "variables": ["x", "y"] }`; `variables` is optional.
+ */
+const parseJSONSystem = (text: string, source: string): ParsedSystem => {
+    let data: { A?: unknown; b?: unknown; variables?: unknown };
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        throw new InputError(`${source}: invalid JSON (${err instanceof Error ? err.message : String(err)}).`);
+    }
+
+    const { A, b, variables } = data ?? {};
+    if (!Array.isArray(A) || A.length === 0 || !A.every(isNumberArray)) {
+        throw new InputError(`${source}: "A" must be a non-empty array of number rows.`);
+    }
+    const n = A[0].length;
+    if (n === 0 || A.some(row => row.length !== n)) {
+        throw new InputError(`${source}: every row of "A" needs the same, non-zero number of entries.`);
+    }
+    if (!isNumberArray(b) || b.length !== A.length) {
+        throw new InputError(`${source}: "b" must be an array of ${A.length} numbers, one per row of "A".`);
+    }
+    if (variables !== undefined && (!Array.isArray(variables) || variables.length !== n || !variables.every(v => typeof v === 'string'))) {
+        throw new InputError(`${source}: "variables" must list ${n} names, one per column of "A".`);
+    }
+
+    return { matrix: A, vector: b, variables: (variables as string[] | undefined) ?? null };
+};
+
+/**
+ * Turns the contents of an input file into a system. JSON is recognized by a ".json" name or a leading "{";
+ * anything else goes through the same parser as the text editor (equations, CSV, TSV or MATLAB).
+ */
+export const readSystem = (text: string, source: string): ParsedSystem => {
+    if (source.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{')) {
+        return parseJSONSystem(text, source);
+    }
+    try {
+        return parseSystem(text);
+    } catch (err) {
+        throw new InputError(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
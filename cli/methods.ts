@@ -0,0 +1,124 @@
+import { invertMatrix } from '../src/utils/solver';
+import type { SolverOptions, Singularity } from '../src/utils/solver';
+import { invertMatrixExact } from '../src/utils/exactSolver';
+import type { Bandwidth, BandedResult } from '../src/utils/banded';
+import type { IterativeOptions, IterativeStatus } from '../src/utils/iterative';
+import type { EigenResult } from '../src/utils/eigen';
+import { residualNorm } from '../src/utils/matrix';
+import { toNumber } from '../src/utils/format';
+import type { Scalar } from '../src/utils/format';
+import type { ParsedSystem } from '../src/utils/parser';
+import type { ReportMatrix, SolutionReport } from '../src/utils/export';
+import { METHODS, methodName } from '../src/utils/methods';
+import { solveWithMethod } from '../src/utils/solve';
+import type { LUDisplay, SolveOutcome } from '../src/utils/solve';
+
+// Compare All is how the sidebar runs every method; the command line has --method all for that
+export const CLI_METHODS = METHODS.filter(method => method.id !== 'compare');
+
+export interface RunOptions {
+    exact: boolean;
+    solver: SolverOptions;
+    iterative: IterativeOptions & { omega: number; shift: number };
+    /** Include L, U, P (or the Cholesky / LDLᵀ / QR factors) in the report. */
+    showFactors: boolean;
+    /** Include A⁻¹ in the report, whatever the method. */
+    showInverse: boolean;
+    /** Bandwidth for Banded LU; detected from A when null. */
+    bandwidth: Bandwidth | null;
+}
+
+export interface MethodRun {
+    id: string;
+    name: string;
+    report?: SolutionReport;
+    /** Jacobi, Gauss-Seidel and SOR do not classify the system; they report whether they converged. */
+    iterative?: { status: IterativeStatus; iterations: number };
+    /** Set when LU stopped at a singular matrix. */
+    singular?: Singularity<Scalar>;
+    /** Bandwidth and flop counts of Thomas and Banded LU. */
+    banded?: Pick<BandedResult, 'bandwidth' | 'flops' | 'denseFlops'>;
+    /** Eigenvalues and eigenvectors; these methods do not use b. */
+    eigen?: Pick<EigenResult, 'status' | 'values' | 'vectors'> & { iterations: number };
+    error?: string;
+}
+
+const luMatrices = ({ L, U, P, Q }: LUDisplay): ReportMatrix[] => {
+    const matrices: ReportMatrix[] = [{ name: 'L', matrix: L }, { name: 'U', matrix: U }, { name: 'P', matrix: P }];
+    if (Q) matrices.push({ name: 'Q', matrix: Q });
+    return matrices;
+};
+
+const inverseOf = (system: ParsedSystem, options: RunOptions): { inverse: Scalar[][] | null; singular?: Singularity<Scalar> } =>
+    options.exact ? invertMatrixExact(system.matrix, options.solver) : invertMatrix(system.matrix, options.solver);
+
+/**
+ * Runs one method on a system, like "Solve" in the UI, and collects the outcome as a SolutionReport.
+ * Errors (a non-square matrix for LU, a matrix that is not SPD for Cholesky, ...) are returned, not thrown,
+ * so running every method never stops at the first one that does not apply.
+ */
+export const runMethod = (id: string, system: ParsedSystem, options: RunOptions): MethodRun => {
+    const name = methodName(id);
+    const { matrix, vector } = system;
+    const matrices: ReportMatrix[] = [];
+    let outcome: SolveOutcome;
+
+    try {
+        outcome = solveWithMethod(id, {
+            A: matrix,
+            b: vector,
+            extraRhs: [],
+            exact: options.exact,
+            solver: options.solver,
+            iterative: options.iterative,
+            bandwidth: options.bandwidth,
+        });
+        if (id === 'inverse') {
+            const { inverse, singular } = outcome;
+            if (!inverse) {
+                throw new Error(`Matrix is singular: no pivot in column ${(singular?.column ?? 0) + 1}, rank ${singular?.rank}, det = 0.`);
+            }
+            matrices.push({ name: 'A⁻¹', matrix: inverse });
+        } else if (options.showFactors) {
+            if (outcome.lu) matrices.push(...luMatrices(outcome.lu));
+            if (outcome.factorization) matrices.push(...outcome.factorization.factors);
+        }
+
+        if (options.showInverse && id !== 'inverse') {
+            const inverse = matrix.length === matrix[0].length ? inverseOf(system, options).inverse : null;
+            if (inverse) matrices.push({ name: 'A⁻¹', matrix: inverse });
+        }
+    } catch (err) {
+        return { id, name, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    const { solution, banded, iterative, eigen } = outcome;
+    const residual = outcome.residual ?? (solution ? residualNorm(matrix, solution.map(toNumber), vector) : null);
+
+    return {
+        id,
+        name,
+        report: {
+            method: name,
+            A: matrix,
+            b: vector,
+            variables: system.variables ?? matrix[0].map((_, j) => `x${j + 1}`),
+            status: id === 'inverse' ? 'unique' : outcome.status,
+            solution,
+            general: outcome.general,
+            matrices,
+            residual,
+        },
+        singular: outcome.singular ?? undefined,
+        banded: banded ? { bandwidth: banded.bandwidth, flops: banded.flops, denseFlops: banded.denseFlops } : undefined,
+        iterative: iterative ? { status: iterative.status, iterations: iterative.history.length - 1 } : undefined,
+        eigen: eigen
+            ? {
+                status: eigen.status,
+                iterations: eigen.method === 'qr-algorithm' ? eigen.history.length : eigen.history.length - 1,
+                values: eigen.values,
+                vectors: eigen.vectors,
+            }
+            : undefined,
+    };
+};
@@ -0,0 +1,111 @@
+import { formatScalar } from '../src/utils/format';
+import type { Scalar } from '../src/utils/format';
+import { toJSONValue } from '../src/utils/export';
+import type { MethodRun } from './methods';
+
+/** Process exit codes; scripts can tell the outcomes apart without parsing the output. */
+export const EXIT_CODES = {
+    unique: 0,
+    error: 1,
+    none: 2,
+    infinite: 3,
+    notConverged: 4,
+};
+
+const STATUS_TEXT = {
+    unique: 'unique solution',
+    infinite: 'infinitely many solutions',
+    none: 'no solution',
+};
+
+const ITERATIVE_TEXT = {
+    converged: 'converged',
+    diverged: 'diverged',
+    'max-iterations': 'stopped at the iteration limit',
+};
+
+// Right-aligned columns, one bracketed line per row
+const formatMatrix = (matrix: Scalar[][], digits: number, indent: string) => {
+    const cells = matrix.map(row => row.map(val => formatScalar(val, digits)));
+    const width = Math.max(...cells.flat().map(cell => cell.length));
+    return cells.map(row => `${indent}[ ${row.map(cell => cell.padStart(width)).join('  ')} ]`).join('\n');
+};
+
+const formatRun = (run: MethodRun, digits: number): string => {
+    const lines = [run.name];
+    if (run.error || !run.report) {
+        lines.push(`  Error: ${run.error}`);
+        return lines.join('\n');
+    }
+
+    const { report, iterative, eigen } = run;
+    if (iterative) {
+        lines.push(`  Status: ${ITERATIVE_TEXT[iterative.status]} after ${iterative.iterations} iterations`);
+    } else if (eigen) {
+        lines.push(`  Status: ${ITERATIVE_TEXT[eigen.status]} after ${eigen.iterations} iterations`);
+        eigen.values.forEach(({ re, im }, i) => {
+            const value = im === 0 ? formatScalar(re, digits) : `${formatScalar(re, digits)} ${im < 0 ? '-' : '+'} ${formatScalar(Math.abs(im), digits)}i`;
+            const vector = eigen.vectors[i];
+            lines.push(`  λ${i + 1} = ${value}${vector ? `  v${i + 1} = [${vector.map(val => formatScalar(val, digits)).join(', ')}]` : ''}`);
+        });
+    } else if (report.status) {
+        lines.push(`  Status: ${STATUS_TEXT[report.status]}`);
+    }
+    if (run.banded) {
+        const { bandwidth, flops, denseFlops } = run.banded;
+        lines.push(`  Bandwidth: ${bandwidth.lower} below, ${bandwidth.upper} above the diagonal`);
+        lines.push(`  Flops: ${flops} (dense Gauss elimination: ${denseFlops})`);
+    }
+    if (run.singular) {
+        lines.push(`  Singular: no pivot in column ${run.singular.column + 1}, rank ${run.singular.rank}, det = 0`);
+    }
+
+    if (report.status === 'infinite' && report.general) {
+        const { particular, basis, freeColumns } = report.general;
+        const terms = basis.map((v, k) => ` + t${k + 1}·[${v.map(val => formatScalar(val, digits)).join(', ')}]`).join('');
+        lines.push(`  x = [${particular.map(val => formatScalar(val, digits)).join(', ')}]${terms}`);
+        lines.push(`  Free variables: ${freeColumns.map((j, k) => `${report.variables[j]} = t${k + 1}`).join(', ')}`);
+    } else if (report.solution) {
+        const width = Math.max(...report.variables.map(name => name.length));
+        report.solution.forEach((val, i) => lines.push(`  ${report.variables[i].padEnd(width)} = ${formatScalar(val, digits)}`));
+    }
+    if (report.residual !== null && report.residual !== undefined) {
+        lines.push(`  Residual ‖Ax − b‖₂ = ${report.residual.toExponential(4)}`);
+    }
+
+    report.matrices.forEach(({ name, matrix }) => {
+        lines.push('', `  ${name} =`, formatMatrix(matrix, digits, '    '));
+    });
+    return lines.join('\n');
+};
+
+/** Readable output: one block per method. */
+export const formatHuman = (runs: MethodRun[], digits: number): string =>
+    runs.map(run => formatRun(run, digits)).join('\n\n') + '\n';
+
+/** JSON output: the report of one method, or an array when several ran. */
+export const formatJSON = (runs: MethodRun[], digits: number): string => {
+    const values = runs.map(run => ({
+        id: run.id,
+        ...(run.report ? toJSONValue(run.report, digits) : { method: run.name }),
+        iterative: run.iterative,
+        banded: run.banded,
+        eigen: run.eigen,
+        singular: run.singular && { column: run.singular.column + 1, rank: run.singular.rank, determinant: 0 },
+        error: run.error,
+    }));
+    return JSON.stringify(values.length === 1 ? values[0] : values, null, 2) + '\n';
+};
+
+/**
+ * 'none' outranks 'infinite', which outranks an iteration that did not converge.
+ * The exit code is an error only when no method could run at all.
+ */
+export const exitCode = (runs: MethodRun[]): number => {
+    const reports = runs.filter(run => run.report);
+    if (reports.length === 0) return EXIT_CODES.error;
+    if (reports.some(run => run.report!.status === 'none')) return EXIT_CODES.none;
+    if (reports.some(run => run.report!.status === 'infinite')) return EXIT_CODES.infinite;
+    if (reports.some(run => [run.iterative, run.eigen].some(loop => loop && loop.status !== 'converged'))) return EXIT_CODES.notConverged;
+    return EXIT_CODES.unique;
+};
@@ -1,33 +1,165 @@
-import { useState, useEffect } from 'react';
-import {
-  solveGaussElimination,
-  solveGaussJordan,
-  solveLUFactorization,
-  findInverse
-} from './utils/solver';
-import type { Matrix, Vector, SolverResult, SolutionStatus } from './utils/solver';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import type { FactorizationResult } from './utils/factorizations';
+import { detectBandwidth } from './utils/banded';
+import type { BandedResult, Bandwidth } from './utils/banded';
+import type { ComparisonResult } from './utils/compare';
+import type { Diagnostics } from './utils/diagnostics';
+import type { IterativeResult } from './utils/iterative';
+import type { EigenResult } from './utils/eigen';
+import type { Matrix, Vector, SolutionStatus, TraceStep, GeneralSolution, PivotingStrategy, Singularity } from './utils/solver';
+import type { Scalar } from './utils/format';
+import type { LUDisplay, SolveOutcome, SolveTiming } from './utils/solve';
+import type { GeneratedSystem } from './utils/generators';
+import { MAX_GRID_SIZE, isLargeSystem, toDense } from './utils/dense';
+import { startSolve, SolveCancelledError } from './workers/solverClient';
+import type { SolveJob } from './workers/solverClient';
+import type { SolveRequest } from './workers/protocol';
 import MatrixInput from './components/MatrixInput';
 import ResultDisplay from './components/ResultDisplay';
-import { Calculator, Grid3X3, Sigma, RefreshCcw, Moon, Sun } from 'lucide-react';
+import IterativeSettings from './components/IterativeSettings';
+import BandwidthSettings from './components/BandwidthSettings';
+import type { IterativeSettingsValue } from './utils/iterative';
+import ProblemLibrary from './components/ProblemLibrary';
+import ExportPanel from './components/ExportPanel';
+import ErrorAnalysisPanel from './components/ErrorAnalysisPanel';
+import SolveProgress from './components/SolveProgress';
+import GeometryView from './components/GeometryView';
+import MatrixWorkspace from './components/MatrixWorkspace';
+import type { NamedMatrix } from './utils/calculator';
+import type { SolutionReport, ReportMatrix } from './utils/export';
+import {
+  encodeProblem,
+  decodeProblem,
+  loadAutosave,
+  saveAutosave,
+  loadLibrary,
+  saveLibrary,
+  loadHistory,
+  saveHistory,
+  addToHistory,
+  loadTheme,
+  saveTheme,
+  loadWorkspace,
+  saveWorkspace
+} from './utils/persistence';
+import type { ProblemState, SavedProblem, Theme } from './utils/persistence';
+import { Calculator, Grid3X3, Sigma, RefreshCcw, Moon, Sun, TrendingUp, Triangle, Repeat, Repeat1, Waves, Columns3, TriangleRight, Layers, FlipVertical, Axis3d, Equal, Rows3, Zap, Crosshair, Orbit } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
 import clsx from 'clsx';
+import { METHODS, methodName } from './utils/methods';
 
-function App() {
-  const [n, setN] = useState(3);
-  const [matrixA, setMatrixA] = useState<Matrix>([
+const METHOD_ICONS: Record<string, LucideIcon> = {
+  'gauss': Sigma,
+  'gauss-jordan': Grid3X3,
+  'lu': Calculator,
+  'crout': Calculator,
+  'cholesky': TriangleRight,
+  'ldlt': Layers,
+  'qr-householder': FlipVertical,
+  'qr-gram-schmidt': Axis3d,
+  'thomas': Equal,
+  'banded-lu': Rows3,
+  'inverse': RefreshCcw,
+  'lsq-normal': TrendingUp,
+  'lsq-qr': Triangle,
+  'jacobi': Repeat,
+  'gauss-seidel': Repeat1,
+  'sor': Waves,
+  'power': Zap,
+  'inverse-power': Crosshair,
+  'qr-algorithm': Orbit,
+  'compare': Columns3,
+};
+
+const methods = METHODS.map(method => ({ ...method, icon: METHOD_ICONS[method.id] }));
+
+const DEFAULT_PROBLEM: ProblemState = {
+  m: 3,
+  n: 3,
+  matrixA: [
     [0, 0, 0],
     [0, 0, 0],
     [0, 0, 0]
-  ]);
-  const [matrixB, setMatrixB] = useState<Vector>([0, 0, 0]);
+  ],
+  matrixB: [0, 0, 0],
+  extraRhs: [],
+  variables: null,
+  method: 'gauss',
+  exact: false,
+  pivoting: 'partial',
+  iterativeSettings: {
+    tolerance: 1e-6,
+    maxIterations: 100,
+    omega: 1.25,
+    shift: 0,
+    initialGuess: '',
+  },
+  bandwidth: null,
+  imaginary: null,
+};
+
+// Links from an older version may name a method that no longer exists
+const withKnownMethod = (problem: ProblemState): ProblemState =>
+  methods.some(m => m.id === problem.method) ? problem : { ...problem, method: DEFAULT_PROBLEM.method };
+
+// Methods that large decimal systems hand to the flat Float64Array LU solver
+const DENSE_METHODS = ['gauss', 'lu'];
 
-  const [method, setMethod] = useState<string>('gauss');
-  const [resultX, setResultX] = useState<Vector | null>(null);
-  const [resultLU, setResultLU] = useState<{ L: Matrix; U: Matrix } | null>(null);
-  const [resultInverse, setResultInverse] = useState<Matrix | null>(null);
+// That solver always pivots partially, so it is named for what runs rather than for the method picked
+const DENSE_METHOD_NAME = 'LU (dense, partial pivoting)';
+
+const usesDenseLU = ({ m, n, exact, imaginary, method }: ProblemState) =>
+  isLargeSystem(m, n) && !exact && !imaginary && m === n && DENSE_METHODS.includes(method);
+
+// A shared link wins over the autosave, so it opens exactly what was shared
+const loadInitialProblem = (): ProblemState =>
+  withKnownMethod(decodeProblem(window.location.hash, DEFAULT_PROBLEM) ?? loadAutosave(DEFAULT_PROBLEM) ?? DEFAULT_PROBLEM);
+
+function App() {
+  const [initial] = useState(loadInitialProblem);
+  const [m, setM] = useState(initial.m);
+  const [n, setN] = useState(initial.n);
+  const [matrixA, setMatrixA] = useState<Matrix>(initial.matrixA);
+  const [matrixB, setMatrixB] = useState<Vector>(initial.matrixB);
+  const [extraRhs, setExtraRhs] = useState<Vector[]>(initial.extraRhs);
+  const [variables, setVariables] = useState<string[] | null>(initial.variables);
+  const [imaginary, setImaginary] = useState(initial.imaginary);
+
+  const [method, setMethod] = useState<string>(initial.method);
+  const [exact, setExact] = useState(initial.exact);
+  const [pivoting, setPivoting] = useState<PivotingStrategy>(initial.pivoting);
+  const [resultX, setResultX] = useState<Scalar[] | null>(null);
+  const [resultLU, setResultLU] = useState<LUDisplay | null>(null);
+  const [resultFactorization, setResultFactorization] = useState<FactorizationResult | null>(null);
+  const [resultBanded, setResultBanded] = useState<BandedResult | null>(null);
+  const [resultInverse, setResultInverse] = useState<Scalar[][] | null>(null);
+  const [resultSingular, setResultSingular] = useState<Singularity<Scalar> | null>(null);
   const [solutionStatus, setSolutionStatus] = useState<SolutionStatus | null>(null);
+  const [resultTrace, setResultTrace] = useState<TraceStep<Scalar>[] | null>(null);
+  const [resultGeneral, setResultGeneral] = useState<GeneralSolution<Scalar> | null>(null);
+  const [resultResidual, setResultResidual] = useState<number | null>(null);
+  const [resultIterative, setResultIterative] = useState<IterativeResult | null>(null);
+  const [resultEigen, setResultEigen] = useState<EigenResult | null>(null);
+  const [resultDiagnostics, setResultDiagnostics] = useState<Diagnostics | null>(null);
+  const [resultComparison, setResultComparison] = useState<ComparisonResult | null>(null);
+  const [resultMultiple, setResultMultiple] = useState<{ status: SolutionStatus; solution: Scalar[] | null }[] | null>(null);
+  const [resultTiming, setResultTiming] = useState<SolveTiming | null>(null);
+  const [iterativeSettings, setIterativeSettings] = useState<IterativeSettingsValue>(initial.iterativeSettings);
+  const [bandwidth, setBandwidth] = useState<Bandwidth | null>(initial.bandwidth);
   const [error, setError] = useState<string | null>(null);
+  // The problem as it was when the current results were computed, so exports match them even after edits
+  const [solvedProblem, setSolvedProblem] = useState<ProblemState | null>(null);
+  const [digits, setDigits] = useState(4);
+  const [generated, setGenerated] = useState<GeneratedSystem | null>(null);
+  const [solving, setSolving] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const jobRef = useRef<SolveJob | null>(null);
+
+  const [library, setLibrary] = useState<SavedProblem[]>(() => loadLibrary(DEFAULT_PROBLEM));
+  const [history, setHistory] = useState<SavedProblem[]>(() => loadHistory(DEFAULT_PROBLEM));
+  const [workspace, setWorkspace] = useState<NamedMatrix[]>(loadWorkspace);
 
-  const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [theme, setTheme] = useState<Theme>(loadTheme);
 
   useEffect(() => {
     if (theme === 'dark') {
@@ -35,66 +167,183 @@ function App() {
     } else {
       document.documentElement.classList.remove('dark');
     }
+    saveTheme(theme);
   }, [theme]);
 
   const toggleTheme = () => {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
 
-  const methods = [
-    { id: 'gauss', name: 'Gauss Elimination', icon: Sigma },
-    { id: 'gauss-jordan', name: 'Gauss-Jordan', icon: Grid3X3 },
-    { id: 'lu', name: 'LU Factorization', icon: Calculator },
-    { id: 'inverse', name: 'Inverse Matrix', icon: RefreshCcw },
-  ];
+  const problem = useMemo<ProblemState>(
+    () => ({ m, n, matrixA, matrixB, extraRhs, variables, method, exact, pivoting, iterativeSettings, bandwidth, imaginary }),
+    [m, n, matrixA, matrixB, extraRhs, variables, method, exact, pivoting, iterativeSettings, bandwidth, imaginary]
+  );
 
-  const handleSolve = () => {
+  const large = isLargeSystem(m, n);
+  const dense = usesDenseLU(problem);
+
+  // Keep the address bar and the autosave in step with the problem on screen.
+  // Large systems would not fit in a URL or in localStorage, so they are not kept.
+  useEffect(() => {
+    if (isLargeSystem(problem.m, problem.n)) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      return;
+    }
+    saveAutosave(problem);
+    window.history.replaceState(null, '', `#${encodeProblem(problem)}`);
+  }, [problem]);
+
+  useEffect(() => saveLibrary(library), [library]);
+  useEffect(() => saveHistory(history), [history]);
+  useEffect(() => saveWorkspace(workspace), [workspace]);
+
+  const cancelSolve = useCallback(() => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setSolving(false);
+    setProgress(null);
+  }, []);
+
+  const clearResults = useCallback(() => {
+    cancelSolve();
     setError(null);
     setResultX(null);
     setResultLU(null);
+    setResultFactorization(null);
+    setResultBanded(null);
     setResultInverse(null);
+    setResultSingular(null);
     setSolutionStatus(null);
+    setResultTrace(null);
+    setResultGeneral(null);
+    setResultResidual(null);
+    setResultIterative(null);
+    setResultEigen(null);
+    setResultDiagnostics(null);
+    setResultComparison(null);
+    setResultMultiple(null);
+    setResultTiming(null);
+    setSolvedProblem(null);
+  }, [cancelSolve]);
+
+  const restoreProblem = useCallback((state: ProblemState) => {
+    const known = withKnownMethod(state);
+    clearResults();
+    setM(known.m);
+    setN(known.n);
+    setMatrixA(known.matrixA);
+    setMatrixB(known.matrixB);
+    setExtraRhs(known.extraRhs);
+    setVariables(known.variables);
+    setMethod(known.method);
+    setExact(known.exact);
+    setPivoting(known.pivoting);
+    setIterativeSettings(known.iterativeSettings);
+    setBandwidth(known.bandwidth);
+    setImaginary(known.imaginary);
+  }, [clearResults]);
+
+  // Pasting a shared link into an open tab only changes the hash, so load it here
+  useEffect(() => {
+    const handleHashChange = () => {
+      const state = decodeProblem(window.location.hash, DEFAULT_PROBLEM);
+      if (state) restoreProblem(state);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [restoreProblem]);
 
-    try {
-      let res: SolverResult;
-
-      switch (method) {
-        case 'gauss':
-          res = solveGaussElimination(matrixA, matrixB);
-          setSolutionStatus(res.status);
-          if (res.status === 'unique' && res.solution) {
-            setResultX(res.solution);
-          }
-          break;
-        case 'gauss-jordan':
-          res = solveGaussJordan(matrixA, matrixB);
-          setSolutionStatus(res.status);
-          if (res.status === 'unique' && res.solution) {
-            setResultX(res.solution);
-          }
-          break;
-        case 'lu':
-          res = solveLUFactorization(matrixA, matrixB);
-          setSolutionStatus(res.status);
-          if (res.status === 'unique' && res.solution) {
-            setResultX(res.solution);
-            if (res.L && res.U) {
-              setResultLU({ L: res.L, U: res.U });
-            }
-          }
-          break;
-        case 'inverse':
-          const inv = findInverse(matrixA);
-          if (!inv) throw new Error("Matrix is not invertible.");
-          setResultInverse(inv);
-
-          // No longer solving for x here as requested.
-          // setResultX is cleared at the start of handleSolve, so x remains null.
-          break;
-      }
-    } catch (err: any) {
-      setError(err.message || "An error occurred during calculation.");
+  const saveToLibrary = (name: string) => {
+    setLibrary(prev => [...prev.filter(item => item.name !== name), { name, savedAt: Date.now(), state: problem }]);
+  };
+
+  const pivotingOptions: { value: PivotingStrategy; label: string }[] = [
+    { value: 'none', label: 'None' },
+    { value: 'partial', label: 'Partial' },
+    { value: 'scaled', label: 'Scaled Partial' },
+    { value: 'complete', label: 'Complete' },
+  ];
+
+  const isIterative = method === 'jacobi' || method === 'gauss-seidel' || method === 'sor';
+  const isEigen = method === 'power' || method === 'inverse-power' || method === 'qr-algorithm';
+  const supportsPivoting = ['gauss', 'gauss-jordan', 'lu', 'crout', 'inverse', 'compare'].includes(method);
+
+  // x* only applies while the solved system is still the generated one; any edit makes new arrays
+  const knownSolution = generated?.solution && solvedProblem
+    && solvedProblem.matrixA === generated.A && solvedProblem.matrixB === generated.b
+    ? generated.solution
+    : null;
+
+  const report = useMemo<SolutionReport | null>(() => {
+    // The report's matrices are real; complex results are read off the page
+    if (!solvedProblem || solvedProblem.imaginary || (!resultX && !resultInverse && !solutionStatus)) return null;
+    const matrices: ReportMatrix[] = [];
+    if (resultLU) {
+      matrices.push({ name: 'L', matrix: resultLU.L }, { name: 'U', matrix: resultLU.U }, { name: 'P', matrix: resultLU.P });
+      if (resultLU.Q) matrices.push({ name: 'Q', matrix: resultLU.Q });
     }
+    if (resultFactorization) matrices.push(...resultFactorization.factors);
+    if (resultInverse) matrices.push({ name: 'A⁻¹', matrix: resultInverse });
+    return {
+      method: usesDenseLU(solvedProblem) ? DENSE_METHOD_NAME : methodName(solvedProblem.method),
+      A: solvedProblem.matrixA,
+      b: solvedProblem.matrixB,
+      variables: solvedProblem.variables ?? Array.from({ length: solvedProblem.n }, (_, j) => `x${j + 1}`),
+      status: solutionStatus,
+      solution: resultX,
+      general: resultGeneral,
+      matrices,
+      residual: resultResidual,
+    };
+  }, [solvedProblem, resultX, resultLU, resultFactorization, resultInverse, solutionStatus, resultGeneral, resultResidual]);
+
+  const applyOutcome = (outcome: SolveOutcome) => {
+    setSolutionStatus(outcome.status);
+    setResultX(outcome.solution);
+    setResultLU(outcome.lu);
+    setResultFactorization(outcome.factorization);
+    setResultBanded(outcome.banded);
+    setResultInverse(outcome.inverse);
+    setResultSingular(outcome.singular);
+    setResultTrace(outcome.trace);
+    setResultGeneral(outcome.general);
+    setResultResidual(outcome.residual);
+    setResultIterative(outcome.iterative);
+    setResultEigen(outcome.eigen);
+    setResultDiagnostics(outcome.diagnostics);
+    setResultComparison(outcome.comparison);
+    setResultMultiple(outcome.multiple);
+    setResultTiming(outcome.timing);
+  };
+
+  const handleSolve = () => {
+    clearResults();
+
+    // Large decimal systems skip the step trace and, for Gauss and LU, run on flat Float64Array storage
+    const request: SolveRequest = dense
+      ? { type: 'solve-dense', n, A: toDense(matrixA).data, columns: [matrixB, ...extraRhs].map(column => Float64Array.from(column)) }
+      : { type: 'solve', problem, trace: !large };
+    const job = startSolve(request, setProgress);
+    jobRef.current = job;
+    setSolving(true);
+
+    job.promise
+      .then(outcome => {
+        if (jobRef.current !== job) return;
+        applyOutcome(outcome);
+        setSolvedProblem(problem);
+        if (!large) setHistory(prev => addToHistory(prev, { name: '', savedAt: Date.now(), state: problem }));
+      })
+      .catch(err => {
+        if (err instanceof SolveCancelledError || jobRef.current !== job) return;
+        setError((err instanceof Error && err.message) || "An error occurred during calculation.");
+      })
+      .finally(() => {
+        if (jobRef.current !== job) return;
+        jobRef.current = null;
+        setSolving(false);
+        setProgress(null);
+      });
   };
 
   return (
@@ -139,31 +388,150 @@ function App() {
               })}
             </div>
 
+            {(isIterative || isEigen) && (
+              <>
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-8 mb-4 px-2">Iteration Settings</h2>
+                <IterativeSettings
+                  value={iterativeSettings}
+                  onChange={setIterativeSettings}
+                  showOmega={method === 'sor'}
+                  showShift={method === 'inverse-power'}
+                  eigen={isEigen}
+                />
+              </>
+            )}
+
+            {method === 'banded-lu' && (
+              <>
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-8 mb-4 px-2">Bandwidth</h2>
+                <BandwidthSettings value={bandwidth} onChange={setBandwidth} detected={detectBandwidth(matrixA)} />
+              </>
+            )}
+
+            {supportsPivoting && dense && (
+              <>
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-8 mb-4 px-2">Pivoting</h2>
+                <p className="px-2 text-xs text-slate-500 dark:text-slate-400">
+                  Beyond {MAX_GRID_SIZE} × {MAX_GRID_SIZE}, {methodName(method)} runs as {DENSE_METHOD_NAME} on flat storage, so no other strategy can be chosen.
+                </p>
+              </>
+            )}
+
+            {supportsPivoting && !dense && (
+              <>
+                <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-8 mb-4 px-2">Pivoting</h2>
+                <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg text-sm font-medium">
+                  {pivotingOptions.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setPivoting(option.value)}
+                      className={clsx(
+                        "px-3 py-2 rounded-md transition-all",
+                        pivoting === option.value
+                          ? "bg-white dark:bg-slate-800 text-indigo-700 dark:text-indigo-300 shadow-sm"
+                          : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mt-8 mb-4 px-2">Arithmetic</h2>
+            <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg text-sm font-medium">
+              {[
+                { value: false, label: 'Decimal' },
+                { value: true, label: 'Exact Fractions' },
+              ].map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => setExact(option.value)}
+                  className={clsx(
+                    "flex-1 px-3 py-2 rounded-md transition-all",
+                    exact === option.value
+                      ? "bg-white dark:bg-slate-800 text-indigo-700 dark:text-indigo-300 shadow-sm"
+                      : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
             <div className="mt-8 px-4 py-4 bg-indigo-50/50 dark:bg-indigo-900/20 rounded-lg border border-indigo-100 dark:border-indigo-800 text-xs text-indigo-800 dark:text-indigo-300">
               <p className="font-semibold mb-1">Current Method:</p>
-              <p>{methods.find(m => m.id === method)?.name}</p>
+              <p>{dense ? DENSE_METHOD_NAME : methodName(method)}</p>
             </div>
+
+            <ProblemLibrary
+              library={library}
+              history={history}
+              onSave={saveToLibrary}
+              onRestore={restoreProblem}
+              onDelete={(index) => setLibrary(prev => prev.filter((_, i) => i !== index))}
+              onClearHistory={() => setHistory([])}
+              methodName={methodName}
+            />
           </div>
 
           {/* Main Content */}
           <div className="space-y-6">
             <MatrixInput
+              m={m}
+              setM={setM}
               n={n}
               setN={setN}
               matrixA={matrixA}
               setMatrixA={setMatrixA}
               matrixB={matrixB}
               setMatrixB={setMatrixB}
+              extraRhs={extraRhs}
+              setExtraRhs={setExtraRhs}
+              imaginary={imaginary}
+              setImaginary={setImaginary}
+              setVariables={setVariables}
+              setGenerated={setGenerated}
               onSolve={handleSolve}
+              solving={solving}
             />
 
+            {(n === 2 || n === 3) && !large && !imaginary && <GeometryView A={matrixA} b={matrixB} variables={variables} />}
+
+            {solving && <SolveProgress progress={progress} onCancel={cancelSolve} />}
+
             <ResultDisplay
               x={resultX}
               lu={resultLU}
+              factorization={resultFactorization}
+              banded={resultBanded}
               inverse={resultInverse}
+              singular={resultSingular}
               error={error}
               status={solutionStatus}
+              trace={resultTrace}
+              general={resultGeneral}
+              residual={resultResidual}
+              iterative={resultIterative}
+              eigen={resultEigen}
+              diagnostics={resultDiagnostics}
+              comparison={resultComparison}
+              multiple={resultMultiple}
+              variables={variables}
+              timing={resultTiming}
+              knownSolution={knownSolution}
+              digits={digits}
             />
+
+            {solvedProblem && resultX && solutionStatus === 'unique' && !solvedProblem.exact && !solvedProblem.imaginary
+              && solvedProblem.m === solvedProblem.n && !isLargeSystem(solvedProblem.m, solvedProblem.n) && (
+              <ErrorAnalysisPanel A={solvedProblem.matrixA} b={solvedProblem.matrixB} />
+            )}
+
+            {report && !isLargeSystem(report.A.length, report.A[0]?.length ?? 0) && <ExportPanel report={report} digits={digits} setDigits={setDigits} />}
+
+            {!imaginary && !large && <MatrixWorkspace A={matrixA} b={matrixB} workspace={workspace} setWorkspace={setWorkspace} digits={digits} />}
           </div>
         </div>
       </div>
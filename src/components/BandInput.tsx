@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import type { Matrix, Vector } from '../utils/solver';
+import { detectBandwidth } from '../utils/banded';
+
+interface BandInputProps {
+    n: number;
+    matrixA: Matrix;
+    setMatrixA: (m: Matrix) => void;
+    matrixB: Vector;
+    setMatrixB: (v: Vector) => void;
+}
+
+// Above this size the diagonals are only filled with constants; n inputs per diagonal would not fit
+const MAX_ENTRY_INPUTS = 30;
+
+const entryClass = "w-16 h-10 shrink-0 text-center text-sm font-medium border-0 ring-1 ring-slate-200 dark:ring-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none";
+const rhsEntryClass = "w-16 h-10 shrink-0 text-center text-sm font-medium border-0 ring-1 ring-amber-200 dark:ring-amber-800/50 rounded-lg focus:ring-2 focus:ring-amber-500 dark:focus:ring-amber-400 bg-amber-50 dark:bg-amber-950/20 text-slate-800 dark:text-amber-100 focus:outline-none";
+
+const FillControl: React.FC<{ onFill: (value: number) => void }> = ({ onFill }) => {
+    const [text, setText] = useState('');
+    return (
+        <div className="flex gap-1 shrink-0">
+            <input
+                type="number"
+                value={text}
+                placeholder="all"
+                onChange={(e) => setText(e.target.value)}
+                className="w-16 h-10 text-center text-sm border-0 ring-1 ring-slate-200 dark:ring-slate-600 rounded-lg bg-slate-50 dark:bg-slate-900/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+                onClick={() => onFill(parseFloat(text) || 0)}
+                className="px-2 text-xs font-semibold bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-lg hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors"
+            >
+                Fill
+            </button>
+        </div>
+    );
+};
+
+const diagonalLabel = (d: number) => (d === 0 ? 'Main' : d < 0 ? `Below ${-d}` : `Above ${d}`);
+
+/**
+ * Compact input for banded matrices: one row per diagonal instead of the full n × n grid.
+ * Entries outside the chosen band are zero.
+ */
+const BandInput: React.FC<BandInputProps> = ({ n, matrixA, setMatrixA, matrixB, setMatrixB }) => {
+    const [band, setBand] = useState(() => detectBandwidth(matrixA));
+    const showEntries = n <= MAX_ENTRY_INPUTS;
+
+    const updateDiagonal = (d: number, value: (i: number) => number) => {
+        setMatrixA(matrixA.map((row, i) => {
+            const j = i + d;
+            if (j < 0 || j >= n) return row;
+            const newRow = [...row];
+            newRow[j] = value(i);
+            return newRow;
+        }));
+    };
+
+    // Shrinking the band clears the diagonals that drop out, so A always matches what is shown
+    const changeBand = (lower: number, upper: number) => {
+        const next = { lower: Math.max(0, Math.min(n - 1, lower)), upper: Math.max(0, Math.min(n - 1, upper)) };
+        setBand(next);
+        setMatrixA(matrixA.map((row, i) => row.map((val, j) => (j < i - next.lower || j > i + next.upper ? 0 : val))));
+    };
+
+    const diagonals = Array.from({ length: band.lower + band.upper + 1 }, (_, k) => k - band.lower).reverse();
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 justify-center text-sm">
+                {([['lower', 'Diagonals below'], ['upper', 'Diagonals above']] as const).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-2 text-slate-600 dark:text-slate-400">
+                        {label}
+                        <input
+                            type="number"
+                            min={0}
+                            max={n - 1}
+                            value={band[key]}
+                            onChange={(e) => {
+                                const count = parseInt(e.target.value) || 0;
+                                changeBand(key === 'lower' ? count : band.lower, key === 'upper' ? count : band.upper);
+                            }}
+                            className="w-16 px-2 py-1 text-center font-mono rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </label>
+                ))}
+            </div>
+
+            <div className="space-y-2 overflow-x-auto">
+                {diagonals.map(d => (
+                    <div key={d} className="flex items-center gap-2">
+                        <span className="w-20 shrink-0 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">{diagonalLabel(d)}</span>
+                        <FillControl onFill={(value) => updateDiagonal(d, () => value)} />
+                        {showEntries && Array.from({ length: n - Math.abs(d) }, (_, k) => {
+                            const i = d < 0 ? k - d : k;
+                            return (
+                                <input
+                                    key={k}
+                                    type="number"
+                                    value={matrixA[i][i + d]}
+                                    onChange={(e) => {
+                                        const value = parseFloat(e.target.value) || 0;
+                                        updateDiagonal(d, row => (row === i ? value : matrixA[row][row + d]));
+                                    }}
+                                    onFocus={(e) => e.target.select()}
+                                    className={entryClass}
+                                />
+                            );
+                        })}
+                    </div>
+                ))}
+                <div className="flex items-center gap-2 pt-2 border-t border-slate-100 dark:border-slate-700">
+                    <span className="w-20 shrink-0 text-xs font-semibold text-amber-700 dark:text-amber-300 uppercase tracking-wider">b</span>
+                    <FillControl onFill={(value) => setMatrixB(new Array(n).fill(value))} />
+                    {showEntries && matrixB.map((val, i) => (
+                        <input
+                            key={i}
+                            type="number"
+                            value={val}
+                            onChange={(e) => setMatrixB(matrixB.map((old, k) => (k === i ? parseFloat(e.target.value) || 0 : old)))}
+                            onFocus={(e) => e.target.select()}
+                            className={rhsEntryClass}
+                        />
+                    ))}
+                </div>
+            </div>
+            {!showEntries && (
+                <p className="text-xs text-center text-slate-500 dark:text-slate-400">
+                    With n = {n} each diagonal is filled with one value; switch to a smaller n to edit single entries.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default BandInput;
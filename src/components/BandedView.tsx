@@ -0,0 +1,45 @@
+import React from 'react';
+import type { BandedResult } from '../utils/banded';
+import { bandStorage } from '../utils/banded';
+
+interface BandedViewProps {
+    result: BandedResult;
+}
+
+const formatCount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+/**
+ * Operation count and storage of a Thomas or Banded LU solve next to what the dense methods need.
+ */
+const BandedView: React.FC<BandedViewProps> = ({ result }) => {
+    const { n, bandwidth, flops, denseFlops } = result;
+    const ratio = flops ? denseFlops / flops : null;
+    const cards = [
+        { label: 'Bandwidth (below, above)', value: `${bandwidth.lower}, ${bandwidth.upper}` },
+        { label: 'Flops (this method)', value: flops !== undefined ? formatCount(flops) : '—' },
+        { label: 'Flops (dense Gauss elimination)', value: formatCount(denseFlops) },
+        { label: 'Band storage vs. n²', value: `${formatCount(bandStorage(n, bandwidth))} / ${formatCount(n * n)}` },
+    ];
+
+    return (
+        <div>
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Operation Count</h3>
+            <div className="grid sm:grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                {cards.map(card => (
+                    <div key={card.label} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-center">
+                        <span className="block text-xs text-slate-500 dark:text-slate-400 mb-1">{card.label}</span>
+                        <span className="font-mono text-slate-800 dark:text-slate-200">{card.value}</span>
+                    </div>
+                ))}
+            </div>
+            {ratio !== null && (
+                <p className="mt-3 text-sm text-center text-slate-600 dark:text-slate-400">
+                    Dense elimination would need about <span className="font-mono font-semibold">{ratio.toFixed(1)}×</span> as many flops.
+                    The band work grows like n · p · (p + q) instead of ⅔n³.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default BandedView;
@@ -0,0 +1,72 @@
+import React from 'react';
+import clsx from 'clsx';
+import type { Bandwidth } from '../utils/banded';
+
+interface BandwidthSettingsProps {
+    /** null detects the bandwidth from A when solving. */
+    value: Bandwidth | null;
+    onChange: (value: Bandwidth | null) => void;
+    /** Bandwidth of the current A, shown while detecting and used to start a manual setting. */
+    detected: Bandwidth;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm font-mono rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1";
+
+const BandwidthSettings: React.FC<BandwidthSettingsProps> = ({ value, onChange, detected }) => {
+    const count = (text: string) => Math.max(0, parseInt(text) || 0);
+
+    return (
+        <div className="space-y-3 px-2">
+            <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg text-sm font-medium">
+                {[
+                    { manual: false, label: 'Detect' },
+                    { manual: true, label: 'Manual' },
+                ].map(option => (
+                    <button
+                        key={option.label}
+                        onClick={() => onChange(option.manual ? value ?? detected : null)}
+                        className={clsx(
+                            "flex-1 px-3 py-2 rounded-md transition-all",
+                            (value !== null) === option.manual
+                                ? "bg-white dark:bg-slate-800 text-indigo-700 dark:text-indigo-300 shadow-sm"
+                                : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                        )}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            {value ? (
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className={labelClass}>Below (p)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            value={value.lower}
+                            onChange={(e) => onChange({ ...value, lower: count(e.target.value) })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Above (q)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            value={value.upper}
+                            onChange={(e) => onChange({ ...value, upper: count(e.target.value) })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Current A: p = {detected.lower} below, q = {detected.upper} above the diagonal.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default BandwidthSettings;
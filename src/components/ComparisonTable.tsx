@@ -0,0 +1,74 @@
+import React from 'react';
+import type { ComparisonResult } from '../utils/compare';
+import { formatScalar } from '../utils/format';
+
+interface ComparisonTableProps {
+    comparison: ComparisonResult;
+    variables?: string[] | null;
+}
+
+const formatSmall = (val: number | null) => (val === null ? '—' : val === 0 ? '0' : val.toExponential(2));
+
+const statusLabel: Record<string, string> = {
+    unique: 'Unique',
+    infinite: 'Infinite',
+    none: 'No solution',
+};
+
+const ComparisonTable: React.FC<ComparisonTableProps> = ({ comparison, variables }) => {
+    const n = comparison.rows.find(row => row.solution)?.solution?.length ?? 0;
+
+    return (
+        <div className="mb-8">
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Method Comparison</h3>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                <table className="w-full text-sm text-slate-700 dark:text-slate-300">
+                    <thead className="bg-slate-100 dark:bg-slate-700 text-xs uppercase text-slate-500 dark:text-slate-400">
+                        <tr>
+                            <th className="px-3 py-2 text-left">Method</th>
+                            <th className="px-3 py-2 text-left">Status</th>
+                            {Array.from({ length: n }, (_, i) => (
+                                <th key={i} className="px-3 py-2 text-right normal-case">{variables?.[i] ?? `x${i + 1}`}</th>
+                            ))}
+                            <th className="px-3 py-2 text-right normal-case">‖Ax − b‖₂</th>
+                            <th className="px-3 py-2 text-right normal-case">‖x − x_ref‖∞</th>
+                            <th className="px-3 py-2 text-right">Flops</th>
+                            <th className="px-3 py-2 text-right">Time (ms)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {comparison.rows.map(row => (
+                            <tr key={row.id} className="border-t border-slate-100 dark:border-slate-700">
+                                <td className="px-3 py-2 font-medium whitespace-nowrap">{row.name}</td>
+                                {row.error ? (
+                                    <td colSpan={n + 5} className="px-3 py-2 text-red-600 dark:text-red-400">{row.error}</td>
+                                ) : (
+                                    <>
+                                        <td className="px-3 py-2">{row.status ? statusLabel[row.status] : '—'}</td>
+                                        {Array.from({ length: n }, (_, i) => (
+                                            <td key={i} className="px-3 py-2 text-right font-mono">
+                                                {row.solution ? formatScalar(row.solution[i], 6) : '—'}
+                                            </td>
+                                        ))}
+                                        <td className="px-3 py-2 text-right font-mono">{formatSmall(row.residualNorm)}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{formatSmall(row.deviation)}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{row.flops ?? '—'}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{row.timeMs.toFixed(4)}</td>
+                                    </>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {comparison.maxDifference !== null && (
+                <p className="mt-3 text-sm text-center text-slate-600 dark:text-slate-400">
+                    Largest difference between any two methods:{' '}
+                    <span className="font-mono">{formatSmall(comparison.maxDifference)}</span>
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ComparisonTable;
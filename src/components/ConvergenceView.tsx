@@ -0,0 +1,117 @@
+import React from 'react';
+import clsx from 'clsx';
+import type { IterativeResult } from '../utils/iterative';
+import { formatScalar } from '../utils/format';
+
+interface ConvergenceViewProps {
+    result: IterativeResult;
+}
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 200;
+const PADDING = 36;
+
+/**
+ * Residual norm per iteration on a log10 scale.
+ */
+const ResidualChart: React.FC<{ result: IterativeResult }> = ({ result }) => {
+    const points = result.history
+        .filter(record => Number.isFinite(record.residualNorm) && record.residualNorm > 0)
+        .map(record => ({ k: record.iteration, y: Math.log10(record.residualNorm) }));
+    if (points.length < 2) return null;
+
+    const maxK = Math.max(...points.map(p => p.k), 1);
+    const minY = Math.floor(Math.min(...points.map(p => p.y)));
+    const maxY = Math.ceil(Math.max(...points.map(p => p.y)));
+    const spanY = Math.max(maxY - minY, 1);
+
+    const toX = (k: number) => PADDING + (k / maxK) * (CHART_WIDTH - 2 * PADDING);
+    const toY = (y: number) => CHART_HEIGHT - PADDING - ((y - minY) / spanY) * (CHART_HEIGHT - 2 * PADDING);
+    const ticks = Array.from({ length: spanY + 1 }, (_, i) => minY + i).filter((_, i, all) => all.length <= 8 || i % Math.ceil(all.length / 8) === 0);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full max-w-xl mx-auto text-slate-500 dark:text-slate-400">
+            <line x1={PADDING} y1={CHART_HEIGHT - PADDING} x2={CHART_WIDTH - PADDING} y2={CHART_HEIGHT - PADDING} stroke="currentColor" />
+            <line x1={PADDING} y1={PADDING} x2={PADDING} y2={CHART_HEIGHT - PADDING} stroke="currentColor" />
+            {ticks.map(tick => (
+                <g key={tick}>
+                    <line x1={PADDING} y1={toY(tick)} x2={CHART_WIDTH - PADDING} y2={toY(tick)} stroke="currentColor" strokeOpacity={0.15} />
+                    <text x={PADDING - 6} y={toY(tick) + 4} textAnchor="end" fontSize={10} fill="currentColor">1e{tick}</text>
+                </g>
+            ))}
+            <text x={CHART_WIDTH / 2} y={CHART_HEIGHT - 8} textAnchor="middle" fontSize={11} fill="currentColor">iteration k</text>
+            <text x={CHART_WIDTH - PADDING} y={CHART_HEIGHT - PADDING + 14} textAnchor="end" fontSize={10} fill="currentColor">{maxK}</text>
+            <polyline
+                fill="none"
+                stroke="#6366f1"
+                strokeWidth={2}
+                points={points.map(p => `${toX(p.k)},${toY(p.y)}`).join(' ')}
+            />
+            {points.map(p => (
+                <circle key={p.k} cx={toX(p.k)} cy={toY(p.y)} r={2.5} fill="#6366f1" />
+            ))}
+        </svg>
+    );
+};
+
+const ConvergenceView: React.FC<ConvergenceViewProps> = ({ result }) => {
+    const iterations = result.history.length - 1;
+    const n = result.solution.length;
+
+    return (
+        <div className="mb-8">
+            <div
+                className={clsx(
+                    "p-4 mb-4 rounded-lg text-center font-bold border",
+                    result.status === 'converged'
+                        ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200 border-green-200 dark:border-green-800"
+                        : "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 border-red-200 dark:border-red-800"
+                )}
+            >
+                {result.status === 'converged' && `Converged after ${iterations} iterations`}
+                {result.status === 'max-iterations' && `No convergence within ${iterations} iterations`}
+                {result.status === 'diverged' && `Diverged after ${iterations} iterations`}
+            </div>
+            {!result.diagonallyDominant && (
+                <div className="p-3 mb-4 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 rounded-lg text-center text-sm border border-yellow-200 dark:border-yellow-800">
+                    A is not strictly diagonally dominant, so convergence is not guaranteed.
+                </div>
+            )}
+
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Residual vs Iteration</h3>
+            <ResidualChart result={result} />
+
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mt-6 mb-3">Iteration History</h3>
+            <div className="max-h-80 overflow-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                <table className="w-full text-sm font-mono text-slate-700 dark:text-slate-300">
+                    <thead className="sticky top-0 bg-slate-100 dark:bg-slate-700 text-xs uppercase text-slate-500 dark:text-slate-400">
+                        <tr>
+                            <th className="px-3 py-2 text-left">k</th>
+                            {Array.from({ length: n }, (_, i) => (
+                                <th key={i} className="px-3 py-2 text-right">x{i + 1}</th>
+                            ))}
+                            <th className="px-3 py-2 text-right">‖b − Ax‖₂</th>
+                            <th className="px-3 py-2 text-right">‖Δx‖∞</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.history.map(record => (
+                            <tr key={record.iteration} className="border-t border-slate-100 dark:border-slate-700">
+                                <td className="px-3 py-1">{record.iteration}</td>
+                                {record.x.map((val, i) => (
+                                    <td key={i} className="px-3 py-1 text-right">{formatScalar(val, 6)}</td>
+                                ))}
+                                <td className="px-3 py-1 text-right">{record.residualNorm.toExponential(3)}</td>
+                                <td className="px-3 py-1 text-right">
+                                    {Number.isNaN(record.errorEstimate) ? '—' : record.errorEstimate.toExponential(3)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default ConvergenceView;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ILL_CONDITIONED_THRESHOLD } from '../utils/diagnostics';
+import type { Diagnostics } from '../utils/diagnostics';
+
+interface DiagnosticsPanelProps {
+    diagnostics: Diagnostics;
+}
+
+const formatNumber = (val: number | null) => {
+    if (val === null) return 'n/a';
+    if (!Number.isFinite(val)) return '∞';
+    if (val === 0) return '0';
+    const magnitude = Math.abs(val);
+    return magnitude >= 1e5 || magnitude < 1e-3 ? val.toExponential(3) : Number(val.toPrecision(6)).toString();
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics }) => {
+    const condition = Math.max(diagnostics.conditionOne ?? 0, diagnostics.conditionInf ?? 0);
+    const illConditioned = condition >= ILL_CONDITIONED_THRESHOLD;
+
+    const items = [
+        { label: 'det(A)', value: formatNumber(diagnostics.determinant) },
+        { label: 'rank(A)', value: String(diagnostics.rank) },
+        { label: 'κ₁(A)', value: formatNumber(diagnostics.conditionOne) },
+        { label: 'κ∞(A)', value: formatNumber(diagnostics.conditionInf) },
+        { label: '‖Ax − b‖₂', value: formatNumber(diagnostics.residualNorm) },
+        { label: '‖Ax − b‖₂ / ‖b‖₂', value: formatNumber(diagnostics.relativeResidual) },
+    ];
+
+    return (
+        <div className="mb-8">
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Diagnostics</h3>
+            {illConditioned && (
+                <div className="flex items-center gap-2 p-3 mb-4 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 rounded-lg text-sm border border-yellow-200 dark:border-yellow-800">
+                    <AlertTriangle size={16} className="shrink-0" />
+                    {Number.isFinite(condition)
+                        ? `A is ill-conditioned: up to ${Math.round(Math.log10(condition))} significant digits of the solution may be lost.`
+                        : 'A is singular: its condition number is infinite.'}
+                </div>
+            )}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {items.map(item => (
+                    <div key={item.label} className="flex flex-col items-center bg-slate-50 dark:bg-slate-700/40 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                        <span className="text-xs text-slate-500 dark:text-slate-400 font-bold mb-1">{item.label}</span>
+                        <span className="text-sm font-mono text-slate-800 dark:text-slate-200">{item.value}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default DiagnosticsPanel;
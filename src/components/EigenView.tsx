@@ -0,0 +1,107 @@
+import React from 'react';
+import clsx from 'clsx';
+import type { EigenResult, Eigenvalue } from '../utils/eigen';
+import { formatScalar } from '../utils/format';
+
+interface EigenViewProps {
+    result: EigenResult;
+    digits: number;
+}
+
+const METHOD_NOTES = {
+    'power': 'Power iteration finds the eigenvalue of largest modulus.',
+    'inverse-power': 'Inverse power iteration finds the eigenvalue closest to the shift σ.',
+    'qr-algorithm': 'The QR algorithm finds every eigenvalue; eigenvectors of the real ones come from inverse iteration.',
+};
+
+const formatEigenvalue = (value: Eigenvalue, digits: number) => {
+    if (value.im === 0) return formatScalar(value.re, digits);
+    return `${formatScalar(value.re, digits)} ${value.im < 0 ? '−' : '+'} ${formatScalar(Math.abs(value.im), digits)}i`;
+};
+
+/**
+ * Eigenvalues with their eigenvectors and residuals, and the estimate per iteration.
+ */
+const EigenView: React.FC<EigenViewProps> = ({ result, digits }) => {
+    const iterations = result.method === 'qr-algorithm' ? result.history.length : result.history.length - 1;
+    const residualLabel = result.method === 'qr-algorithm' ? 'max |off-diagonal| (last row)' : '‖Av − λv‖₂';
+
+    return (
+        <div className="mb-8">
+            <div
+                className={clsx(
+                    "p-4 mb-4 rounded-lg text-center font-bold border",
+                    result.status === 'converged'
+                        ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200 border-green-200 dark:border-green-800"
+                        : "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 border-red-200 dark:border-red-800"
+                )}
+            >
+                {result.status === 'converged'
+                    ? `Converged after ${iterations} ${result.method === 'qr-algorithm' ? 'QR steps' : 'iterations'}`
+                    : `No convergence within ${iterations} ${result.method === 'qr-algorithm' ? 'QR steps' : 'iterations'}`}
+            </div>
+            <p className="mb-4 text-sm text-center text-slate-500 dark:text-slate-400">
+                {METHOD_NOTES[result.method]}
+                {result.shift !== undefined && <> σ = <span className="font-mono">{result.shift}</span>.</>}
+            </p>
+
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Eigenvalues and Eigenvectors</h3>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg mb-6">
+                <table className="w-full text-sm font-mono text-slate-700 dark:text-slate-300">
+                    <thead className="bg-slate-100 dark:bg-slate-700 text-xs uppercase text-slate-500 dark:text-slate-400">
+                        <tr>
+                            <th className="px-3 py-2 text-left">i</th>
+                            <th className="px-3 py-2 text-right">λᵢ</th>
+                            <th className="px-3 py-2 text-left">vᵢ</th>
+                            <th className="px-3 py-2 text-right">‖Avᵢ − λᵢvᵢ‖₂</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.values.map((value, i) => (
+                            <tr key={i} className="border-t border-slate-100 dark:border-slate-700">
+                                <td className="px-3 py-1">{i + 1}</td>
+                                <td className="px-3 py-1 text-right whitespace-nowrap">{formatEigenvalue(value, digits)}</td>
+                                <td className="px-3 py-1">
+                                    {result.vectors[i]
+                                        ? `[${result.vectors[i]!.map(val => formatScalar(val, digits)).join(', ')}]`
+                                        : <span className="text-slate-400">{value.im !== 0 ? 'complex' : '—'}</span>}
+                                </td>
+                                <td className="px-3 py-1 text-right">
+                                    {result.residuals[i] !== null ? result.residuals[i]!.toExponential(3) : '—'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {result.history.length > 0 && (
+                <>
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Convergence History</h3>
+                    <div className="max-h-80 overflow-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                        <table className="w-full text-sm font-mono text-slate-700 dark:text-slate-300">
+                            <thead className="sticky top-0 bg-slate-100 dark:bg-slate-700 text-xs uppercase text-slate-500 dark:text-slate-400">
+                                <tr>
+                                    <th className="px-3 py-2 text-left">k</th>
+                                    <th className="px-3 py-2 text-right">λ estimate</th>
+                                    <th className="px-3 py-2 text-right normal-case">{residualLabel}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.history.map(record => (
+                                    <tr key={record.iteration} className="border-t border-slate-100 dark:border-slate-700">
+                                        <td className="px-3 py-1">{record.iteration}</td>
+                                        <td className="px-3 py-1 text-right">{formatScalar(record.eigenvalue, Math.max(digits, 8))}</td>
+                                        <td className="px-3 py-1 text-right">{record.residual.toExponential(3)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default EigenView;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Copy, Download, Printer } from 'lucide-react';
+import clsx from 'clsx';
+import { EXPORT_FORMATS, exportReport, toHtmlReport } from '../utils/export';
+import type { ExportFormat, SolutionReport } from '../utils/export';
+
+interface ExportPanelProps {
+    report: SolutionReport;
+    /** Decimal places used both on screen and in every export. */
+    digits: number;
+    setDigits: (digits: number) => void;
+}
+
+const MAX_DIGITS = 12;
+
+const buttonClass = "flex items-center gap-2 px-3 py-2 text-sm font-medium bg-slate-100 dark:bg-slate-700/50 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors";
+
+const download = (text: string, fileName: string, mime: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports the current result as LaTeX, Markdown or JSON (copy or download) and opens a printable HTML report.
+ */
+const ExportPanel: React.FC<ExportPanelProps> = ({ report, digits, setDigits }) => {
+    const [format, setFormat] = useState<ExportFormat>('latex');
+    const [copied, setCopied] = useState(false);
+    const text = exportReport(report, format, digits);
+    const { extension, mime } = EXPORT_FORMATS.find(f => f.id === format)!;
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            // Clipboard access can be denied; the text can still be selected in the preview
+        }
+    };
+
+    const print = () => {
+        const url = URL.createObjectURL(new Blob([toHtmlReport(report, digits)], { type: 'text/html;charset=utf-8' }));
+        const win = window.open(url, '_blank');
+        win?.addEventListener('load', () => {
+            win.print();
+            URL.revokeObjectURL(url);
+        });
+    };
+
+    return (
+        <div className="mt-8 bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 transition-colors">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">Export</h3>
+                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                    Decimal places
+                    <input
+                        type="number"
+                        min={0}
+                        max={MAX_DIGITS}
+                        value={digits}
+                        onChange={(e) => setDigits(Math.min(MAX_DIGITS, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+                        className="w-16 px-2 py-1 text-center rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <div className="flex gap-1 p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg text-sm font-medium">
+                    {EXPORT_FORMATS.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setFormat(option.id)}
+                            className={clsx(
+                                "px-3 py-1.5 rounded-md transition-all",
+                                format === option.id
+                                    ? "bg-white dark:bg-slate-800 text-indigo-700 dark:text-indigo-300 shadow-sm"
+                                    : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                            )}
+                        >
+                            {option.name}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={copy} className={buttonClass}>
+                    <Copy size={16} />
+                    {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button onClick={() => download(text, `solution.${extension}`, mime)} className={buttonClass}>
+                    <Download size={16} />
+                    Download
+                </button>
+                <button onClick={print} className={buttonClass}>
+                    <Printer size={16} />
+                    Print Report
+                </button>
+            </div>
+
+            <pre className="max-h-72 overflow-auto p-4 text-xs font-mono bg-slate-50 dark:bg-slate-900/50 text-slate-700 dark:text-slate-300 rounded-lg border border-slate-200 dark:border-slate-700 whitespace-pre">
+                {text}
+            </pre>
+        </div>
+    );
+};
+
+export default ExportPanel;
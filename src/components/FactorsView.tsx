@@ -0,0 +1,40 @@
+import React from 'react';
+import type { FactorizationResult } from '../utils/factorizations';
+import MatrixBlock from './MatrixBlock';
+
+interface FactorsViewProps {
+    result: FactorizationResult;
+    digits?: number;
+}
+
+// Same tints as L and U in the LU view, in multiplication order
+const TINTS = [
+    "bg-blue-50/50 dark:bg-blue-900/20",
+    "bg-orange-50/50 dark:bg-orange-900/20",
+    "bg-purple-50/50 dark:bg-purple-900/20",
+];
+
+const formatError = (error: number) => (error === 0 ? '0' : error.toExponential(3));
+
+/**
+ * Shows the factors of Cholesky, LDLᵀ or QR with how well their product reproduces A.
+ */
+const FactorsView: React.FC<FactorsViewProps> = ({ result, digits = 4 }) => (
+    <div>
+        <div className="grid md:grid-cols-3 gap-8">
+            {result.factors.map((factor, k) => (
+                <MatrixBlock key={factor.name} title={factor.name} matrix={factor.matrix} className={TINTS[k % TINTS.length]} digits={digits} />
+            ))}
+        </div>
+        <p className="mt-4 text-sm text-center text-slate-600 dark:text-slate-400">
+            Reconstruction error <span className="font-mono">max |A − {result.product}| = {formatError(result.reconstructionError)}</span>
+        </p>
+        {result.orthogonalityError !== undefined && (
+            <p className="mt-1 text-sm text-center text-slate-600 dark:text-slate-400">
+                Loss of orthogonality <span className="font-mono">max |QᵀQ − I| = {formatError(result.orthogonalityError)}</span>
+            </p>
+        )}
+    </div>
+);
+
+export default FactorsView;
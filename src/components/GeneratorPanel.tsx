@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Dices } from 'lucide-react';
+import clsx from 'clsx';
+import { GENERATORS, KNOWN_SOLUTIONS, generateSystem } from '../utils/generators';
+import type { GeneratedSystem, GeneratorKind, KnownSolution } from '../utils/generators';
+import { MAX_DENSE_SIZE } from '../utils/dense';
+
+interface GeneratorPanelProps {
+    /** Size the panel starts with, normally the current n. */
+    initialSize: number;
+    onGenerate: (system: GeneratedSystem) => void;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm font-mono rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50";
+const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1";
+
+const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+const GeneratorPanel: React.FC<GeneratorPanelProps> = ({ initialSize, onGenerate }) => {
+    const [kind, setKind] = useState<GeneratorKind>('random-integer');
+    const [size, setSize] = useState(initialSize);
+    const [seed, setSeed] = useState(1);
+    const [solution, setSolution] = useState<KnownSolution>('ones');
+    const [custom, setCustom] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const info = GENERATORS.find(generator => generator.id === kind)!;
+
+    const generate = () => {
+        try {
+            const n = Math.max(1, Math.min(MAX_DENSE_SIZE, Math.round(size) || 1));
+            const customSolution = solution === 'custom' ? custom.trim().split(/[\s,]+/).map(Number) : undefined;
+            onGenerate(generateSystem({ kind, n, seed, solution, customSolution }));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not generate the system.');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {GENERATORS.map(generator => (
+                    <button
+                        key={generator.id}
+                        onClick={() => setKind(generator.id)}
+                        className={clsx(
+                            "px-3 py-2 rounded-lg text-sm font-medium transition-all",
+                            kind === generator.id
+                                ? "bg-indigo-600 text-white shadow-md shadow-indigo-200 dark:shadow-none"
+                                : "bg-slate-100 dark:bg-slate-700/50 hover:bg-indigo-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300"
+                        )}
+                    >
+                        {generator.name}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-center text-slate-500 dark:text-slate-400">{info.description}</p>
+
+            <div className="grid sm:grid-cols-3 gap-3">
+                <label>
+                    <span className={labelClass}>Size n</span>
+                    <input type="number" min={1} max={MAX_DENSE_SIZE} value={size} onChange={(e) => setSize(Number(e.target.value))} className={inputClass} />
+                </label>
+                <label>
+                    <span className={labelClass}>Seed</span>
+                    <div className="flex gap-2">
+                        <input
+                            type="number"
+                            value={seed}
+                            disabled={!info.seeded}
+                            onChange={(e) => setSeed(Math.trunc(Number(e.target.value)) || 0)}
+                            className={inputClass}
+                        />
+                        <button
+                            onClick={() => setSeed(randomSeed())}
+                            disabled={!info.seeded}
+                            className="px-2 rounded-lg bg-slate-100 dark:bg-slate-700/50 text-slate-600 dark:text-slate-300 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                            aria-label="New seed"
+                        >
+                            <Dices size={16} />
+                        </button>
+                    </div>
+                </label>
+                <label>
+                    <span className={labelClass}>Known solution</span>
+                    <select value={solution} onChange={(e) => setSolution(e.target.value as KnownSolution)} className={inputClass}>
+                        {KNOWN_SOLUTIONS.map(option => (
+                            <option key={option.id} value={option.id}>{option.name}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {solution === 'custom' && (
+                <label className="block">
+                    <span className={labelClass}>x* (comma- or space-separated)</span>
+                    <input value={custom} onChange={(e) => setCustom(e.target.value)} placeholder="1, -2, 3" className={inputClass} />
+                </label>
+            )}
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-200 rounded-lg border border-red-200 dark:border-red-800 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="flex justify-center">
+                <button
+                    onClick={generate}
+                    className="px-4 py-2 text-sm font-semibold bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-lg hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors"
+                >
+                    Generate into Matrix
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default GeneratorPanel;
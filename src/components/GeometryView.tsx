@@ -0,0 +1,243 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { Matrix, Vector } from '../utils/solver';
+import { clipLine, clipParametric, clipPlane, planeThrough, project, solutionSet, viewRadius } from '../utils/geometry';
+import type { SolutionSet, ViewAngles } from '../utils/geometry';
+import { formatScalar } from '../utils/format';
+
+interface GeometryViewProps {
+    /** A system with 2 or 3 unknowns; each row is drawn as a line or a plane. */
+    A: Matrix;
+    b: Vector;
+    variables?: string[] | null;
+}
+
+const SIZE = 360;
+const CENTER = SIZE / 2;
+const PADDING = 24;
+const COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#0ea5e9', '#a855f7', '#84cc16', '#ec4899', '#14b8a6', '#f97316'];
+// The solution is drawn in the text colour so it stands out from the equations in both themes
+const SOLUTION_POINT = "fill-slate-900 dark:fill-white stroke-white dark:stroke-slate-900";
+const SOLUTION_STROKE = "stroke-slate-900 dark:stroke-white";
+const DEFAULT_VIEW: ViewAngles = { yaw: -0.6, pitch: 0.45 };
+
+const equationLabel = (row: Vector, rhs: number, names: string[]) => {
+    const terms = row
+        .map((coefficient, j) => ({ coefficient, name: names[j] }))
+        .filter(term => term.coefficient !== 0)
+        .map((term, k) => {
+            const magnitude = Math.abs(term.coefficient) === 1 ? '' : formatScalar(Math.abs(term.coefficient), 2);
+            const sign = term.coefficient < 0 ? (k === 0 ? '−' : ' − ') : k === 0 ? '' : ' + ';
+            return `${sign}${magnitude}${term.name}`;
+        });
+    return `${terms.join('') || '0'} = ${formatScalar(rhs, 2)}`;
+};
+
+const caption = (solution: SolutionSet, n: number) => {
+    const shape = n === 2 ? 'lines' : 'planes';
+    if (solution.status === 'unique') return `The ${shape} meet in one point: the unique solution.`;
+    if (solution.status === 'none') {
+        return n === 2
+            ? 'The lines have no common point: some are parallel, or they do not all pass through one point.'
+            : 'The planes have no common point: some are parallel, or they meet pairwise in parallel lines.';
+    }
+    const dimension = solution.directions.length;
+    if (dimension === 1) return n === 2 ? 'The lines coincide: every point on them is a solution.' : 'The planes share a line of solutions.';
+    if (dimension === 2 && n === 3) return 'The planes coincide: every point on them is a solution.';
+    return 'Every point is a solution.';
+};
+
+const pointLabel = (point: Vector) => `(${point.map(val => formatScalar(val, 2)).join(', ')})`;
+
+/**
+ * Each equation of a 2- or 3-unknown system as a line or a plane, with the solution point, line or plane marked.
+ * The 3D view is projected in software and turns when dragged.
+ */
+const GeometryView: React.FC<GeometryViewProps> = ({ A, b, variables }) => {
+    const n = A[0]?.length ?? 0;
+    const names = Array.from({ length: n }, (_, j) => variables?.[j] ?? `x${j + 1}`);
+    const [view, setView] = useState<ViewAngles>(DEFAULT_VIEW);
+    const drag = useRef<{ x: number; y: number } | null>(null);
+
+    const solution = useMemo(() => solutionSet(A, b), [A, b]);
+    const radius = viewRadius(solution);
+    const scale = (CENTER - PADDING) / radius / (n === 3 ? Math.sqrt(3) : 1);
+
+    const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (n !== 3) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drag.current = { x: e.clientX, y: e.clientY };
+    };
+    const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!drag.current) return;
+        const dx = e.clientX - drag.current.x;
+        const dy = e.clientY - drag.current.y;
+        drag.current = { x: e.clientX, y: e.clientY };
+        setView(prev => ({
+            yaw: prev.yaw + dx * 0.01,
+            pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, prev.pitch + dy * 0.01)),
+        }));
+    };
+    const onPointerUp = () => {
+        drag.current = null;
+    };
+
+    const to2D = ([x, y]: Vector) => ({ x: CENTER + x * scale, y: CENTER - y * scale });
+    const to3D = (p: Vector) => {
+        const q = project(p, view);
+        return { x: CENTER + q.x * scale, y: CENTER + q.y * scale, depth: q.depth };
+    };
+    const points = (corners: Vector[]) => corners.map(to3D).map(p => `${p.x},${p.y}`).join(' ');
+
+    const renderPlane = () => {
+        const cube: Vector[] = [0, 1, 2, 3, 4, 5, 6, 7].map(k => [k & 1 ? radius : -radius, k & 2 ? radius : -radius, k & 4 ? radius : -radius]);
+        const edges = cube.flatMap((p, i) => cube.slice(i + 1).filter(q => p.filter((val, k) => val !== q[k]).length === 1).map(q => [p, q]));
+        // Painter's algorithm: the farthest plane first
+        const planes = A.map((row, i) => ({ i, corners: clipPlane(row, b[i], radius) }))
+            .filter(plane => plane.corners.length > 0)
+            .map(plane => ({ ...plane, depth: plane.corners.reduce((sum, corner) => sum + to3D(corner).depth, 0) / plane.corners.length }))
+            .sort((p, q) => q.depth - p.depth);
+        const axisEnd = (k: number) => to3D([0, 1, 2].map(j => (j === k ? radius * 1.15 : 0)));
+        const origin = to3D([0, 0, 0]);
+
+        let marker: React.ReactNode = null;
+        if (solution.point && solution.directions.length === 0) {
+            const p = to3D(solution.point);
+            marker = <circle cx={p.x} cy={p.y} r={5} strokeWidth={2} className={SOLUTION_POINT} />;
+        } else if (solution.point && solution.directions.length === 1) {
+            const segment = clipParametric(solution.point, solution.directions[0], radius);
+            if (segment) {
+                const [p, q] = segment.map(to3D);
+                marker = <line x1={p.x} y1={p.y} x2={q.x} y2={q.y} className={SOLUTION_STROKE} strokeWidth={4} strokeLinecap="round" />;
+            }
+        } else if (solution.point && solution.directions.length === 2) {
+            const { normal, c } = planeThrough(solution.point, [solution.directions[0], solution.directions[1]]);
+            marker = <polygon points={points(clipPlane(normal, c, radius))} fill="none" className={SOLUTION_STROKE} strokeWidth={3} strokeDasharray="6 4" />;
+        }
+
+        return (
+            <>
+                {edges.map(([p, q], k) => {
+                    const [s, t] = [to3D(p), to3D(q)];
+                    return <line key={k} x1={s.x} y1={s.y} x2={t.x} y2={t.y} stroke="currentColor" strokeOpacity={0.15} />;
+                })}
+                {[0, 1, 2].map(k => {
+                    const end = axisEnd(k);
+                    return (
+                        <g key={k}>
+                            <line x1={origin.x} y1={origin.y} x2={end.x} y2={end.y} stroke="currentColor" strokeOpacity={0.6} />
+                            <text x={end.x} y={end.y} fontSize={11} fill="currentColor" textAnchor="middle">{names[k]}</text>
+                        </g>
+                    );
+                })}
+                {planes.map(plane => (
+                    <polygon
+                        key={plane.i}
+                        points={points(plane.corners)}
+                        fill={COLORS[plane.i % COLORS.length]}
+                        fillOpacity={0.25}
+                        stroke={COLORS[plane.i % COLORS.length]}
+                        strokeWidth={1.5}
+                    />
+                ))}
+                {marker}
+            </>
+        );
+    };
+
+    const renderLines = () => {
+        const ticks = Array.from({ length: 11 }, (_, k) => ((k - 5) / 5) * radius);
+        let marker: React.ReactNode = null;
+        if (solution.point && solution.directions.length === 0) {
+            const p = to2D(solution.point);
+            marker = (
+                <>
+                    <circle cx={p.x} cy={p.y} r={5} strokeWidth={2} className={SOLUTION_POINT} />
+                    <text x={p.x + 8} y={p.y - 8} fontSize={11} fill="currentColor">{pointLabel(solution.point)}</text>
+                </>
+            );
+        } else if (solution.point && solution.directions.length === 1) {
+            const segment = clipParametric(solution.point, solution.directions[0], radius);
+            if (segment) {
+                const [p, q] = segment.map(to2D);
+                marker = <line x1={p.x} y1={p.y} x2={q.x} y2={q.y} className={SOLUTION_STROKE} strokeWidth={5} strokeOpacity={0.4} strokeLinecap="round" />;
+            }
+        }
+
+        return (
+            <>
+                {ticks.map(tick => {
+                    const [p, q] = [to2D([tick, -radius]), to2D([tick, radius])];
+                    const [r, s] = [to2D([-radius, tick]), to2D([radius, tick])];
+                    return (
+                        <g key={tick}>
+                            <line x1={p.x} y1={p.y} x2={q.x} y2={q.y} stroke="currentColor" strokeOpacity={tick === 0 ? 0.6 : 0.1} />
+                            <line x1={r.x} y1={r.y} x2={s.x} y2={s.y} stroke="currentColor" strokeOpacity={tick === 0 ? 0.6 : 0.1} />
+                        </g>
+                    );
+                })}
+                <text x={SIZE - PADDING} y={CENTER - 6} fontSize={11} fill="currentColor" textAnchor="end">{names[0]}</text>
+                <text x={CENTER + 6} y={PADDING + 4} fontSize={11} fill="currentColor">{names[1]}</text>
+                <text x={SIZE - PADDING} y={CENTER + 14} fontSize={10} fill="currentColor" textAnchor="end">{radius}</text>
+                {/* A line of solutions goes under the equations, a solution point on top */}
+                {solution.directions.length > 0 && marker}
+                {A.map((row, i) => {
+                    const segment = clipLine(row, b[i], radius);
+                    if (!segment) return null;
+                    const [p, q] = segment.map(to2D);
+                    return <line key={i} x1={p.x} y1={p.y} x2={q.x} y2={q.y} stroke={COLORS[i % COLORS.length]} strokeWidth={2} />;
+                })}
+                {solution.directions.length === 0 && marker}
+            </>
+        );
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 transition-colors">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300">Geometric View</h3>
+                {n === 3 && (
+                    <button
+                        onClick={() => setView(DEFAULT_VIEW)}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-slate-100 dark:bg-slate-700/50 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                        <RotateCcw size={14} />
+                        Reset view
+                    </button>
+                )}
+            </div>
+            <div className="flex flex-col md:flex-row items-center gap-6">
+                <svg
+                    viewBox={`0 0 ${SIZE} ${SIZE}`}
+                    className={`w-full max-w-sm shrink-0 text-slate-500 dark:text-slate-400 select-none ${n === 3 ? 'cursor-grab active:cursor-grabbing touch-none' : ''}`}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onPointerCancel={onPointerUp}
+                >
+                    {n === 2 ? renderLines() : renderPlane()}
+                </svg>
+                <div className="space-y-3 text-sm">
+                    <ul className="space-y-1">
+                        {A.map((row, i) => (
+                            <li key={i} className="flex items-center gap-2 font-mono text-slate-700 dark:text-slate-300">
+                                <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                                {equationLabel(row, b[i], names)}
+                                {row.every(val => val === 0) && <span className="font-sans text-xs text-slate-400">(not drawn)</span>}
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="text-slate-600 dark:text-slate-400">{caption(solution, n)}</p>
+                    {solution.point && solution.directions.length === 0 && (
+                        <p className="font-mono text-slate-700 dark:text-slate-300">
+                            ({names.join(', ')}) = {pointLabel(solution.point)}
+                        </p>
+                    )}
+                    {n === 3 && <p className="text-xs text-slate-400">Drag the picture to turn it.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GeometryView;
@@ -0,0 +1,105 @@
+import React from 'react';
+import type { IterativeSettingsValue } from '../utils/iterative';
+
+interface IterativeSettingsProps {
+    value: IterativeSettingsValue;
+    onChange: (value: IterativeSettingsValue) => void;
+    showOmega: boolean;
+    showShift?: boolean;
+    /** The eigenvalue methods start from v₀ = (1, ..., 1) instead of the zero vector. */
+    eigen?: boolean;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm font-mono rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1";
+
+interface CommittedNumberInputProps {
+    value: number;
+    /** Whether a parsed value may replace the current one; anything else restores the current value. */
+    accepts: (value: number) => boolean;
+    onCommit: (value: number) => void;
+    step?: number | 'any';
+    min?: number;
+    max?: number;
+}
+
+/**
+ * A number input that is applied on blur or Enter. Empty, half-typed or rejected input restores the
+ * previous value, so a value is never silently replaced by 0 while it is being typed.
+ */
+const CommittedNumberInput: React.FC<CommittedNumberInputProps> = ({ value, accepts, onCommit, step = 'any', min, max }) => (
+    <input
+        key={value}
+        type="number"
+        step={step}
+        min={min}
+        max={max}
+        defaultValue={value}
+        onBlur={(e) => {
+            const parsed = parseFloat(e.target.value);
+            if (Number.isFinite(parsed) && accepts(parsed)) {
+                onCommit(parsed);
+            } else {
+                e.target.value = String(value);
+            }
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className={inputClass}
+    />
+);
+
+const IterativeSettings: React.FC<IterativeSettingsProps> = ({ value, onChange, showOmega, showShift = false, eigen = false }) => {
+    const update = (patch: Partial<IterativeSettingsValue>) => onChange({ ...value, ...patch });
+
+    return (
+        <div className="space-y-3 px-2">
+            <div>
+                <label className={labelClass}>Tolerance</label>
+                {/* A tolerance of 0 or less could never be met */}
+                <CommittedNumberInput value={value.tolerance} min={0} accepts={tolerance => tolerance > 0} onCommit={tolerance => update({ tolerance })} />
+            </div>
+            <div>
+                <label className={labelClass}>Max Iterations</label>
+                <input
+                    type="number"
+                    min={1}
+                    value={value.maxIterations}
+                    onChange={(e) => update({ maxIterations: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className={inputClass}
+                />
+            </div>
+            {showOmega && (
+                <div>
+                    <label className={labelClass}>Relaxation ω (0 &lt; ω &lt; 2)</label>
+                    {/* SOR only converges for 0 < ω < 2, and ω = 0 would never change x */}
+                    <CommittedNumberInput
+                        value={value.omega}
+                        step={0.05}
+                        min={0}
+                        max={2}
+                        accepts={omega => omega > 0 && omega < 2}
+                        onCommit={omega => update({ omega })}
+                    />
+                </div>
+            )}
+            {showShift && (
+                <div>
+                    <label className={labelClass}>Shift σ (finds the λ closest to σ)</label>
+                    <CommittedNumberInput value={value.shift} accepts={() => true} onCommit={shift => update({ shift })} />
+                </div>
+            )}
+            <div>
+                <label className={labelClass}>{eigen ? 'Starting Vector v₀' : 'Initial Guess x₀'}</label>
+                <input
+                    type="text"
+                    placeholder={eigen ? '1, 1, 1' : '0, 0, 0'}
+                    value={value.initialGuess}
+                    onChange={(e) => update({ initialGuess: e.target.value })}
+                    className={inputClass}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default IterativeSettings;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Fraction } from '../utils/fraction';
+import { Complex } from '../utils/complex';
+import { formatScalar, toNumber } from '../utils/format';
+import type { Scalar } from '../utils/format';
+import type { LUDisplay } from '../utils/solve';
+import MatrixBlock from './MatrixBlock';
+
+interface LUFactorsViewProps {
+    lu: LUDisplay;
+    digits?: number;
+}
+
+const asComplex = (value: Scalar) => (value instanceof Complex ? value : new Complex(toNumber(value)));
+
+const times = (a: Scalar, b: Scalar): Scalar => {
+    if (a instanceof Fraction && b instanceof Fraction) return a.mul(b);
+    if (a instanceof Complex || b instanceof Complex) return asComplex(a).mul(asComplex(b));
+    return toNumber(a) * toNumber(b);
+};
+
+const plus = (a: Scalar, b: Scalar): Scalar => {
+    if (a instanceof Fraction && b instanceof Fraction) return a.add(b);
+    if (a instanceof Complex || b instanceof Complex) return asComplex(a).add(asComplex(b));
+    return toNumber(a) + toNumber(b);
+};
+
+const distance = (a: Scalar, b: Scalar) =>
+    a instanceof Complex || b instanceof Complex ? asComplex(a).sub(asComplex(b)).abs() : Math.abs(toNumber(a) - toNumber(b));
+
+// L * U, kept in fractions when the factors are exact so the product prints as the original entries
+const product = (L: Scalar[][], U: Scalar[][]): Scalar[][] =>
+    L.map(row => U[0].map((_, j) => row.reduce<Scalar>((sum, l, k) => plus(sum, times(l, U[k][j])), row[0] instanceof Fraction ? Fraction.ZERO : 0)));
+
+/**
+ * Shows the factors of P * A = L * U and checks them: L * U is rebuilt and compared entry by entry with P * A.
+ */
+const LUFactorsView: React.FC<LUFactorsViewProps> = ({ lu, digits = 4 }) => {
+    const { A, L, U, P, Q, y, form } = lu;
+    // Column k of A * Q is the column of A where Q has its 1 in column k
+    const PA = P.map(row => {
+        const source = A[row.indexOf(1)];
+        return Q ? Q[0].map((_, k) => source[Q.findIndex(q => q[k] === 1)]) : source;
+    });
+    const PALabel = Q ? 'P · A · Q' : 'P · A';
+    const LU = product(L, U);
+    const error = Math.max(0, ...LU.flatMap((row, i) => row.map((val, j) => distance(val, PA[i][j]))));
+    const swapped = P.some((row, i) => row[i] !== 1) || Q?.some((row, i) => row[i] !== 1);
+
+    return (
+        <div className="space-y-8">
+            <div className="grid md:grid-cols-3 gap-8">
+                <MatrixBlock title="Lower Triangular (L)" matrix={L} className="bg-blue-50/50 dark:bg-blue-900/20" digits={digits} />
+                <MatrixBlock title="Upper Triangular (U)" matrix={U} className="bg-orange-50/50 dark:bg-orange-900/20" digits={digits} />
+                <MatrixBlock title="Permutation (P)" matrix={P} className="bg-purple-50/50 dark:bg-purple-900/20" digits={digits} />
+                {Q && <MatrixBlock title="Column Permutation (Q)" matrix={Q} className="bg-purple-50/50 dark:bg-purple-900/20" digits={digits} />}
+            </div>
+            {form === 'crout' && (
+                <p className="-mt-4 text-xs text-center text-slate-500 dark:text-slate-400">
+                    Crout form: these are the Doolittle factors rescaled with D = diag(U), so L holds L·D and U holds D⁻¹·U.
+                    The last steps of the trace show each row of U divided by its pivot.
+                </p>
+            )}
+
+            <div>
+                <div className="grid md:grid-cols-2 gap-8">
+                    <MatrixBlock title={PALabel} matrix={PA} digits={digits} />
+                    <MatrixBlock title="L · U" matrix={LU} digits={digits} />
+                </div>
+                <p className="mt-3 text-sm text-center text-slate-600 dark:text-slate-400">
+                    Reconstruction error <span className="font-mono">max |{PALabel} − L·U| = {error === 0 ? '0' : error.toExponential(3)}</span>
+                </p>
+                {swapped && (
+                    <p className="mt-1 text-xs text-center text-slate-500 dark:text-slate-400">
+                        Rows or columns were swapped during pivoting, so L · U reproduces {PALabel} rather than A itself.
+                    </p>
+                )}
+            </div>
+
+            {y && (
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Intermediate Vector (y), from L · y = P · b</h3>
+                    <div className="flex flex-wrap gap-4 justify-center">
+                        {y.map((val, i) => (
+                            <div key={i} className="flex flex-col items-center bg-blue-50 dark:bg-blue-900/30 p-3 rounded-lg border border-blue-200 dark:border-blue-800 min-w-[80px]">
+                                <span className="text-xs text-blue-600 dark:text-blue-400 font-bold mb-1">y{i + 1}</span>
+                                <span className="text-lg font-mono text-slate-800 dark:text-slate-200">{formatScalar(val, digits)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LUFactorsView;
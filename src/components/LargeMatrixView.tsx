@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import { formatScalar } from '../utils/format';
+import type { Scalar } from '../utils/format';
+
+interface LargeMatrixViewProps {
+    rows: number;
+    cols: number;
+    entry: (i: number, j: number) => Scalar;
+    /** Header of column j; defaults to its 1-based index. */
+    columnLabel?: (j: number) => string;
+    /** Header of row i; defaults to its 1-based index. */
+    rowLabel?: (i: number) => string;
+    className?: string;
+    digits?: number;
+}
+
+const CELL_WIDTH = 88;
+const CELL_HEIGHT = 28;
+const HEADER_WIDTH = 48;
+const VIEWPORT_HEIGHT = 320;
+const VIEWPORT_WIDTH = 640;
+// Cells rendered beyond each edge of the viewport so fast scrolling does not flash empty space
+const OVERSCAN = 4;
+
+/**
+ * Read-only view of a matrix too large to render in full: only the cells inside the scrolled
+ * window exist in the DOM, so a 2000 × 2000 matrix costs no more than a 10 × 10 one.
+ */
+const LargeMatrixView: React.FC<LargeMatrixViewProps> = ({
+    rows,
+    cols,
+    entry,
+    columnLabel = (j) => String(j + 1),
+    rowLabel = (i) => String(i + 1),
+    className,
+    digits = 2,
+}) => {
+    const [scroll, setScroll] = useState({ top: 0, left: 0 });
+
+    const firstRow = Math.max(0, Math.floor(scroll.top / CELL_HEIGHT) - OVERSCAN);
+    const lastRow = Math.min(rows, Math.ceil((scroll.top + VIEWPORT_HEIGHT) / CELL_HEIGHT) + OVERSCAN);
+    const firstCol = Math.max(0, Math.floor(scroll.left / CELL_WIDTH) - OVERSCAN);
+    const lastCol = Math.min(cols, Math.ceil((scroll.left + VIEWPORT_WIDTH) / CELL_WIDTH) + OVERSCAN);
+
+    const visibleRows = Array.from({ length: lastRow - firstRow }, (_, k) => firstRow + k);
+    const visibleCols = Array.from({ length: lastCol - firstCol }, (_, k) => firstCol + k);
+
+    return (
+        <div className="max-w-full">
+            <div
+                onScroll={(e) => setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+                className={clsx("relative overflow-auto rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 font-mono text-xs text-slate-700 dark:text-slate-300", className)}
+                style={{ maxHeight: VIEWPORT_HEIGHT + CELL_HEIGHT, maxWidth: VIEWPORT_WIDTH + HEADER_WIDTH }}
+            >
+                <div className="relative" style={{ width: HEADER_WIDTH + cols * CELL_WIDTH, height: (rows + 1) * CELL_HEIGHT }}>
+                    {visibleCols.map(j => (
+                        <div
+                            key={`c-${j}`}
+                            className="absolute z-10 flex items-center justify-center font-semibold text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700"
+                            style={{ top: scroll.top, left: HEADER_WIDTH + j * CELL_WIDTH, width: CELL_WIDTH, height: CELL_HEIGHT }}
+                        >
+                            {columnLabel(j)}
+                        </div>
+                    ))}
+                    {visibleRows.map(i => (
+                        <React.Fragment key={`r-${i}`}>
+                            <div
+                                className="absolute z-10 flex items-center justify-center font-semibold text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700"
+                                style={{ top: (i + 1) * CELL_HEIGHT, left: scroll.left, width: HEADER_WIDTH, height: CELL_HEIGHT }}
+                            >
+                                {rowLabel(i)}
+                            </div>
+                            {visibleCols.map(j => (
+                                <div
+                                    key={j}
+                                    className="absolute flex items-center justify-end px-2 border-b border-slate-100 dark:border-slate-700/50"
+                                    style={{ top: (i + 1) * CELL_HEIGHT, left: HEADER_WIDTH + j * CELL_WIDTH, width: CELL_WIDTH, height: CELL_HEIGHT }}
+                                >
+                                    {formatScalar(entry(i, j), digits)}
+                                </div>
+                            ))}
+                        </React.Fragment>
+                    ))}
+                    <div
+                        className="absolute z-20 bg-slate-100 dark:bg-slate-700"
+                        style={{ top: scroll.top, left: scroll.left, width: HEADER_WIDTH, height: CELL_HEIGHT }}
+                    />
+                </div>
+            </div>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                {rows} × {cols} · scroll to see more
+            </p>
+        </div>
+    );
+};
+
+export default LargeMatrixView;
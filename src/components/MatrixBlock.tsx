@@ -0,0 +1,38 @@
+import React from 'react';
+import clsx from 'clsx';
+import { formatScalar } from '../utils/format';
+import type { Scalar } from '../utils/format';
+import { isLargeSystem } from '../utils/dense';
+import LargeMatrixView from './LargeMatrixView';
+
+interface MatrixBlockProps {
+    title: string;
+    matrix: Scalar[][];
+    /** Background tint of the bracketed matrix. */
+    className?: string;
+    /** Decimal places of non-integer entries. */
+    digits?: number;
+}
+
+const MatrixBlock: React.FC<MatrixBlockProps> = ({ title, matrix, className, digits = 2 }) => (
+    <div className="overflow-x-auto">
+        <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">{title}</h3>
+        {isLargeSystem(matrix.length, matrix[0]?.length ?? 0) ? (
+            <LargeMatrixView rows={matrix.length} cols={matrix[0].length} entry={(i, j) => matrix[i][j]} className={className} digits={digits} />
+        ) : (
+            <div className={clsx("inline-block border-l-2 border-r-2 border-slate-800 dark:border-slate-400 px-2 rounded-lg", className)}>
+                {matrix.map((row, i) => (
+                    <div key={i} className="flex gap-4 mb-2 last:mb-0">
+                        {row.map((val, j) => (
+                            <div key={j} className="min-w-12 text-center font-mono text-sm py-1 text-slate-700 dark:text-slate-300">
+                                {formatScalar(val, digits)}
+                            </div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
+export default MatrixBlock;
@@ -1,38 +1,188 @@
-import React, { useEffect } from 'react';
+import React, { useState } from 'react';
 import { Plus, Minus } from 'lucide-react';
+import clsx from 'clsx';
 import type { Matrix, Vector } from '../utils/solver';
+import { parseSystem, ParseError } from '../utils/parser';
+import { MAX_DENSE_SIZE, MAX_GRID_SIZE, isLargeSystem } from '../utils/dense';
+import type { GeneratedSystem } from '../utils/generators';
+import { Complex } from '../utils/complex';
+import LargeMatrixView from './LargeMatrixView';
+import GeneratorPanel from './GeneratorPanel';
+import BandInput from './BandInput';
 
 interface MatrixInputProps {
+    m: number;
+    setM: (m: number) => void;
     n: number;
     setN: (n: number) => void;
     matrixA: Matrix;
     setMatrixA: (m: Matrix) => void;
     matrixB: Vector;
     setMatrixB: (v: Vector) => void;
+    /** Right-hand sides b₂ … b_k solved alongside matrixB (LU reuses one factorization for all of them). */
+    extraRhs: Vector[];
+    setExtraRhs: (columns: Vector[]) => void;
+    /** Imaginary parts of A and b while complex entries are on, null for a real system. */
+    imaginary: { A: Matrix; b: Vector } | null;
+    setImaginary: (parts: { A: Matrix; b: Vector } | null) => void;
+    setVariables: (names: string[] | null) => void;
+    /** Called with the generated system, including its known solution x* if one was chosen. */
+    setGenerated: (system: GeneratedSystem) => void;
     onSolve: () => void;
+    /** Disables the Solve button while a solve is running. */
+    solving?: boolean;
 }
 
+type InputMode = 'grid' | 'bands' | 'text' | 'generate';
+
+const MODE_LABELS: Record<InputMode, string> = {
+    grid: 'Grid',
+    bands: 'Diagonals',
+    text: 'Equations / Paste',
+    generate: 'Generate',
+};
+
+const TEXT_PLACEHOLDER = `2x1 + x2 + 3x3 = 1
+4x1 + 3x2 + 5x3 = 1
+6x1 + 5x2 + 5x3 = -3
+
+or paste a matrix [A | b]:  [2 1 3 1; 4 3 5 1; 6 5 5 -3]`;
+
+const MIN_SIZE = 1;
+
+const A_CELL_CLASS = "w-full h-12 text-center text-lg font-medium border-0 ring-1 ring-slate-200 dark:ring-slate-600 rounded-xl shadow-sm focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 placeholder:text-slate-400 focus:outline-none transition-all duration-200 hover:ring-indigo-300 dark:hover:ring-indigo-500/50";
+
+const B_CELL_CLASS = "h-12 text-center text-lg font-medium border-0 ring-1 ring-amber-200 dark:ring-amber-800/50 rounded-xl shadow-sm focus:ring-2 focus:ring-amber-500 dark:focus:ring-amber-400 bg-amber-50 dark:bg-amber-950/20 text-slate-800 dark:text-amber-100 placeholder:text-amber-300 focus:outline-none transition-all duration-200 hover:ring-amber-300 dark:hover:ring-amber-700";
+
+// Invalid text keeps the last value that parsed and is only marked, so "3-" can still become "3-2i"
+const INVALID_CELL_CLASS = "aria-invalid:ring-2 aria-invalid:ring-red-400 dark:aria-invalid:ring-red-500";
+
+interface DimensionControlProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+}
+
+const DimensionControl: React.FC<DimensionControlProps> = ({ label, value, onChange }) => (
+    <div className="flex items-center gap-4 bg-slate-100 dark:bg-slate-700/50 p-1.5 rounded-full border border-slate-200 dark:border-slate-600 transition-colors">
+        <span className="text-xs font-bold text-slate-500 dark:text-slate-400 pl-3 uppercase tracking-wider">{label}</span>
+        <div className="flex items-center bg-white dark:bg-slate-800 rounded-full shadow-sm border border-slate-200 dark:border-slate-600 overflow-hidden">
+            <button
+                onClick={() => onChange(value - 1)}
+                className="w-8 h-8 flex items-center justify-center hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors border-r border-slate-200 dark:border-slate-600 active:bg-slate-200 dark:active:bg-slate-600"
+                aria-label={`Decrease ${label}`}
+            >
+                <Minus size={14} strokeWidth={2.5} />
+            </button>
+            {/* Applied on blur or Enter, so typing 200 does not resize through 2 and 20 first */}
+            <input
+                key={value}
+                type="number"
+                defaultValue={value}
+                onBlur={(e) => onChange(Number(e.target.value) || value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                onFocus={(e) => e.target.select()}
+                aria-label={label}
+                className="w-14 text-center font-bold text-lg text-slate-800 dark:text-slate-100 bg-transparent focus:outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none"
+            />
+            <button
+                onClick={() => onChange(value + 1)}
+                className="w-8 h-8 flex items-center justify-center hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors border-l border-slate-200 dark:border-slate-600 active:bg-slate-200 dark:active:bg-slate-600"
+                aria-label={`Increase ${label}`}
+            >
+                <Plus size={14} strokeWidth={2.5} />
+            </button>
+        </div>
+    </div>
+);
+
+interface ComplexCellProps {
+    re: number;
+    im: number;
+    onChange: (value: Complex) => void;
+    className: string;
+}
+
+/** A text cell for a + bi or r∠θ°; the typed text is kept while it has focus and tidied on blur. */
+const ComplexCell: React.FC<ComplexCellProps> = ({ re, im, onChange, className }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+    const [invalid, setInvalid] = useState(false);
+
+    const handleChange = (value: string) => {
+        setDraft(value);
+        try {
+            onChange(value.trim() ? Complex.parse(value) : Complex.ZERO);
+            setInvalid(false);
+        } catch {
+            setInvalid(true);
+        }
+    };
+
+    return (
+        <input
+            type="text"
+            value={draft ?? new Complex(re, im).toString()}
+            onChange={(e) => handleChange(e.target.value)}
+            onFocus={(e) => e.target.select()}
+            onBlur={() => {
+                setDraft(null);
+                setInvalid(false);
+            }}
+            aria-invalid={invalid}
+            title={invalid ? 'Enter a + bi (e.g. 3-2i) or polar r∠θ° (e.g. 5∠30°)' : undefined}
+            spellCheck={false}
+            className={clsx(className, INVALID_CELL_CLASS)}
+        />
+    );
+};
+
 const MatrixInput: React.FC<MatrixInputProps> = ({
+    m,
+    setM,
     n,
     setN,
     matrixA,
     setMatrixA,
     matrixB,
     setMatrixB,
+    extraRhs,
+    setExtraRhs,
+    imaginary,
+    setImaginary,
+    setVariables,
+    setGenerated,
     onSolve,
+    solving = false,
 }) => {
-    useEffect(() => {
-        if (matrixA.length !== n) {
-            const newA = Array.from({ length: n }, () => Array(n).fill(0));
-            const newB = Array(n).fill(0);
-            setMatrixA(newA);
-            setMatrixB(newB);
+    const [mode, setMode] = useState<InputMode>('grid');
+    const [text, setText] = useState('');
+    const [parseError, setParseError] = useState<{ message: string; line?: number; column?: number } | null>(null);
+
+    // Resize the system, keeping the entries that still fit
+    const resize = (rows: number, cols: number) => {
+        if (cols !== n) setVariables(null);
+        setM(rows);
+        setN(cols);
+        setMatrixA(Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => matrixA[i]?.[j] ?? 0)));
+        setMatrixB(Array.from({ length: rows }, (_, i) => matrixB[i] ?? 0));
+        setExtraRhs(extraRhs.map(column => Array.from({ length: rows }, (_, i) => column[i] ?? 0)));
+        if (imaginary) {
+            setImaginary({
+                A: Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => imaginary.A[i]?.[j] ?? 0)),
+                b: Array.from({ length: rows }, (_, i) => imaginary.b[i] ?? 0),
+            });
         }
-    }, [n, setMatrixA, setMatrixB, matrixA.length]);
+    };
+
+    const clampSize = (size: number, max = MAX_DENSE_SIZE) => Math.max(MIN_SIZE, Math.min(max, Math.round(size)));
+
+    const handleRowsChange = (rows: number) => resize(clampSize(rows), n);
 
-    const handleDimensionChange = (delta: number) => {
-        const newN = Math.max(2, Math.min(10, n + delta));
-        setN(newN);
+    const handleColsChange = (cols: number) => resize(m, clampSize(cols));
+
+    const handleRhsChange = (columns: number) => {
+        const count = clampSize(columns, MAX_GRID_SIZE) - 1;
+        setExtraRhs(Array.from({ length: count }, (_, k) => extraRhs[k] ?? new Array(m).fill(0)));
     };
 
     const handleAChange = (row: number, col: number, value: string) => {
@@ -42,13 +192,83 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
         setMatrixA(newA);
     };
 
-    const handleBChange = (index: number, value: string) => {
-        const newB = [...matrixB];
+    // Column 0 is matrixB; columns 1.. are the extra right-hand sides
+    const handleBChange = (column: number, index: number, value: string) => {
+        const newB = [...(column === 0 ? matrixB : extraRhs[column - 1])];
         newB[index] = parseFloat(value) || 0;
-        setMatrixB(newB);
+        if (column === 0) {
+            setMatrixB(newB);
+        } else {
+            setExtraRhs(extraRhs.map((col, k) => (k === column - 1 ? newB : col)));
+        }
+    };
+
+    // Complex systems have a single right-hand side; the real parts stay in matrixA and matrixB
+    const toggleComplex = (on: boolean) => {
+        if (!on) {
+            setImaginary(null);
+            return;
+        }
+        setExtraRhs([]);
+        setImaginary({ A: matrixA.map(row => row.map(() => 0)), b: matrixB.map(() => 0) });
+    };
+
+    const handleComplexAChange = (row: number, col: number, value: Complex) => {
+        if (!imaginary) return;
+        setMatrixA(matrixA.map((r, i) => (i === row ? r.map((val, j) => (j === col ? value.re : val)) : r)));
+        setImaginary({ ...imaginary, A: imaginary.A.map((r, i) => (i === row ? r.map((val, j) => (j === col ? value.im : val)) : r)) });
+    };
+
+    const handleComplexBChange = (index: number, value: Complex) => {
+        if (!imaginary) return;
+        setMatrixB(matrixB.map((val, i) => (i === index ? value.re : val)));
+        setImaginary({ ...imaginary, b: imaginary.b.map((val, i) => (i === index ? value.im : val)) });
+    };
+
+    const rhsColumns = [matrixB, ...extraRhs];
+    const large = isLargeSystem(m, n);
+
+    const applyGenerated = (system: GeneratedSystem) => {
+        const size = system.A.length;
+        setM(size);
+        setN(size);
+        setMatrixA(system.A);
+        setMatrixB(system.b);
+        setExtraRhs([]);
+        setImaginary(null);
+        setVariables(null);
+        setGenerated(system);
+        setMode('grid');
+    };
+
+    const applyText = () => {
+        try {
+            const parsed = parseSystem(text);
+            setM(parsed.matrix.length);
+            setN(parsed.matrix[0].length);
+            setMatrixA(parsed.matrix);
+            setMatrixB(parsed.vector);
+            setExtraRhs([]);
+            setImaginary(null);
+            setVariables(parsed.variables);
+            setParseError(null);
+            setMode('grid');
+        } catch (err) {
+            if (err instanceof ParseError) {
+                setParseError({ message: err.message, line: err.line, column: err.column });
+            } else {
+                setParseError({ message: err instanceof Error ? err.message : 'Could not read the system.' });
+            }
+        }
     };
 
+    const errorLine = parseError?.line !== undefined ? text.split('\n')[parseError.line - 1] : undefined;
+
     const loadExample1 = () => {
+        setVariables(null);
+        setExtraRhs([]);
+        setImaginary(null);
+        setM(3);
         setN(3);
         setMatrixA([
             [2, 1, 3],
@@ -59,6 +279,10 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
     };
 
     const loadExample2 = () => {
+        setVariables(null);
+        setExtraRhs([]);
+        setImaginary(null);
+        setM(4);
         setN(4);
         setMatrixA([
             [2, -1, -3, 1],
@@ -70,6 +294,10 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
     };
 
     const loadInverseExample = () => {
+        setVariables(null);
+        setExtraRhs([]);
+        setImaginary(null);
+        setM(3);
         setN(3);
         setMatrixA([
             [1, 2, -3],
@@ -79,30 +307,62 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
         setMatrixB([5, 3, -1]);
     };
 
+    // Symmetric positive definite, for Cholesky and LDLᵀ
+    const loadSPDExample = () => {
+        setVariables(null);
+        setExtraRhs([]);
+        setImaginary(null);
+        setM(3);
+        setN(3);
+        setMatrixA([
+            [4, 12, -16],
+            [12, 37, -43],
+            [-16, -43, 98],
+        ]);
+        setMatrixB([1, 2, 3]);
+    };
+
+    // A tiny pivot: without pivoting the multiplier 1e17 wipes out the second equation
+    const loadPivotingExample = () => {
+        setVariables(null);
+        setExtraRhs([]);
+        setImaginary(null);
+        setM(2);
+        setN(2);
+        setMatrixA([
+            [1e-17, 1],
+            [1, 1],
+        ]);
+        setMatrixB([1, 2]);
+    };
+
+    // Two mesh currents of an AC circuit: impedances 2+3i, -i and 4-2i, sources 10 and 5∠90° = 5i
+    const loadComplexExample = () => {
+        setVariables(null);
+        setExtraRhs([]);
+        setM(2);
+        setN(2);
+        setMatrixA([
+            [2, 0],
+            [0, 4],
+        ]);
+        setMatrixB([10, 0]);
+        setImaginary({
+            A: [
+                [3, -1],
+                [-1, -2],
+            ],
+            b: [0, 5],
+        });
+    };
+
     return (
         <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 transition-colors duration-300">
             <div className="flex flex-col md:flex-row justify-between items-center mb-6 gap-4">
-                <div className="flex items-center gap-4 bg-slate-100 dark:bg-slate-700/50 p-1.5 rounded-full border border-slate-200 dark:border-slate-600 transition-colors">
-                    <span className="text-xs font-bold text-slate-500 dark:text-slate-400 pl-3 uppercase tracking-wider">Size (N)</span>
-                    <div className="flex items-center bg-white dark:bg-slate-800 rounded-full shadow-sm border border-slate-200 dark:border-slate-600 overflow-hidden">
-                        <button
-                            onClick={() => handleDimensionChange(-1)}
-                            className="w-8 h-8 flex items-center justify-center hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors border-r border-slate-200 dark:border-slate-600 active:bg-slate-200 dark:active:bg-slate-600"
-                            aria-label="Decrease Size"
-                        >
-                            <Minus size={14} strokeWidth={2.5} />
-                        </button>
-                        <span className="w-10 text-center font-bold text-lg text-slate-800 dark:text-slate-100 select-none">
-                            {n}
-                        </span>
-                        <button
-                            onClick={() => handleDimensionChange(1)}
-                            className="w-8 h-8 flex items-center justify-center hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors border-l border-slate-200 dark:border-slate-600 active:bg-slate-200 dark:active:bg-slate-600"
-                            aria-label="Increase Size"
-                        >
-                            <Plus size={14} strokeWidth={2.5} />
-                        </button>
-                    </div>
+                <div className="flex gap-3 flex-wrap justify-center">
+                    <DimensionControl label="Rows (m)" value={m} onChange={handleRowsChange} />
+                    <DimensionControl label="Cols (n)" value={n} onChange={handleColsChange} />
+                    {!imaginary && <DimensionControl label="RHS (k)" value={rhsColumns.length} onChange={handleRhsChange} />}
                 </div>
 
                 <div className="flex gap-2 flex-wrap justify-center">
@@ -115,52 +375,184 @@ const MatrixInput: React.FC<MatrixInputProps> = ({
                     <button onClick={loadInverseExample} className="px-3 py-1 text-xs bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">
                         Inverse Ex (3x3)
                     </button>
+                    <button onClick={loadPivotingExample} className="px-3 py-1 text-xs bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">
+                        Pivoting Ex (2x2)
+                    </button>
+                    <button onClick={loadSPDExample} className="px-3 py-1 text-xs bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">
+                        SPD Ex (3x3)
+                    </button>
+                    <button onClick={loadComplexExample} className="px-3 py-1 text-xs bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors">
+                        Complex Ex (2x2)
+                    </button>
                 </div>
             </div>
 
-            <div className="flex flex-col lg:flex-row gap-8 justify-center items-start overflow-auto">
-                <div>
-                    <h3 className="text-center mb-2 font-semibold text-slate-700 dark:text-slate-300">Matrix A</h3>
-                    <div
-                        className="grid gap-2"
-                        style={{ gridTemplateColumns: `repeat(${n}, minmax(60px, 1fr))` }}
-                    >
-                        {matrixA.map((row, i) => (
-                            row.map((val, j) => (
-                                <input
-                                    key={`a-${i}-${j}`}
-                                    type="number"
-                                    value={val}
-                                    onChange={(e) => handleAChange(i, j, e.target.value)}
-                                    onFocus={(e) => e.target.select()}
-                                    className="w-full h-12 text-center text-lg font-medium border-0 ring-1 ring-slate-200 dark:ring-slate-600 rounded-xl shadow-sm focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 placeholder:text-slate-400 focus:outline-none transition-all duration-200 hover:ring-indigo-300 dark:hover:ring-indigo-500/50"
-                                />
-                            ))
-                        ))}
+            <div className="flex justify-center mb-6">
+                <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg text-sm font-medium">
+                    {(['grid', 'bands', 'text', 'generate'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setMode(option)}
+                            className={clsx(
+                                "px-4 py-1.5 rounded-md transition-all",
+                                mode === option
+                                    ? "bg-white dark:bg-slate-800 text-indigo-700 dark:text-indigo-300 shadow-sm"
+                                    : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                            )}
+                        >
+                            {MODE_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {mode === 'text' && (
+                <div className="space-y-3">
+                    <textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        placeholder={TEXT_PLACEHOLDER}
+                        rows={8}
+                        spellCheck={false}
+                        className="w-full p-4 font-mono text-sm rounded-xl ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    {parseError && (
+                        <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-200 rounded-lg border border-red-200 dark:border-red-800 text-sm">
+                            <p className="font-semibold">{parseError.message}</p>
+                            {errorLine !== undefined && parseError.column !== undefined && (
+                                <pre className="mt-2 font-mono text-xs overflow-x-auto">
+                                    {errorLine}
+                                    {'\n'}
+                                    {' '.repeat(parseError.column - 1)}^
+                                </pre>
+                            )}
+                        </div>
+                    )}
+                    <div className="flex justify-center">
+                        <button
+                            onClick={applyText}
+                            className="px-4 py-2 text-sm font-semibold bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-lg hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors"
+                        >
+                            Load into Matrix
+                        </button>
                     </div>
                 </div>
+            )}
 
-                <div className="flex flex-col items-center">
-                    <h3 className="text-center mb-2 font-semibold text-slate-700 dark:text-slate-300">Vector B</h3>
-                    <div className="flex flex-col gap-2">
-                        {matrixB.map((val, i) => (
-                            <input
-                                key={`b-${i}`}
-                                type="number"
-                                value={val}
-                                onChange={(e) => handleBChange(i, e.target.value)}
-                                onFocus={(e) => e.target.select()}
-                                className="w-20 h-12 text-center text-lg font-medium border-0 ring-1 ring-amber-200 dark:ring-amber-800/50 rounded-xl shadow-sm focus:ring-2 focus:ring-amber-500 dark:focus:ring-amber-400 bg-amber-50 dark:bg-amber-950/20 text-slate-800 dark:text-amber-100 placeholder:text-amber-300 focus:outline-none transition-all duration-200 hover:ring-amber-300 dark:hover:ring-amber-700"
+            {mode === 'bands' && (m === n ? (
+                <BandInput n={n} matrixA={matrixA} setMatrixA={setMatrixA} matrixB={matrixB} setMatrixB={setMatrixB} />
+            ) : (
+                <p className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-center text-slate-600 dark:text-slate-400">
+                    Diagonal input needs a square system; this one is {m} × {n}.
+                </p>
+            ))}
+
+            {mode === 'generate' && <GeneratorPanel initialSize={n} onGenerate={applyGenerated} />}
+
+            {mode === 'grid' && large && (
+                <div className="space-y-4">
+                    <p className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-center text-slate-600 dark:text-slate-400">
+                        {m} × {n} is too large for input boxes. Paste the entries under Equations / Paste, or create a system under Generate.
+                    </p>
+                    <div className="flex flex-col lg:flex-row gap-8 justify-center items-start">
+                        <div className="min-w-0">
+                            <h3 className="text-center mb-2 font-semibold text-slate-700 dark:text-slate-300">Matrix A</h3>
+                            <LargeMatrixView rows={m} cols={n} entry={(i, j) => matrixA[i][j]} />
+                        </div>
+                        <div className="min-w-0">
+                            <h3 className="text-center mb-2 font-semibold text-slate-700 dark:text-slate-300">
+                                {rhsColumns.length > 1 ? 'Matrix B' : 'Vector B'}
+                            </h3>
+                            <LargeMatrixView
+                                rows={m}
+                                cols={rhsColumns.length}
+                                entry={(i, k) => rhsColumns[k][i]}
+                                columnLabel={(k) => `b${k + 1}`}
+                                className="bg-amber-50 dark:bg-amber-950/20"
                             />
-                        ))}
+                        </div>
                     </div>
                 </div>
-            </div>
+            )}
+
+            {mode === 'grid' && !large && (
+                <label className="flex items-center justify-center gap-2 mb-4 text-sm text-slate-600 dark:text-slate-400">
+                    <input type="checkbox" checked={imaginary !== null} onChange={(e) => toggleComplex(e.target.checked)} className="accent-indigo-600" />
+                    Complex entries, e.g. 3-2i or 5∠30°
+                </label>
+            )}
+
+            {mode === 'grid' && !large && (
+                <div className="flex flex-col lg:flex-row gap-8 justify-center items-start overflow-auto">
+                    <div>
+                        <h3 className="text-center mb-2 font-semibold text-slate-700 dark:text-slate-300">Matrix A</h3>
+                        <div
+                            className="grid gap-2"
+                            style={{ gridTemplateColumns: `repeat(${n}, minmax(${imaginary ? 96 : 60}px, 1fr))` }}
+                        >
+                            {matrixA.map((row, i) => (
+                                row.map((val, j) => (imaginary ? (
+                                    <ComplexCell
+                                        key={`a-${i}-${j}`}
+                                        re={val}
+                                        im={imaginary.A[i][j]}
+                                        onChange={(value) => handleComplexAChange(i, j, value)}
+                                        className={A_CELL_CLASS}
+                                    />
+                                ) : (
+                                    <input
+                                        key={`a-${i}-${j}`}
+                                        type="number"
+                                        value={val}
+                                        onChange={(e) => handleAChange(i, j, e.target.value)}
+                                        onFocus={(e) => e.target.select()}
+                                        className={A_CELL_CLASS}
+                                    />
+                                )))
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col items-center">
+                        <h3 className="text-center mb-2 font-semibold text-slate-700 dark:text-slate-300">
+                            {rhsColumns.length > 1 ? 'Matrix B' : 'Vector B'}
+                        </h3>
+                        <div className="flex gap-2">
+                            {rhsColumns.map((column, k) => (
+                                <div key={`b-${k}`} className="flex flex-col gap-2">
+                                    {rhsColumns.length > 1 && (
+                                        <span className="text-center text-xs font-semibold text-amber-700 dark:text-amber-300">b{k + 1}</span>
+                                    )}
+                                    {column.map((val, i) => (imaginary ? (
+                                        <ComplexCell
+                                            key={`b-${k}-${i}`}
+                                            re={val}
+                                            im={imaginary.b[i]}
+                                            onChange={(value) => handleComplexBChange(i, value)}
+                                            className={clsx('w-24', B_CELL_CLASS)}
+                                        />
+                                    ) : (
+                                        <input
+                                            key={`b-${k}-${i}`}
+                                            type="number"
+                                            value={val}
+                                            onChange={(e) => handleBChange(k, i, e.target.value)}
+                                            onFocus={(e) => e.target.select()}
+                                            className={clsx('w-20', B_CELL_CLASS)}
+                                        />
+                                    )))}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
 
             <div className="mt-8 flex justify-center">
                 <button
                     onClick={onSolve}
-                    className="px-8 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 dark:from-indigo-500 dark:to-purple-500 text-white font-bold rounded-lg shadow-lg hover:shadow-xl hover:scale-105 active:scale-95 transition-all text-lg"
+                    disabled={solving}
+                    className="px-8 py-3 disabled:opacity-50 disabled:pointer-events-none bg-gradient-to-r from-indigo-600 to-purple-600 dark:from-indigo-500 dark:to-purple-500 text-white font-bold rounded-lg shadow-lg hover:shadow-xl hover:scale-105 active:scale-95 transition-all text-lg"
                 >
                     Solve System
                 </button>
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Save, Trash2 } from 'lucide-react';
+import type { Matrix, Vector } from '../utils/solver';
+import { evaluateExpression, FUNCTIONS, isValidName, nextFreeName, PROBLEM_NAMES } from '../utils/calculator';
+import type { NamedMatrix } from '../utils/calculator';
+import { formatScalar } from '../utils/format';
+import MatrixBlock from './MatrixBlock';
+
+interface MatrixWorkspaceProps {
+    A: Matrix;
+    b: Vector;
+    /** Matrices stored by the user; A and b always come from the problem. */
+    workspace: NamedMatrix[];
+    setWorkspace: React.Dispatch<React.SetStateAction<NamedMatrix[]>>;
+    digits: number;
+}
+
+interface Evaluation {
+    expression: string;
+    value: Matrix | null;
+    error: string | null;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm font-mono rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const chipClass = "px-3 py-1 text-xs font-mono bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors";
+
+const size = (M: Matrix) => `${M.length}×${M[0]?.length ?? 0}`;
+
+/**
+ * Matrix calculator on the problem's A and b and on stored matrices: evaluates expressions such as
+ * inv(A)*b or rref([A b]) and stores results under new names.
+ */
+const MatrixWorkspace: React.FC<MatrixWorkspaceProps> = ({ A, b, workspace, setWorkspace, digits }) => {
+    const [open, setOpen] = useState(false);
+    const [expression, setExpression] = useState('');
+    const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
+    const [storeName, setStoreName] = useState('');
+
+    const names = [...PROBLEM_NAMES, ...workspace.map(item => item.name)];
+    const nameError = !storeName
+        ? null
+        : PROBLEM_NAMES.includes(storeName)
+            ? `${storeName} is the problem's ${storeName === 'A' ? 'matrix' : 'right-hand side'}; choose another name.`
+            : !isValidName(storeName)
+                ? 'Use a letter followed by letters, digits or "_", and not a function name.'
+                : null;
+
+    const evaluate = () => {
+        if (!expression.trim()) return;
+        const variables = [{ name: 'A', matrix: A }, { name: 'b', matrix: b.map(val => [val]) }, ...workspace];
+        try {
+            setEvaluation({ expression, value: evaluateExpression(expression, variables), error: null });
+            setStoreName(nextFreeName(names));
+        } catch (err) {
+            setEvaluation({ expression, value: null, error: err instanceof Error ? err.message : String(err) });
+        }
+    };
+
+    const store = () => {
+        const value = evaluation?.value;
+        if (!value || !storeName || nameError) return;
+        setWorkspace(prev => {
+            const existing = prev.findIndex(item => item.name === storeName);
+            return existing >= 0
+                ? prev.map((item, i) => (i === existing ? { name: storeName, matrix: value } : item))
+                : [...prev, { name: storeName, matrix: value }];
+        });
+        setStoreName(nextFreeName([...names, storeName]));
+    };
+
+    const insert = (name: string) => setExpression(prev => (prev && !/[\s([,;+\-*/^]$/.test(prev) ? `${prev} ${name}` : prev + name));
+
+    const value = evaluation?.value;
+
+    return (
+        <div className="mt-8 bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 transition-colors">
+            <button
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-2 text-lg font-semibold text-slate-700 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+            >
+                {open ? <ChevronDown size={20} /> : <ChevronRight size={20} />}
+                Matrix Calculator
+            </button>
+
+            {open && (
+                <div className="mt-6 space-y-6">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button onClick={() => insert('A')} className={chipClass} title="The problem's coefficient matrix">
+                            A <span className="opacity-60">{size(A)}</span>
+                        </button>
+                        <button onClick={() => insert('b')} className={chipClass} title="The problem's right-hand side">
+                            b <span className="opacity-60">{b.length}×1</span>
+                        </button>
+                        {workspace.map(item => (
+                            <span key={item.name} className="flex items-center">
+                                <button onClick={() => insert(item.name)} className={chipClass}>
+                                    {item.name} <span className="opacity-60">{size(item.matrix)}</span>
+                                </button>
+                                <button
+                                    onClick={() => setWorkspace(prev => prev.filter(other => other.name !== item.name))}
+                                    className="p-1 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                                    aria-label={`Delete ${item.name}`}
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            placeholder="inv(A)*b"
+                            value={expression}
+                            onChange={(e) => setExpression(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && evaluate()}
+                            className={inputClass}
+                            spellCheck={false}
+                        />
+                        <button
+                            onClick={evaluate}
+                            disabled={!expression.trim()}
+                            className="px-4 py-2 text-sm font-medium rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+                        >
+                            Evaluate
+                        </button>
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        Operators <span className="font-mono">+ − * / ^</span> and <span className="font-mono">'</span> (transpose);{' '}
+                        <span className="font-mono">[A b]</span> and <span className="font-mono">[1 2; 3 4]</span> build matrices.
+                        Functions:{' '}
+                        {Object.entries(FUNCTIONS).map(([name, fn], i) => (
+                            <React.Fragment key={name}>
+                                {i > 0 && ', '}
+                                <span className="font-mono">{name}</span> ({fn.description})
+                            </React.Fragment>
+                        ))}.
+                    </p>
+
+                    {evaluation?.error && <p className="text-sm text-red-600 dark:text-red-400">{evaluation.error}</p>}
+                    {evaluation && value && (
+                        <div className="space-y-4">
+                            {value.length === 1 && value[0].length === 1 ? (
+                                <p className="font-mono text-lg text-slate-700 dark:text-slate-300">
+                                    {evaluation.expression} = {formatScalar(value[0][0], digits)}
+                                </p>
+                            ) : (
+                                <MatrixBlock
+                                    title={`${evaluation.expression} (${size(value)})`}
+                                    matrix={value}
+                                    className="bg-slate-50 dark:bg-slate-900/50"
+                                    digits={digits}
+                                />
+                            )}
+                            <div className="flex items-start gap-2">
+                                <div className="w-40">
+                                    <input
+                                        type="text"
+                                        value={storeName}
+                                        onChange={(e) => setStoreName(e.target.value.trim())}
+                                        onKeyDown={(e) => e.key === 'Enter' && store()}
+                                        className={inputClass}
+                                        aria-label="Name for the result"
+                                    />
+                                </div>
+                                <button
+                                    onClick={store}
+                                    disabled={!storeName || !!nameError}
+                                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+                                >
+                                    <Save size={16} />
+                                    {workspace.some(item => item.name === storeName) ? 'Replace' : 'Store'}
+                                </button>
+                            </div>
+                            {nameError && <p className="text-xs text-red-600 dark:text-red-400">{nameError}</p>}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MatrixWorkspace;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Link2, Save, Trash2, RotateCcw } from 'lucide-react';
+import type { ProblemState, SavedProblem } from '../utils/persistence';
+
+interface ProblemLibraryProps {
+    library: SavedProblem[];
+    history: SavedProblem[];
+    onSave: (name: string) => void;
+    onRestore: (state: ProblemState) => void;
+    onDelete: (index: number) => void;
+    onClearHistory: () => void;
+    /** Display name of a method id. */
+    methodName: (id: string) => string;
+}
+
+const inputClass = "flex-1 min-w-0 px-3 py-2 text-sm rounded-lg ring-1 ring-slate-200 dark:ring-slate-600 bg-white dark:bg-slate-700/50 text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const itemClass = "w-full text-left px-3 py-2 rounded-lg text-xs hover:bg-indigo-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors";
+const headingClass = "text-xs font-bold text-slate-400 uppercase tracking-wider mt-8 mb-4 px-2";
+
+const describe = (state: ProblemState, methodName: (id: string) => string) =>
+    `${state.m}×${state.n} · ${methodName(state.method)}`;
+
+const formatTime = (time: number) =>
+    new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Sidebar section for sharing the current problem, a named library of saved systems and the recently solved ones.
+ * The URL hash always holds the current problem, so "Copy Link" just copies the address.
+ */
+const ProblemLibrary: React.FC<ProblemLibraryProps> = ({ library, history, onSave, onRestore, onDelete, onClearHistory, methodName }) => {
+    const [name, setName] = useState('');
+    const [copied, setCopied] = useState(false);
+
+    const handleSave = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        onSave(trimmed);
+        setName('');
+    };
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            // Clipboard access can be denied; the address bar still holds the link
+        }
+    };
+
+    return (
+        <>
+            <h2 className={headingClass}>Share</h2>
+            <button
+                onClick={copyLink}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium bg-slate-100 dark:bg-slate-700/50 text-slate-600 dark:text-slate-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors"
+            >
+                <Link2 size={16} />
+                {copied ? 'Link Copied' : 'Copy Link'}
+            </button>
+
+            <h2 className={headingClass}>Saved Systems</h2>
+            <div className="flex gap-2 px-2">
+                <input
+                    type="text"
+                    placeholder="Name this system"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                    className={inputClass}
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={!name.trim()}
+                    className="p-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+                    aria-label="Save System"
+                >
+                    <Save size={16} />
+                </button>
+            </div>
+            <div className="mt-2 space-y-1">
+                {library.length === 0 && <p className="px-3 text-xs text-slate-400">Nothing saved yet.</p>}
+                {library.map((item, index) => (
+                    <div key={`${item.name}-${item.savedAt}`} className="flex items-center gap-1">
+                        <button onClick={() => onRestore(item.state)} className={itemClass}>
+                            <span className="block font-semibold">{item.name}</span>
+                            <span className="text-slate-400">{describe(item.state, methodName)}</span>
+                        </button>
+                        <button
+                            onClick={() => onDelete(index)}
+                            className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                            aria-label={`Delete ${item.name}`}
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+                <h2 className={headingClass}>Recently Solved</h2>
+                {history.length > 0 && (
+                    <button onClick={onClearHistory} className="mt-4 px-2 text-xs text-slate-400 hover:text-red-600 transition-colors">
+                        Clear
+                    </button>
+                )}
+            </div>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+                {history.length === 0 && <p className="px-3 text-xs text-slate-400">Solved problems appear here.</p>}
+                {history.map(item => (
+                    <button key={item.savedAt} onClick={() => onRestore(item.state)} className={`${itemClass} flex items-center gap-2`}>
+                        <RotateCcw size={12} className="shrink-0" />
+                        <span className="flex-1">{describe(item.state, methodName)}</span>
+                        <span className="text-slate-400">{formatTime(item.savedAt)}</span>
+                    </button>
+                ))}
+            </div>
+        </>
+    );
+};
+
+export default ProblemLibrary;
@@ -1,15 +1,86 @@
-import React from 'react';
-import type { Matrix, Vector, SolutionStatus } from '../utils/solver';
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import type { Vector, SolutionStatus, TraceStep, GeneralSolution, Singularity } from '../utils/solver';
+import { formatScalar, toNumber } from '../utils/format';
+import type { Scalar } from '../utils/format';
+import { Complex } from '../utils/complex';
+import type { ComplexForm } from '../utils/complex';
+import type { IterativeResult } from '../utils/iterative';
+import type { EigenResult } from '../utils/eigen';
+import StepTrace from './StepTrace';
+import ConvergenceView from './ConvergenceView';
+import EigenView from './EigenView';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import ComparisonTable from './ComparisonTable';
+import LUFactorsView from './LUFactorsView';
+import FactorsView from './FactorsView';
+import BandedView from './BandedView';
+import SingularityView from './SingularityView';
+import type { FactorizationResult } from '../utils/factorizations';
+import type { BandedResult } from '../utils/banded';
+import type { LUDisplay } from '../utils/solve';
+import type { ComparisonResult } from '../utils/compare';
+import type { Diagnostics } from '../utils/diagnostics';
+import type { SolveTiming } from '../utils/solve';
+import { MAX_GRID_SIZE } from '../utils/dense';
+import { solutionError } from '../utils/generators';
+import LargeMatrixView from './LargeMatrixView';
 
 interface ResultDisplayProps {
-    x: Vector | null;
-    lu: { L: Matrix; U: Matrix } | null;
-    inverse: Matrix | null;
+    x: Scalar[] | null;
+    lu: LUDisplay | null;
+    /** Factors of Cholesky, LDLᵀ or QR. */
+    factorization?: FactorizationResult | null;
+    /** Thomas or Banded LU, with its operation count. */
+    banded?: BandedResult | null;
+    inverse: Scalar[][] | null;
+    /** Set when LU or the inverse stopped at a singular matrix. */
+    singular?: Singularity<Scalar> | null;
     error: string | null;
     status?: SolutionStatus | null;
+    trace?: TraceStep<Scalar>[] | null;
+    general?: GeneralSolution<Scalar> | null;
+    residual?: number | null;
+    iterative?: IterativeResult | null;
+    /** Eigenvalues and eigenvectors from power iteration, inverse power iteration or the QR algorithm. */
+    eigen?: EigenResult | null;
+    diagnostics?: Diagnostics | null;
+    comparison?: ComparisonResult | null;
+    /** One entry per right-hand-side column when several were solved with the same factorization. */
+    multiple?: { status: SolutionStatus; solution: Scalar[] | null }[] | null;
+    /** Variable names from the equation editor; defaults to x1, x2, ... */
+    variables?: string[] | null;
+    /** Run time of a large system solved on the flat storage. */
+    timing?: SolveTiming | null;
+    /** x* of a generated system, to report the error of the computed x. */
+    knownSolution?: Vector | null;
+    /** Decimal places of non-integer results. */
+    digits?: number;
 }
 
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ x, lu, inverse, error, status }) => {
+const FORM_LABELS: Record<ComplexForm, string> = {
+    rectangular: 'a + bi',
+    polar: 'r∠θ°',
+};
+
+const ColumnVector: React.FC<{ values: Scalar[]; show: (val: Scalar) => string }> = ({ values, show }) => (
+    <div className="inline-block border-l-2 border-r-2 border-slate-800 dark:border-slate-400 px-2 rounded-lg">
+        {values.map((val, i) => (
+            <div key={i} className="min-w-12 text-center font-mono text-sm py-1 text-slate-700 dark:text-slate-300">
+                {show(val)}
+            </div>
+        ))}
+    </div>
+);
+
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ x, lu, factorization, banded, inverse, singular, error, status, trace, general, residual, iterative, eigen, diagnostics, comparison, multiple, variables, timing, knownSolution, digits = 4 }) => {
+    const [form, setForm] = useState<ComplexForm>('rectangular');
+    const variableName = (i: number) => variables?.[i] ?? `x${i + 1}`;
+    const showSolution = x && (status === 'unique' || iterative?.status === 'converged');
+    const complex = [...(x ?? []), ...(general?.particular ?? []), ...(inverse?.flat() ?? [])].some(val => val instanceof Complex);
+    const show = (val: Scalar) => (val instanceof Complex ? val.format(digits, form) : formatScalar(val, digits));
+    const knownError = showSolution && !complex && knownSolution && knownSolution.length === x.length ? solutionError(x.map(toNumber), knownSolution) : null;
+
     if (error) {
         return (
             <div className="bg-red-50 text-red-600 p-4 rounded-lg border border-red-200 mt-6 text-center animate-pulse">
@@ -18,12 +89,40 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ x, lu, inverse, error, st
         );
     }
 
-    if (!x && !inverse && !status) return null;
+    if (!x && !inverse && !singular && !status && !iterative && !eigen && !comparison) return null;
 
     return (
         <div className="mt-8 bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 animate-in fade-in slide-in-from-bottom-4 duration-500 transition-colors">
             <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-6 text-center border-b dark:border-slate-700 pb-4">Results</h2>
 
+            {complex && (
+                <div className="flex justify-center mb-6">
+                    <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg text-sm font-medium">
+                        {(['rectangular', 'polar'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setForm(option)}
+                                className={clsx(
+                                    "px-4 py-1.5 rounded-md font-mono transition-all",
+                                    form === option
+                                        ? "bg-white dark:bg-slate-800 text-indigo-700 dark:text-indigo-300 shadow-sm"
+                                        : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                                )}
+                            >
+                                {FORM_LABELS[option]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {trace && trace.length > 1 && <StepTrace trace={trace} />}
+
+            {iterative && <ConvergenceView result={iterative} />}
+
+            {eigen && <EigenView result={eigen} digits={digits} />}
+
+            {comparison && <ComparisonTable comparison={comparison} variables={variables} />}
 
             {status === 'none' && (
                 <div className="p-4 mb-6 bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 rounded-lg text-center font-bold border border-red-200 dark:border-red-800">
@@ -35,70 +134,175 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ x, lu, inverse, error, st
                     Infinite Solutions
                 </div>
             )}
+            {status === 'infinite' && general && (
+                <div className="mb-8 overflow-x-auto">
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">General Solution</h3>
+                    <div className="flex items-center justify-center gap-3 flex-wrap text-slate-700 dark:text-slate-300">
+                        <span className="font-mono font-bold">x =</span>
+                        <ColumnVector values={general.particular} show={show} />
+                        {general.basis.map((v, k) => (
+                            <React.Fragment key={k}>
+                                <span className="font-mono">+ t<sub>{k + 1}</sub> ·</span>
+                                <ColumnVector values={v} show={show} />
+                            </React.Fragment>
+                        ))}
+                    </div>
+                    <div className="mt-4 text-sm text-center text-slate-500 dark:text-slate-400 space-y-1">
+                        <p>
+                            Pivot variables: {general.pivotColumns.map(variableName).join(', ') || '—'}
+                        </p>
+                        <p>
+                            Free variables: {general.freeColumns.map((j, k) => `${variableName(j)} = t${k + 1}`).join(', ')}
+                        </p>
+                    </div>
+                </div>
+            )}
 
-            {status === 'unique' && x && (
+            {showSolution && (
                 <div className="mb-8">
                     <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Solution Vector (x)</h3>
-                    <div className="flex flex-wrap gap-4 justify-center">
-                        {x.map((val, i) => (
-                            <div key={i} className="flex flex-col items-center bg-green-50 dark:bg-green-900/30 p-3 rounded-lg border border-green-200 dark:border-green-800 min-w-[80px]">
-                                <span className="text-xs text-green-600 dark:text-green-400 font-bold mb-1">x{i + 1}</span>
-                                <span className="text-lg font-mono text-slate-800 dark:text-slate-200">
-                                    {Number.isInteger(val) ? val : val.toFixed(4)}
-                                </span>
-                            </div>
-                        ))}
-                    </div>
+                    {x.length > MAX_GRID_SIZE ? (
+                        <div className="flex justify-center">
+                            <LargeMatrixView
+                                rows={x.length}
+                                cols={1}
+                                entry={(i) => x[i]}
+                                rowLabel={variableName}
+                                columnLabel={() => 'x'}
+                                className="bg-green-50 dark:bg-green-900/30"
+                                digits={digits}
+                            />
+                        </div>
+                    ) : (
+                        <div className="flex flex-wrap gap-4 justify-center">
+                            {x.map((val, i) => (
+                                <div key={i} className="flex flex-col items-center bg-green-50 dark:bg-green-900/30 p-3 rounded-lg border border-green-200 dark:border-green-800 min-w-[80px]">
+                                    <span className="text-xs text-green-600 dark:text-green-400 font-bold mb-1">{variableName(i)}</span>
+                                    <span className="text-lg font-mono text-slate-800 dark:text-slate-200">
+                                        {show(val)}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             )}
 
-            {inverse && (
-                <div className="mb-8 overflow-x-auto">
-                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Inverse Matrix (A⁻¹)</h3>
-                    <div className="inline-block border-l-2 border-r-2 border-slate-800 dark:border-slate-400 px-2 rounded-lg">
-                        {inverse.map((row, i) => (
-                            <div key={i} className="flex gap-4 mb-2 last:mb-0">
-                                {row.map((val, j) => (
-                                    <div key={j} className="w-16 text-center font-mono text-sm py-1 text-slate-700 dark:text-slate-300">
-                                        {Number.isInteger(val) ? val : val.toFixed(3)}
-                                    </div>
-                                ))}
-                            </div>
-                        ))}
-                    </div>
+            {knownError && (
+                <div className="mb-8 text-center text-sm text-slate-600 dark:text-slate-400">
+                    Error against the known solution{' '}
+                    <span className="font-mono">‖x − x*‖∞ = {knownError.absolute.toExponential(4)}</span>
+                    {knownError.relative !== null && (
+                        <>
+                            , relative <span className="font-mono">‖x − x*‖∞ / ‖x*‖∞ = {knownError.relative.toExponential(4)}</span>
+                        </>
+                    )}
                 </div>
             )}
 
-            {lu && (
-                <div className="grid md:grid-cols-2 gap-8">
-                    <div className="overflow-x-auto">
-                        <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Lower Triangular (L)</h3>
-                        <div className="inline-block border-l-2 border-r-2 border-slate-800 dark:border-slate-400 px-2 rounded-lg bg-blue-50/50 dark:bg-blue-900/20">
-                            {lu.L.map((row, i) => (
-                                <div key={i} className="flex gap-4 mb-2 last:mb-0">
-                                    {row.map((val, j) => (
-                                        <div key={j} className="w-12 text-center font-mono text-sm py-1 text-slate-700 dark:text-slate-300">
-                                            {Number.isInteger(val) ? val : val.toFixed(2)}
-                                        </div>
+            {timing && (
+                <div className="mb-8 p-4 rounded-lg bg-indigo-50/50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800 text-sm text-center text-indigo-800 dark:text-indigo-300">
+                    <p>
+                        LU with partial pivoting on a {timing.n} × {timing.n} system took{' '}
+                        <span className="font-mono font-semibold">{(timing.milliseconds / 1000).toFixed(3)} s</span>
+                        {' '}for about <span className="font-mono">{timing.flops.toExponential(2)}</span> flops
+                        {timing.milliseconds > 0 && <> ({(timing.flops / timing.milliseconds / 1000).toFixed(0)} Mflop/s)</>}.
+                    </p>
+                    <p className="mt-1 text-xs text-indigo-600 dark:text-indigo-400">
+                        The factorization costs ⅔n³ flops, so doubling n makes it about 8 times slower.
+                    </p>
+                </div>
+            )}
+
+            {multiple && multiple.length > 1 && (
+                <div className="mb-8 overflow-x-auto">
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Solutions per Right-Hand Side</h3>
+                    <table className="mx-auto text-sm font-mono text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-lg">
+                        <thead className="bg-slate-100 dark:bg-slate-700 text-xs text-slate-500 dark:text-slate-400">
+                            <tr>
+                                <th className="px-3 py-2 text-left"></th>
+                                {multiple.map((_, k) => (
+                                    <th key={k} className="px-3 py-2 text-right">b{k + 1}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {Array.from({ length: multiple.find(r => r.solution)?.solution?.length ?? 0 }, (_, i) => (
+                                <tr key={i} className="border-t border-slate-100 dark:border-slate-700">
+                                    <td className="px-3 py-1 font-semibold">{variableName(i)}</td>
+                                    {multiple.map((r, k) => (
+                                        <td key={k} className="px-3 py-1 text-right">
+                                            {r.status === 'unique' && r.solution ? formatScalar(r.solution[i], digits) : '—'}
+                                        </td>
                                     ))}
-                                </div>
+                                </tr>
                             ))}
-                        </div>
-                    </div>
-                    <div className="overflow-x-auto">
-                        <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Upper Triangular (U)</h3>
-                        <div className="inline-block border-l-2 border-r-2 border-slate-800 dark:border-slate-400 px-2 rounded-lg bg-orange-50/50 dark:bg-orange-900/20">
-                            {lu.U.map((row, i) => (
+                            <tr className="border-t border-slate-200 dark:border-slate-600 text-xs text-slate-500 dark:text-slate-400">
+                                <td className="px-3 py-1">status</td>
+                                {multiple.map((r, k) => (
+                                    <td key={k} className="px-3 py-1 text-right">{r.status}</td>
+                                ))}
+                            </tr>
+                        </tbody>
+                    </table>
+                    {multiple.every(r => r.status === 'unique') && (
+                        <p className="mt-2 text-xs text-center text-slate-500 dark:text-slate-400">
+                            A was factorized once; each column only needed a forward and a back substitution.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {residual !== null && residual !== undefined && (
+                <div className="mb-8 text-center text-sm text-slate-600 dark:text-slate-400">
+                    Residual norm <span className="font-mono">‖Ax − b‖₂ = {residual.toExponential(4)}</span>
+                </div>
+            )}
+
+            {inverse && (
+                <div className="mb-8 overflow-x-auto">
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Inverse Matrix (A⁻¹)</h3>
+                    {inverse.length > MAX_GRID_SIZE ? (
+                        <LargeMatrixView rows={inverse.length} cols={inverse.length} entry={(i, j) => inverse[i][j]} digits={digits} />
+                    ) : (
+                        <div className="inline-block border-l-2 border-r-2 border-slate-800 dark:border-slate-400 px-2 rounded-lg">
+                            {inverse.map((row, i) => (
                                 <div key={i} className="flex gap-4 mb-2 last:mb-0">
                                     {row.map((val, j) => (
-                                        <div key={j} className="w-12 text-center font-mono text-sm py-1 text-slate-700 dark:text-slate-300">
-                                            {Number.isInteger(val) ? val : val.toFixed(2)}
+                                        <div key={j} className="min-w-16 text-center font-mono text-sm py-1 text-slate-700 dark:text-slate-300">
+                                            {show(val)}
                                         </div>
                                     ))}
                                 </div>
                             ))}
                         </div>
-                    </div>
+                    )}
+                </div>
+            )}
+
+            {singular && <SingularityView singular={singular} lu={lu} digits={digits} />}
+
+            {lu && !singular && (
+                <div className="mb-8">
+                    <LUFactorsView lu={lu} digits={digits} />
+                </div>
+            )}
+
+            {factorization && (
+                <div className="mb-8">
+                    <FactorsView result={factorization} digits={digits} />
+                </div>
+            )}
+
+            {banded && (
+                <div className="mb-8">
+                    <BandedView result={banded} />
+                </div>
+            )}
+
+            {diagnostics && (
+                <div className="mt-8">
+                    <DiagnosticsPanel diagnostics={diagnostics} />
                 </div>
             )}
         </div>
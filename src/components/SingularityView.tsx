@@ -0,0 +1,102 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { Singularity } from '../utils/solver';
+import { Fraction } from '../utils/fraction';
+import { Complex } from '../utils/complex';
+import { formatScalar, toNumber } from '../utils/format';
+import type { Scalar } from '../utils/format';
+import type { LUDisplay } from '../utils/solve';
+import MatrixBlock from './MatrixBlock';
+
+interface SingularityViewProps {
+    singular: Singularity<Scalar>;
+    /** The factors LU got before it failed, if LU was the method. */
+    lu?: LUDisplay | null;
+    digits?: number;
+}
+
+/**
+ * Writes Σ c_i · label_i = 0 with the zero terms left out, e.g. "2·R1 − R2 = 0".
+ * Complex coefficients are written in parentheses, e.g. "(1 + 2i)·C1".
+ */
+const formatDependency = (coefficients: Scalar[], label: string, digits: number) => {
+    const terms = coefficients.flatMap((c, i) => {
+        if (c instanceof Complex && c.im !== 0) {
+            if (c.abs() < 1e-12) return [];
+            return [{ negative: false, text: `(${formatScalar(c, digits)})·${label}${i + 1}` }];
+        }
+        const value = toNumber(c);
+        if (Math.abs(value) < 1e-12) return [];
+        const magnitude = formatScalar(c instanceof Fraction ? c.abs() : Math.abs(value), digits);
+        return [{ negative: value < 0, text: `${magnitude === '1' ? '' : `${magnitude}·`}${label}${i + 1}` }];
+    });
+    const sum = terms
+        .map((term, k) => (k === 0 ? (term.negative ? '−' : '') : term.negative ? ' − ' : ' + ') + term.text)
+        .join('');
+    return `${sum} = 0`;
+};
+
+/**
+ * Explains why A is singular: where elimination ran out of pivots, rank and determinant,
+ * and which columns and rows depend on each other.
+ */
+const SingularityView: React.FC<SingularityViewProps> = ({ singular, lu, digits = 4 }) => {
+    const n = singular.columnDependency.length;
+
+    return (
+        <div className="mb-8">
+            <div className="p-4 mb-6 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 rounded-lg border border-yellow-200 dark:border-yellow-800">
+                <p className="flex items-center justify-center gap-2 font-bold">
+                    <AlertTriangle size={18} className="shrink-0" />
+                    Singular Matrix
+                </p>
+                <p className="mt-2 text-sm text-center">
+                    Elimination found no nonzero pivot in column {singular.column + 1}, so A has no inverse
+                    {lu ? ' and no complete LU factorization' : ''}.
+                </p>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4 mb-6 text-sm">
+                <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-center">
+                    <span className="block text-xs text-slate-500 dark:text-slate-400 mb-1">rank(A)</span>
+                    <span className="font-mono text-slate-800 dark:text-slate-200">{singular.rank} &lt; {n}</span>
+                </div>
+                <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-center">
+                    <span className="block text-xs text-slate-500 dark:text-slate-400 mb-1">det(A)</span>
+                    <span className="font-mono text-slate-800 dark:text-slate-200">{singular.determinant}</span>
+                </div>
+            </div>
+
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Why</h3>
+            <ul className="space-y-2 text-sm text-slate-600 dark:text-slate-400">
+                <li>
+                    Dependent columns (C<sub>j</sub> is column j of A):{' '}
+                    <span className="font-mono text-slate-800 dark:text-slate-200">{formatDependency(singular.columnDependency, 'C', digits)}</span>
+                </li>
+                <li>
+                    Dependent rows (R<sub>i</sub> is row i of A):{' '}
+                    <span className="font-mono text-slate-800 dark:text-slate-200">{formatDependency(singular.rowDependency, 'R', digits)}</span>
+                </li>
+                <li>
+                    A nonzero vector with A·c = 0 exists, so A·x = b has either no solution or infinitely many, never exactly one.
+                </li>
+            </ul>
+
+            {lu && (
+                <div className="mt-8">
+                    <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-1">Partial Factors</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                        L and U as they stood when elimination stopped; only the steps before the failing column are final.
+                    </p>
+                    <div className="grid md:grid-cols-3 gap-8">
+                        <MatrixBlock title="Lower Triangular (L)" matrix={lu.L} className="bg-blue-50/50 dark:bg-blue-900/20" digits={digits} />
+                        <MatrixBlock title="Upper Triangular (U)" matrix={lu.U} className="bg-orange-50/50 dark:bg-orange-900/20" digits={digits} />
+                        <MatrixBlock title="Permutation (P)" matrix={lu.P} className="bg-purple-50/50 dark:bg-purple-900/20" digits={digits} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SingularityView;
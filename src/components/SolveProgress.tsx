@@ -0,0 +1,35 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+
+interface SolveProgressProps {
+    /** Share of the work done, or null when the method does not report progress. */
+    progress: number | null;
+    onCancel: () => void;
+}
+
+const SolveProgress: React.FC<SolveProgressProps> = ({ progress, onCancel }) => (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 transition-colors duration-300">
+        <div className="flex items-center gap-3 mb-3">
+            <Loader2 size={18} className="animate-spin text-indigo-600 dark:text-indigo-400 shrink-0" />
+            <span className="flex-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+                Solving{progress !== null ? ` · ${Math.round(progress * 100)}%` : '…'}
+            </span>
+            <button
+                onClick={onCancel}
+                className="flex items-center gap-1 px-3 py-1 text-xs font-semibold bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors"
+            >
+                <X size={14} />
+                Cancel
+            </button>
+        </div>
+        <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+            {progress !== null ? (
+                <div className="h-full bg-indigo-600 dark:bg-indigo-400 transition-all" style={{ width: `${progress * 100}%` }} />
+            ) : (
+                <div className="h-full w-full bg-indigo-300 dark:bg-indigo-700 animate-pulse" />
+            )}
+        </div>
+    </div>
+);
+
+export default SolveProgress;
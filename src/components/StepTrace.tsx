@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import clsx from 'clsx';
+import type { TraceStep } from '../utils/solver';
+import { formatScalar } from '../utils/format';
+import type { Scalar } from '../utils/format';
+
+interface StepTraceProps {
+    trace: TraceStep<Scalar>[];
+}
+
+const formatValue = (val: Scalar) => formatScalar(val, 3);
+
+const describeStep = (step: TraceStep<Scalar>) => {
+    const target = `R${step.row + 1}`;
+    const source = step.sourceRow !== undefined ? `R${step.sourceRow + 1}` : '';
+    const factor = step.factor !== undefined ? formatValue(step.factor) : '';
+    switch (step.operation) {
+        case 'start':
+            return 'Initial matrix';
+        case 'swap':
+            return `${target} ↔ ${source}`;
+        case 'column-swap': {
+            const [col, other] = step.columns ?? [0, 0];
+            return `C${col + 1} ↔ C${other + 1}`;
+        }
+        case 'scale':
+            return `${target} = ${target} / ${factor}`;
+        case 'eliminate':
+            return `${target} = ${target} - (${factor}) × ${source}`;
+    }
+};
+
+const StepTrace: React.FC<StepTraceProps> = ({ trace }) => {
+    // Restart from the first step whenever a new trace is passed in
+    const [state, setState] = useState({ trace, index: 0 });
+    if (state.trace !== trace) {
+        setState({ trace, index: 0 });
+    }
+    const index = state.trace === trace ? state.index : 0;
+    const setIndex = (next: number) => setState({ trace, index: Math.max(0, Math.min(trace.length - 1, next)) });
+
+    const step = trace[index];
+    if (!step) return null;
+
+    return (
+        <div className="mb-8">
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-3">Step-by-step Elimination</h3>
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <button
+                    onClick={() => setIndex(index - 1)}
+                    disabled={index === 0}
+                    className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-40 transition-colors"
+                    aria-label="Previous Step"
+                >
+                    <ChevronLeft size={18} />
+                </button>
+                <div className="text-center">
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                        Step {index} of {trace.length - 1}
+                    </p>
+                    <p className="font-mono text-indigo-700 dark:text-indigo-300">{describeStep(step)}</p>
+                </div>
+                <button
+                    onClick={() => setIndex(index + 1)}
+                    disabled={index === trace.length - 1}
+                    className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-40 transition-colors"
+                    aria-label="Next Step"
+                >
+                    <ChevronRight size={18} />
+                </button>
+            </div>
+            <div className="overflow-x-auto flex justify-center">
+                <div className="inline-block border-l-2 border-r-2 border-slate-800 dark:border-slate-400 px-2 rounded-lg">
+                    {step.matrix.map((row, i) => (
+                        <div
+                            key={i}
+                            className={clsx(
+                                "flex gap-2 mb-1 last:mb-0 rounded",
+                                step.changedRows.includes(i) && "bg-amber-100 dark:bg-amber-900/30"
+                            )}
+                        >
+                            {row.map((val, j) => (
+                                <div
+                                    key={j}
+                                    className={clsx(
+                                        "w-16 text-center font-mono text-sm py-1 text-slate-700 dark:text-slate-300",
+                                        j === step.augmentedColumn && "border-l border-slate-400 dark:border-slate-500",
+                                        step.pivot?.row === i && step.pivot?.col === j && "ring-2 ring-indigo-500 rounded font-bold"
+                                    )}
+                                >
+                                    {formatValue(val)}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StepTrace;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { bandStorage, denseEliminationFlops, detectBandwidth, solveBandedLU, solveThomas } from './banded';
+import { generateMatrix, generateSystem } from './generators';
+import { solveGaussElimination } from './solver';
+import type { Matrix } from './solver';
+import { expectVectorClose } from './testUtils';
+
+// Random integers kept only inside the band, with a dominant diagonal so no pivot vanishes
+const bandedMatrix = (n: number, lower: number, upper: number, seed: number): Matrix =>
+    generateMatrix('diagonally-dominant', n, seed).map((row, i) => row.map((val, j) => (j < i - lower || j > i + upper ? 0 : val)));
+
+describe('bandwidth', () => {
+    it('detects the diagonals that hold nonzeros', () => {
+        expect(detectBandwidth(generateMatrix('tridiagonal', 5, 0))).toEqual({ lower: 1, upper: 1 });
+        expect(detectBandwidth(bandedMatrix(8, 2, 3, 1))).toEqual({ lower: 2, upper: 3 });
+        expect(detectBandwidth([[1, 0], [0, 1]])).toEqual({ lower: 0, upper: 0 });
+    });
+
+    it('counts band storage and dense flops', () => {
+        expect(bandStorage(5, { lower: 1, upper: 1 })).toBe(13);
+        expect(bandStorage(3, { lower: 2, upper: 2 })).toBe(9);
+        expect(denseEliminationFlops(1)).toBe(1);
+    });
+});
+
+describe('Thomas algorithm', () => {
+    it('matches Gauss elimination in 8n − 7 flops', () => {
+        const { A, b, solution } = generateSystem({ kind: 'tridiagonal', n: 12, seed: 0, solution: 'sequence' });
+        const result = solveThomas(A, b);
+        expect(result.status).toBe('unique');
+        expectVectorClose(result.solution, solution!);
+        expect(result.flops).toBe(8 * 12 - 7);
+        expect(result.denseFlops).toBe(denseEliminationFlops(12));
+    });
+
+    it('rejects a matrix that is not tridiagonal', () => {
+        expect(() => solveThomas(bandedMatrix(5, 2, 1, 3), [1, 1, 1, 1, 1])).toThrow(/tridiagonal/);
+    });
+
+    it('reports a zero pivot instead of pivoting', () => {
+        expect(() => solveThomas([[0, 1], [1, 1]], [1, 2])).toThrow(/Zero pivot in row 1/);
+    });
+});
+
+describe('banded LU', () => {
+    it.each([[1, 1], [2, 3], [0, 2], [4, 0]])('agrees with Gauss elimination for bandwidth %i, %i', (lower, upper) => {
+        const A = bandedMatrix(15, lower, upper, lower * 10 + upper);
+        const b = A.map((_, i) => i - 7);
+        const result = solveBandedLU(A, b);
+        expect(result.bandwidth).toEqual({ lower, upper });
+        expectVectorClose(result.solution, solveGaussElimination(A, b).solution!);
+        expect(result.flops!).toBeLessThan(result.denseFlops);
+    });
+
+    it('pivots where the Thomas algorithm cannot', () => {
+        expectVectorClose(solveBandedLU([[0, 1], [1, 1]], [1, 2]).solution, [1, 1]);
+    });
+
+    it('accepts a wider bandwidth but not one that cuts A off', () => {
+        const A = bandedMatrix(6, 1, 1, 2);
+        const b = [1, 2, 3, 4, 5, 6];
+        expectVectorClose(solveBandedLU(A, b, { lower: 2, upper: 2 }).solution, solveThomas(A, b).solution!);
+        expect(() => solveBandedLU(A, b, { lower: 0, upper: 1 })).toThrow(/outside the given bandwidth/);
+    });
+
+    it('classifies a singular banded system like Gauss elimination', () => {
+        expect(solveBandedLU([[1, 1, 0], [1, 1, 0], [0, 1, 1]], [2, 2, 2]).status).toBe('infinite');
+        expect(solveBandedLU([[1, 1, 0], [1, 1, 0], [0, 1, 1]], [2, 3, 2]).status).toBe('none');
+    });
+});
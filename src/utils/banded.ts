@@ -0,0 +1,153 @@
+import { assertSquare, solveGaussElimination } from './solver';
+import type { Matrix, Vector, SolverResult } from './solver';
+
+// Solvers that only touch the band of A: O(n) for tridiagonal systems, O(n · p · (p + q)) for bandwidth p, q.
+
+/** Number of nonzero diagonals below (lower) and above (upper) the main diagonal. */
+export interface Bandwidth {
+    lower: number;
+    upper: number;
+}
+
+export interface BandedResult extends SolverResult {
+    n: number;
+    bandwidth: Bandwidth;
+    /** What dense Gaussian elimination spends on a system of the same size, for comparison. */
+    denseFlops: number;
+}
+
+const EPSILON = 1e-10;
+
+const largestEntry = (matrix: Matrix) => Math.max(1, ...matrix.map(row => Math.max(...row.map(Math.abs))));
+
+/** Smallest p, q with A[i][j] = 0 whenever j < i − p or j > i + q. */
+export const detectBandwidth = (matrix: Matrix): Bandwidth => {
+    let lower = 0;
+    let upper = 0;
+    matrix.forEach((row, i) =>
+        row.forEach((val, j) => {
+            if (val === 0) return;
+            if (i - j > lower) lower = i - j;
+            if (j - i > upper) upper = j - i;
+        })
+    );
+    return { lower, upper };
+};
+
+/** Flops of dense Gaussian elimination with back substitution: n(4n² + 9n − 7) / 6 ≈ ⅔n³. */
+export const denseEliminationFlops = (n: number): number => (n * (4 * n * n + 9 * n - 7)) / 6;
+
+/** Numbers kept by band storage: one entry per position of each of the p + q + 1 diagonals. */
+export const bandStorage = (n: number, { lower, upper }: Bandwidth): number =>
+    Array.from({ length: lower + upper + 1 }, (_, k) => Math.max(0, n - Math.abs(k - lower))).reduce((sum, len) => sum + len, 0);
+
+/**
+ * The Thomas algorithm: Gaussian elimination specialised to a tridiagonal A, 8n − 7 flops.
+ * It never pivots, so it is safe for diagonally dominant or SPD matrices; a zero pivot is reported
+ * as an error rather than worked around.
+ */
+export const solveThomas = (matrix: Matrix, vector: Vector): BandedResult => {
+    assertSquare(matrix, 'The Thomas algorithm');
+    const n = matrix.length;
+    const bandwidth = detectBandwidth(matrix);
+    if (bandwidth.lower > 1 || bandwidth.upper > 1) {
+        throw new Error(
+            `The Thomas algorithm needs a tridiagonal matrix, but A has ${bandwidth.lower} diagonal(s) below and ${bandwidth.upper} above the main one. Use Banded LU instead.`
+        );
+    }
+
+    const tolerance = EPSILON * largestEntry(matrix);
+    const zeroPivot = (i: number) =>
+        new Error(`Zero pivot in row ${i + 1}: the Thomas algorithm does not pivot. Banded LU with partial pivoting can solve this system.`);
+
+    // c'_i = c_i / m_i and d'_i = (d_i − a_i d'_{i−1}) / m_i with m_i = b_i − a_i c'_{i−1}
+    const cPrime: Vector = new Array(n).fill(0);
+    const dPrime: Vector = new Array(n).fill(0);
+    let flops = 0;
+    for (let i = 0; i < n; i++) {
+        const a = i > 0 ? matrix[i][i - 1] : 0;
+        const pivot = i > 0 ? matrix[i][i] - a * cPrime[i - 1] : matrix[i][i];
+        if (Math.abs(pivot) < tolerance) throw zeroPivot(i);
+        if (i < n - 1) {
+            cPrime[i] = matrix[i][i + 1] / pivot;
+            flops += 1;
+        }
+        dPrime[i] = i > 0 ? (vector[i] - a * dPrime[i - 1]) / pivot : vector[i] / pivot;
+        flops += i > 0 ? 5 : 1;
+    }
+
+    const x: Vector = new Array(n).fill(0);
+    x[n - 1] = dPrime[n - 1];
+    for (let i = n - 2; i >= 0; i--) {
+        x[i] = dPrime[i] - cPrime[i] * x[i + 1];
+        flops += 2;
+    }
+
+    return { status: 'unique', solution: x, flops, n, bandwidth, denseFlops: denseEliminationFlops(n) };
+};
+
+/**
+ * Gaussian elimination with partial pivoting restricted to the band. The pivot is searched among the
+ * p rows below the diagonal only, and a row swap can push U up to p + q diagonals above it, so every
+ * loop stops there. Without a bandwidth the band is detected from A; a given bandwidth must cover A.
+ * A singular A falls back to Gaussian Elimination for the status, like QR.
+ */
+export const solveBandedLU = (matrix: Matrix, vector: Vector, bandwidth?: Bandwidth | null): BandedResult => {
+    assertSquare(matrix, 'Banded LU');
+    const n = matrix.length;
+    const detected = detectBandwidth(matrix);
+    const band = bandwidth ?? detected;
+    if (detected.lower > band.lower || detected.upper > band.upper) {
+        throw new Error(
+            `A has entries outside the given bandwidth: it needs ${detected.lower} diagonal(s) below and ${detected.upper} above the main one.`
+        );
+    }
+    const { lower: p, upper: q } = band;
+    const reach = p + q;
+
+    const A = matrix.map(row => [...row]);
+    const b = [...vector];
+    const tolerance = EPSILON * largestEntry(matrix);
+    let flops = 0;
+
+    for (let k = 0; k < n; k++) {
+        const lastRow = Math.min(n - 1, k + p);
+        const lastCol = Math.min(n - 1, k + reach);
+
+        let pivotRow = k;
+        for (let i = k + 1; i <= lastRow; i++) {
+            if (Math.abs(A[i][k]) > Math.abs(A[pivotRow][k])) pivotRow = i;
+        }
+        if (Math.abs(A[pivotRow][k]) < tolerance) {
+            return { ...solveGaussElimination(matrix, vector), n, bandwidth: band, denseFlops: denseEliminationFlops(n) };
+        }
+        if (pivotRow !== k) {
+            [A[k], A[pivotRow]] = [A[pivotRow], A[k]];
+            [b[k], b[pivotRow]] = [b[pivotRow], b[k]];
+        }
+
+        for (let i = k + 1; i <= lastRow; i++) {
+            const factor = A[i][k] / A[k][k];
+            flops += 1;
+            if (factor === 0) continue;
+            for (let j = k + 1; j <= lastCol; j++) {
+                A[i][j] -= factor * A[k][j];
+            }
+            b[i] -= factor * b[k];
+            flops += 2 * (lastCol - k) + 2;
+        }
+    }
+
+    const x: Vector = new Array(n).fill(0);
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = b[i];
+        const lastCol = Math.min(n - 1, i + reach);
+        for (let j = i + 1; j <= lastCol; j++) {
+            sum -= A[i][j] * x[j];
+        }
+        x[i] = sum / A[i][i];
+        flops += 2 * (lastCol - i) + 1;
+    }
+
+    return { status: 'unique', solution: x, flops, n, bandwidth: band, denseFlops: denseEliminationFlops(n) };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, ExpressionError, isValidName, nextFreeName } from './calculator';
+import type { NamedMatrix } from './calculator';
+import { expectMatrixClose } from './testUtils';
+
+const variables: NamedMatrix[] = [
+    { name: 'A', matrix: [[2, 1], [1, 3]] },
+    { name: 'b', matrix: [[3], [5]] },
+    { name: 'B', matrix: [[1, 2, 3], [4, 5, 6]] },
+];
+
+const evaluate = (text: string) => evaluateExpression(text, variables);
+
+describe('evaluateExpression', () => {
+    it('multiplies, transposes and adds', () => {
+        expect(evaluate('A*B')).toEqual([[6, 9, 12], [13, 17, 21]]);
+        expect(evaluate("B'")).toEqual([[1, 4], [2, 5], [3, 6]]);
+        expect(evaluate("b'*b")).toEqual([[34]]);
+        expect(evaluate('A - 2*A + 1')).toEqual([[-1, 0], [0, -2]]);
+        expect(evaluate('B/2')).toEqual([[0.5, 1, 1.5], [2, 2.5, 3]]);
+    });
+
+    it('solves with inv and takes powers', () => {
+        expectMatrixClose(evaluate('inv(A)*b'), [[0.8], [1.4]]);
+        expect(evaluate('A^3')).toEqual([[15, 20], [20, 35]]);
+        expectMatrixClose(evaluate('A^-1*A'), [[1, 0], [0, 1]]);
+        expect(evaluate('A^0')).toEqual([[1, 0], [0, 1]]);
+        expect(evaluate('-2^2')).toEqual([[-4]]);
+    });
+
+    it('computes det, rank, trace and eye', () => {
+        expect(evaluate('det(A)')[0][0]).toBeCloseTo(5, 10);
+        expect(evaluate('rank(B)')).toEqual([[2]]);
+        expect(evaluate("rank(B'*B)")).toEqual([[2]]);
+        expect(evaluate('trace(A) + eye(2)')).toEqual([[6, 5], [5, 6]]);
+    });
+
+    it('builds matrices from blocks', () => {
+        expect(evaluate('[1 2; 3 4]')).toEqual([[1, 2], [3, 4]]);
+        expect(evaluate('[A b]')).toEqual([[2, 1, 3], [1, 3, 5]]);
+        expect(evaluate("[A, b; b' 1]")).toEqual([[2, 1, 3], [1, 3, 5], [3, 5, 1]]);
+        // A space before a sign that is attached to the next term starts a new entry
+        expect(evaluate('[1 -2]')).toEqual([[1, -2]]);
+        expect(evaluate('[1 - 2]')).toEqual([[-1]]);
+        expect(evaluate('[(1 -2)]')).toEqual([[-1]]);
+    });
+
+    it('reduces to row echelon form', () => {
+        expectMatrixClose(evaluate('rref([A b])'), [[1, 0, 0.8], [0, 1, 1.4]]);
+        expectMatrixClose(evaluate('rref([1 2 3; 2 4 6; 1 1 1])'), [[1, 0, -1], [0, 1, 2], [0, 0, 0]]);
+    });
+
+    it('reports errors with the column of the offending token', () => {
+        const errorFor = (text: string) => {
+            try {
+                evaluate(text);
+            } catch (err) {
+                expect(err).toBeInstanceOf(ExpressionError);
+                return err as ExpressionError;
+            }
+            throw new Error(`"${text}" did not fail`);
+        };
+        expect(errorFor('B*B').message).toMatch(/Inner dimensions do not agree: 2×3 times 2×3/);
+        expect(errorFor('B*B').column).toBe(2);
+        expect(errorFor('A + C').message).toMatch(/Unknown matrix "C"/);
+        expect(errorFor('inv(B)').message).toMatch(/square matrix, not 2×3/);
+        expect(errorFor('inv([1 2; 2 4])').message).toMatch(/singular/);
+        expect(errorFor('[A B; b]').message).toMatch(/same number of columns/);
+        expect(errorFor('(A').message).toMatch(/Expected "\)"/);
+        expect(errorFor('A b').column).toBe(3);
+        expect(errorFor('det').message).toMatch(/call it as det/);
+        expect(errorFor('A^0.5').message).toMatch(/whole-number exponent/);
+        expect(errorFor('eye(100000)').message).toMatch(/eye is limited to n = 2000/);
+    });
+});
+
+describe('names', () => {
+    it('accepts identifiers that are not functions', () => {
+        expect(isValidName('C')).toBe(true);
+        expect(isValidName('x_2')).toBe(true);
+        expect(isValidName('2x')).toBe(false);
+        expect(isValidName('inv')).toBe(false);
+    });
+
+    it('suggests the next free letter', () => {
+        expect(nextFreeName(['A', 'b'])).toBe('C');
+        expect(nextFreeName(['A', 'b', 'C', 'D'])).toBe('E');
+    });
+});
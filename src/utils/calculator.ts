@@ -0,0 +1,369 @@
+import { findInverse } from './solver';
+import type { Matrix } from './solver';
+import { determinant, rank } from './diagnostics';
+import { identity, multiply, transpose } from './matrix';
+import { MAX_DENSE_SIZE } from './dense';
+
+/** A matrix kept in the calculator workspace under a name such as "C". */
+export interface NamedMatrix {
+    name: string;
+    matrix: Matrix;
+}
+
+/**
+ * An error in a calculator expression: bad syntax, an unknown name or mismatched dimensions.
+ * `column` is 1-based and points at the offending token.
+ */
+export class ExpressionError extends Error {
+    readonly column: number;
+
+    constructor(message: string, column: number) {
+        super(`Column ${column}: ${message}`);
+        this.name = 'ExpressionError';
+        this.column = column;
+    }
+}
+
+type Token =
+    | { type: 'number'; value: number; column: number; spaceBefore: boolean }
+    | { type: 'name'; name: string; column: number; spaceBefore: boolean }
+    | { type: 'op'; value: string; column: number; spaceBefore: boolean };
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const OPERATORS = "+-*/^'()[],;";
+
+const EPSILON = 1e-10;
+
+const size = (M: Matrix) => `${M.length}×${M[0]?.length ?? 0}`;
+
+const isScalar = (M: Matrix) => M.length === 1 && M[0].length === 1;
+
+const isSquare = (M: Matrix) => M.every(row => row.length === M.length);
+
+const scale = (M: Matrix, factor: number): Matrix => M.map(row => row.map(val => val * factor));
+
+/**
+ * Reduced row echelon form by Gauss-Jordan elimination with partial pivoting, in place on a copy of M.
+ * A column whose candidates are all below EPSILON has no pivot, and such entries are cleared at the end.
+ */
+const reducedRowEchelon = (M: Matrix): Matrix => {
+    const R = M.map(row => [...row]);
+    const m = R.length;
+    const n = R[0]?.length ?? 0;
+    let pivotRow = 0;
+    for (let col = 0; col < n && pivotRow < m; col++) {
+        let best = pivotRow;
+        for (let i = pivotRow + 1; i < m; i++) {
+            if (Math.abs(R[i][col]) > Math.abs(R[best][col])) best = i;
+        }
+        if (Math.abs(R[best][col]) < EPSILON) continue;
+        [R[pivotRow], R[best]] = [R[best], R[pivotRow]];
+
+        const pivot = R[pivotRow][col];
+        for (let j = col; j < n; j++) R[pivotRow][j] /= pivot;
+        for (let i = 0; i < m; i++) {
+            const factor = R[i][col];
+            if (i === pivotRow || factor === 0) continue;
+            for (let j = col; j < n; j++) R[i][j] -= factor * R[pivotRow][j];
+        }
+        pivotRow++;
+    }
+    return R.map(row => row.map(val => (Math.abs(val) < EPSILON ? 0 : val)));
+};
+
+const requireSquare = (M: Matrix, what: string, column: number) => {
+    if (!isSquare(M)) throw new ExpressionError(`${what} needs a square matrix, not ${size(M)}.`, column);
+};
+
+/** Functions of one matrix argument, with the description shown in the workspace. */
+export const FUNCTIONS: Record<string, { description: string; apply: (M: Matrix, column: number) => Matrix }> = {
+    inv: {
+        description: 'inverse',
+        apply: (M, column) => {
+            requireSquare(M, 'inv', column);
+            const inverse = findInverse(M);
+            if (!inverse) throw new ExpressionError('inv: the matrix is singular.', column);
+            return inverse;
+        },
+    },
+    det: {
+        description: 'determinant',
+        apply: (M, column) => {
+            requireSquare(M, 'det', column);
+            return [[determinant(M)]];
+        },
+    },
+    rank: {
+        description: 'rank',
+        apply: M => [[rank(M)]],
+    },
+    rref: {
+        description: 'reduced row echelon form',
+        apply: reducedRowEchelon,
+    },
+    trace: {
+        description: 'sum of the diagonal',
+        apply: (M, column) => {
+            requireSquare(M, 'trace', column);
+            return [[M.reduce((sum, row, i) => sum + row[i], 0)]];
+        },
+    },
+    eye: {
+        description: 'n×n identity',
+        apply: (M, column) => {
+            const n = M[0][0];
+            if (!isScalar(M) || !Number.isInteger(n) || n < 1) {
+                throw new ExpressionError('eye needs a positive whole number.', column);
+            }
+            // The calculator runs on the page, so no larger matrix than the input grid accepts
+            if (n > MAX_DENSE_SIZE) {
+                throw new ExpressionError(`eye is limited to n = ${MAX_DENSE_SIZE}.`, column);
+            }
+            return identity(n);
+        },
+    },
+};
+
+/** Names that always refer to the problem's matrix and right-hand side, so nothing can be stored under them. */
+export const PROBLEM_NAMES = ['A', 'b'];
+
+/** Whether `name` can be given to a stored matrix: an identifier that is not a function. */
+export const isValidName = (name: string) =>
+    NAME_PATTERN.exec(name)?.[0] === name && !Object.hasOwn(FUNCTIONS, name);
+
+/** The first capital letter from C on (then C1, C2, …) not already taken. */
+export const nextFreeName = (taken: string[]) => {
+    const letters = 'CDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+    for (const candidate of [...letters, ...letters.flatMap(letter => [1, 2, 3].map(k => `${letter}${k}`))]) {
+        if (!taken.includes(candidate)) return candidate;
+    }
+    return `M${taken.length + 1}`;
+};
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let pos = 0;
+    let spaceBefore = false;
+    while (pos < text.length) {
+        const rest = text.slice(pos);
+        const column = pos + 1;
+        if (/^\s/.test(rest)) {
+            spaceBefore = true;
+            pos++;
+            continue;
+        }
+        const number = NUMBER_PATTERN.exec(rest);
+        const name = NAME_PATTERN.exec(rest);
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]), column, spaceBefore });
+            pos += number[0].length;
+        } else if (name) {
+            tokens.push({ type: 'name', name: name[0], column, spaceBefore });
+            pos += name[0].length;
+        } else if (OPERATORS.includes(rest[0]) || rest[0] === '−') {
+            // Unicode minus pasted from documents
+            tokens.push({ type: 'op', value: rest[0] === '−' ? '-' : rest[0], column, spaceBefore });
+            pos++;
+        } else {
+            throw new ExpressionError(`Unexpected character "${rest[0]}".`, column);
+        }
+        spaceBefore = false;
+    }
+    return tokens;
+};
+
+const add = (X: Matrix, Y: Matrix, sign: number, column: number): Matrix => {
+    // A scalar is added to every entry, as in MATLAB
+    if (isScalar(Y)) return X.map(row => row.map(val => val + sign * Y[0][0]));
+    if (isScalar(X)) return Y.map(row => row.map(val => X[0][0] + sign * val));
+    if (X.length !== Y.length || X[0].length !== Y[0].length) {
+        throw new ExpressionError(`Cannot ${sign > 0 ? 'add' : 'subtract'} ${size(X)} and ${size(Y)} matrices.`, column);
+    }
+    return X.map((row, i) => row.map((val, j) => val + sign * Y[i][j]));
+};
+
+const product = (X: Matrix, Y: Matrix, column: number): Matrix => {
+    if (isScalar(X)) return scale(Y, X[0][0]);
+    if (isScalar(Y)) return scale(X, Y[0][0]);
+    if (X[0].length !== Y.length) {
+        throw new ExpressionError(`Inner dimensions do not agree: ${size(X)} times ${size(Y)}.`, column);
+    }
+    return multiply(X, Y);
+};
+
+const power = (X: Matrix, Y: Matrix, column: number): Matrix => {
+    if (!isScalar(Y)) throw new ExpressionError('The exponent must be a number.', column);
+    const k = Y[0][0];
+    if (isScalar(X)) return [[X[0][0] ** k]];
+    requireSquare(X, 'A power', column);
+    if (!Number.isInteger(k)) throw new ExpressionError('A matrix power needs a whole-number exponent.', column);
+
+    // Repeated squaring; a negative power is a power of the inverse
+    let base = k < 0 ? FUNCTIONS.inv.apply(X, column) : X;
+    let result = identity(X.length);
+    for (let e = Math.abs(k); e > 0; e = Math.floor(e / 2)) {
+        if (e % 2 === 1) result = multiply(result, base);
+        if (e > 1) base = multiply(base, base);
+    }
+    return result;
+};
+
+const concatenate = (rows: Matrix[][], column: number): Matrix => {
+    const blockRows = rows.map(blocks => {
+        const height = blocks[0].length;
+        if (blocks.some(block => block.length !== height)) {
+            throw new ExpressionError(`Blocks side by side need the same number of rows: ${blocks.map(size).join(', ')}.`, column);
+        }
+        return Array.from({ length: height }, (_, i) => blocks.flatMap(block => block[i]));
+    });
+    const width = blockRows[0][0].length;
+    if (blockRows.some(block => block[0].length !== width)) {
+        throw new ExpressionError(`Stacked rows need the same number of columns: ${blockRows.map(size).join(', ')}.`, column);
+    }
+    return blockRows.flat();
+};
+
+/**
+ * Evaluates a MATLAB-style matrix expression such as "inv(A)*b", "A'", "A^3" or "rref([A b])".
+ * Operators are + − * / ^ and the postfix transpose '; "[A b]" and "[1 2; 3 4]" build matrices from blocks,
+ * with entries separated by spaces or commas and rows by ";". Numbers are 1×1 matrices.
+ */
+export const evaluateExpression = (text: string, variables: NamedMatrix[]): Matrix => {
+    const tokens = tokenize(text);
+    const scope = new Map(variables.map(v => [v.name, v.matrix]));
+    const endColumn = text.length + 1;
+    // Innermost open "(" or "[": inside brackets a space separates entries, so "[A -b]" has two blocks
+    const groups: string[] = [];
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const isOp = (token: Token | undefined, value: string) => token?.type === 'op' && token.value === value;
+    const expect = (value: string) => {
+        const token = peek();
+        if (!isOp(token, value)) {
+            throw new ExpressionError(`Expected "${value}".`, token?.column ?? endColumn);
+        }
+        index++;
+    };
+    const inBrackets = () => groups[groups.length - 1] === '[';
+
+    const parseSum = (): Matrix => {
+        let value = parseProduct();
+        for (let token = peek(); isOp(token, '+') || isOp(token, '-'); token = peek()) {
+            // "[A -b]" is two entries, while "[A - b]" and "[A-b]" are one
+            if (inBrackets() && token.spaceBefore && tokens[index + 1] && !tokens[index + 1].spaceBefore) break;
+            index++;
+            value = add(value, parseProduct(), isOp(token, '+') ? 1 : -1, token.column);
+        }
+        return value;
+    };
+
+    const parseProduct = (): Matrix => {
+        let value = parseUnary();
+        for (let token = peek(); isOp(token, '*') || isOp(token, '/'); token = peek()) {
+            index++;
+            const right = parseUnary();
+            if (isOp(token, '*')) {
+                value = product(value, right, token.column);
+            } else {
+                if (!isScalar(right)) {
+                    throw new ExpressionError('Only division by a number is supported; multiply by inv(…) instead.', token.column);
+                }
+                value = scale(value, 1 / right[0][0]);
+            }
+        }
+        return value;
+    };
+
+    const parseUnary = (): Matrix => {
+        const token = peek();
+        if (isOp(token, '-') || isOp(token, '+')) {
+            index++;
+            const value = parseUnary();
+            return isOp(token, '-') ? scale(value, -1) : value;
+        }
+        return parsePower();
+    };
+
+    // "^" binds tighter than a leading minus and is right-associative: -A^2 = -(A²), A^-1 = inv(A)
+    const parsePower = (): Matrix => {
+        const base = parsePostfix();
+        const token = peek();
+        if (!isOp(token, '^')) return base;
+        index++;
+        return power(base, parseUnary(), token.column);
+    };
+
+    const parsePostfix = (): Matrix => {
+        let value = parsePrimary();
+        while (isOp(peek(), "'")) {
+            index++;
+            value = transpose(value);
+        }
+        return value;
+    };
+
+    const parsePrimary = (): Matrix => {
+        const token = peek();
+        if (!token) throw new ExpressionError('Unexpected end of the expression.', endColumn);
+        index++;
+        if (token.type === 'number') return [[token.value]];
+        if (token.type === 'name') {
+            if (isOp(peek(), '(')) {
+                const fn = Object.hasOwn(FUNCTIONS, token.name) ? FUNCTIONS[token.name] : undefined;
+                if (!fn) throw new ExpressionError(`Unknown function "${token.name}".`, token.column);
+                index++;
+                groups.push('(');
+                const argument = parseSum();
+                groups.pop();
+                expect(')');
+                return fn.apply(argument, token.column);
+            }
+            const value = scope.get(token.name);
+            if (!value) {
+                const hint = Object.hasOwn(FUNCTIONS, token.name) ? `; call it as ${token.name}(…)` : '';
+                throw new ExpressionError(`Unknown matrix "${token.name}"${hint}.`, token.column);
+            }
+            return value;
+        }
+        if (token.value === '(') {
+            groups.push('(');
+            const value = parseSum();
+            groups.pop();
+            expect(')');
+            return value;
+        }
+        if (token.value === '[') return parseBrackets(token.column);
+        throw new ExpressionError(`Unexpected "${token.value}".`, token.column);
+    };
+
+    const parseBrackets = (column: number): Matrix => {
+        groups.push('[');
+        const rows: Matrix[][] = [[]];
+        while (!isOp(peek(), ']')) {
+            if (!peek()) throw new ExpressionError('Missing "]".', endColumn);
+            if (isOp(peek(), ';')) {
+                index++;
+                rows.push([]);
+            } else if (isOp(peek(), ',')) {
+                index++;
+            } else {
+                rows[rows.length - 1].push(parseSum());
+            }
+        }
+        index++;
+        groups.pop();
+        const filled = rows.filter(blocks => blocks.length > 0);
+        if (filled.length === 0) throw new ExpressionError('Empty brackets.', column);
+        return concatenate(filled, column);
+    };
+
+    if (tokens.length === 0) throw new ExpressionError('Enter an expression.', 1);
+    const result = parseSum();
+    if (index < tokens.length) {
+        const token = tokens[index];
+        throw new ExpressionError(`Unexpected "${token.type === 'name' ? token.name : token.value}".`, token.column);
+    }
+    return result;
+};
@@ -0,0 +1,113 @@
+import { invertMatrix, solveGaussElimination, solveGaussJordan, solveLUFactorization } from './solver';
+import type { Matrix, Vector, SolutionStatus, SolverOptions, SolverResult } from './solver';
+import { multiplyVector, residualNorm } from './matrix';
+
+export interface MethodComparison {
+    id: string;
+    name: string;
+    status: SolutionStatus | null;
+    solution: Vector | null;
+    residualNorm: number | null;
+    /** ‖x − x_ref‖∞ against the first method that found a unique solution. */
+    deviation: number | null;
+    flops: number | null;
+    /** Average wall-clock time per solve in milliseconds. */
+    timeMs: number;
+    error?: string;
+}
+
+export interface ComparisonResult {
+    rows: MethodComparison[];
+    /** Largest ‖x_i − x_j‖∞ over every pair of methods with a unique solution. */
+    maxDifference: number | null;
+}
+
+// Tiny systems solve in microseconds, so each method is repeated until this much time has passed
+const TIMING_BUDGET_MS = 5;
+const MAX_REPETITIONS = 1000;
+
+/**
+ * x = A⁻¹b for the comparison: invert A, then one matrix-vector product (2n² more flops).
+ */
+const solveWithInverse = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): SolverResult => {
+    const { inverse, flops } = invertMatrix(matrix, options);
+    if (!inverse) {
+        throw new Error('Matrix is not invertible.');
+    }
+    const n = matrix.length;
+    return { status: 'unique', solution: multiplyVector(inverse, vector), flops: (flops ?? 0) + 2 * n * n };
+};
+
+const METHODS: { id: string; name: string; solve: (matrix: Matrix, vector: Vector, options?: SolverOptions) => SolverResult }[] = [
+    { id: 'gauss', name: 'Gauss Elimination', solve: solveGaussElimination },
+    { id: 'gauss-jordan', name: 'Gauss-Jordan', solve: solveGaussJordan },
+    { id: 'lu', name: 'LU Factorization', solve: solveLUFactorization },
+    { id: 'inverse', name: 'Inverse (x = A⁻¹b)', solve: solveWithInverse },
+];
+
+const maxNormDiff = (a: Vector, b: Vector) => a.reduce((max, val, i) => Math.max(max, Math.abs(val - b[i])), 0);
+
+const time = (run: () => void) => {
+    let repetitions = 0;
+    const start = performance.now();
+    let elapsed = 0;
+    do {
+        run();
+        repetitions++;
+        elapsed = performance.now() - start;
+    } while (elapsed < TIMING_BUDGET_MS && repetitions < MAX_REPETITIONS);
+    return elapsed / repetitions;
+};
+
+/**
+ * Runs every direct method on the same system and collects status, solution, residual, flops and timing.
+ * A method that cannot run (a singular A for the inverse, a non-square A for LU) reports its error instead.
+ * `options.pivoting` applies to every method, so strategies can be compared across runs.
+ */
+export const compareMethods = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): ComparisonResult => {
+    const rows: MethodComparison[] = METHODS.map(({ id, name, solve }) => {
+        try {
+            const result = solve(matrix, vector, options);
+            const solution = result.status === 'unique' && result.solution ? result.solution : null;
+            return {
+                id,
+                name,
+                status: result.status,
+                solution,
+                residualNorm: solution ? residualNorm(matrix, solution, vector) : null,
+                deviation: null,
+                flops: result.flops ?? null,
+                timeMs: time(() => solve(matrix, vector, options)),
+            };
+        } catch (err) {
+            return {
+                id,
+                name,
+                status: null,
+                solution: null,
+                residualNorm: null,
+                deviation: null,
+                flops: null,
+                timeMs: 0,
+                error: err instanceof Error ? err.message : String(err),
+            };
+        }
+    });
+
+    const solved = rows.filter(row => row.solution);
+    const reference = solved[0]?.solution;
+    if (reference) {
+        solved.forEach(row => {
+            row.deviation = maxNormDiff(row.solution!, reference);
+        });
+    }
+
+    let maxDifference: number | null = null;
+    for (let i = 0; i < solved.length; i++) {
+        for (let j = i + 1; j < solved.length; j++) {
+            maxDifference = Math.max(maxDifference ?? 0, maxNormDiff(solved[i].solution!, solved[j].solution!));
+        }
+    }
+
+    return { rows, maxDifference };
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { Complex } from './complex';
+import type { ComplexMatrix, ComplexVector } from './complex';
+import {
+    complexResidualNorm,
+    factorizeLUComplex,
+    invertMatrixComplex,
+    solveGaussEliminationComplex,
+    solveGaussJordanComplex,
+    solveLUFactorizationComplex,
+} from './complexSolver';
+
+const c = (re: number, im = 0) => new Complex(re, im);
+
+const expectComplexClose = (actual: Complex, expected: Complex, digits = 10) => {
+    expect(actual.re).toBeCloseTo(expected.re, digits);
+    expect(actual.im).toBeCloseTo(expected.im, digits);
+};
+
+const multiply = (A: ComplexMatrix, x: ComplexVector): ComplexVector =>
+    A.map(row => row.reduce((sum, val, j) => sum.add(val.mul(x[j])), Complex.ZERO));
+
+// x = (1 − 2i, 3i, −2 + i), with b = A · x worked out in complex arithmetic
+const A: ComplexMatrix = [
+    [c(2, 1), c(1), c(0, -1)],
+    [c(1, -1), c(3, 2), c(1)],
+    [c(0, 2), c(1, 1), c(4)],
+];
+const x: ComplexVector = [c(1, -2), c(0, 3), c(-2, 1)];
+const b = multiply(A, x);
+
+describe('Complex', () => {
+    it('parses rectangular, j and polar forms', () => {
+        expect(Complex.parse('3-2i')).toEqual(c(3, -2));
+        expect(Complex.parse(' -2.5i ')).toEqual(c(0, -2.5));
+        expect(Complex.parse('3 + j4')).toEqual(c(3, 4));
+        expect(Complex.parse('−i')).toEqual(c(0, -1));
+        expect(Complex.parse('1e2+2*i')).toEqual(c(100, 2));
+        expectComplexClose(Complex.parse('5∠30°'), c(5 * Math.cos(Math.PI / 6), 2.5));
+        expectComplexClose(Complex.parse('2<-90'), c(0, -2));
+        expectComplexClose(Complex.parse(`1∠${Math.PI}rad`), c(-1, 0));
+        expect(() => Complex.parse('3-2k')).toThrow('"3-2k" is not a complex number.');
+        expect(() => Complex.parse('')).toThrow();
+    });
+
+    it('formats rectangular and polar results, and writes cells parse can read back', () => {
+        expect(c(1.5, -2).format(4)).toBe('1.5000 - 2i');
+        expect(c(-1, -0.5).format(2)).toBe('-1 - 0.50i');
+        expect(c(0, -1).format(4)).toBe('-i');
+        expect(c(0, 1).format(4)).toBe('i');
+        expect(c(3, 4).format(2, 'polar')).toBe('5∠53.13°');
+        expect(c(0, -2).format(2, 'polar')).toBe('2∠-90°');
+        expect(Complex.fromPolar(5, 30).toString()).toBe('4.33012701892+2.5i');
+        expect(Complex.parse(c(-0.25, -1).toString())).toEqual(c(-0.25, -1));
+    });
+
+    it('divides without losing the smaller part', () => {
+        expectComplexClose(c(3, 4).div(c(1, -2)), c(-1, 2));
+        expectComplexClose(c(1e300, 1e300).div(c(1e300, 1e300)), c(1, 0));
+        expect(() => c(1).div(Complex.ZERO)).toThrow('Division by zero.');
+    });
+});
+
+describe('complex solvers', () => {
+    it('solve the same system with Gauss, Gauss-Jordan, LU and Crout', () => {
+        const results = [
+            solveGaussEliminationComplex(A, b),
+            solveGaussJordanComplex(A, b),
+            solveLUFactorizationComplex(A, b),
+            solveLUFactorizationComplex(A, b, { luForm: 'crout' }),
+            solveGaussEliminationComplex(A, b, { pivoting: 'complete' }),
+        ];
+        for (const res of results) {
+            expect(res.status).toBe('unique');
+            res.solution!.forEach((val, i) => expectComplexClose(val, x[i]));
+            expect(complexResidualNorm(A, res.solution!, b)).toBeLessThan(1e-12);
+        }
+    });
+
+    it('inverts so that A · A⁻¹ = I', () => {
+        const { inverse } = invertMatrixComplex(A);
+        A.forEach((_, j) => {
+            const column = multiply(A, inverse!.map(row => row[j]));
+            column.forEach((val, i) => expectComplexClose(val, c(i === j ? 1 : 0)));
+        });
+    });
+
+    it('pivots on the largest modulus, not the largest real part', () => {
+        const { P, L, U } = factorizeLUComplex([
+            [c(1), c(1)],
+            [c(0, 3), c(2)],
+        ]);
+        expect(P).toEqual([[0, 1], [1, 0]]);
+        expect(U[0][0]).toEqual(c(0, 3));
+        expectComplexClose(L[1][0], c(0, -1 / 3));
+    });
+
+    it('tells a singular system with infinitely many solutions from one with none', () => {
+        // Row 2 is i times row 1
+        const singular: ComplexMatrix = [
+            [c(1), c(0, 1)],
+            [c(0, 1), c(-1)],
+        ];
+        const infinite = solveGaussEliminationComplex(singular, [c(1), c(0, 1)]);
+        expect(infinite.status).toBe('infinite');
+        expect(infinite.general!.freeColumns).toEqual([1]);
+        expect(solveGaussEliminationComplex(singular, [c(1), c(0)]).status).toBe('none');
+
+        const lu = solveLUFactorizationComplex(singular, [c(1), c(0, 1)]);
+        expect(lu.singular?.rank).toBe(1);
+        expect(invertMatrixComplex(singular).inverse).toBeNull();
+    });
+});
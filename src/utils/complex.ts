@@ -0,0 +1,152 @@
+import type { FieldValue } from './fieldSolver';
+import type { Matrix, Vector } from './solver';
+
+/** How complex results are written: a + bi, or modulus ∠ angle in degrees. */
+export type ComplexForm = 'rectangular' | 'polar';
+
+const NUMBER = String.raw`(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?`;
+// An imaginary part written as 2i, 2*i, i2 or j2, i.e. with the unit before or after the number (or alone)
+const IMAGINARY = String.raw`(${NUMBER})?\*?[ij]|[ij]\*?(${NUMBER})`;
+const REAL_PATTERN = new RegExp(`^[+-]?${NUMBER}$`);
+const IMAGINARY_PATTERN = new RegExp(`^([+-]?)(?:${IMAGINARY})$`);
+const RECTANGULAR_PATTERN = new RegExp(`^([+-]?${NUMBER})([+-])(?:${IMAGINARY})$`);
+const POLAR_PATTERN = new RegExp(`^(${NUMBER})(?:∠|<)([+-]?${NUMBER})(°|deg|rad)?$`);
+
+const DEGREES = 180 / Math.PI;
+
+/**
+ * A complex number a + bi in double precision. Instances are immutable, like Fraction.
+ */
+export class Complex implements FieldValue<Complex> {
+    readonly re: number;
+    readonly im: number;
+
+    constructor(re: number, im = 0) {
+        this.re = re;
+        this.im = im;
+    }
+
+    static readonly ZERO = new Complex(0);
+    static readonly ONE = new Complex(1);
+
+    /** r∠θ with the angle θ in degrees, as phasors are usually written. */
+    static fromPolar(modulus: number, degrees: number): Complex {
+        const radians = degrees / DEGREES;
+        return new Complex(modulus * Math.cos(radians), modulus * Math.sin(radians));
+    }
+
+    /**
+     * Parses "3", "-2.5i", "3-2i", "3 + j4" or polar "5∠30°" (also "5<30", and "5∠0.52rad" for radians).
+     * Spaces are ignored and "−" counts as a minus; an empty string is not a number.
+     */
+    static parse(text: string): Complex {
+        const compact = text.replace(/\s+/g, '').replace(/−/g, '-');
+        const imaginary = (sign: string, before?: string, after?: string) =>
+            (sign === '-' ? -1 : 1) * Number(before ?? after ?? 1);
+
+        if (REAL_PATTERN.test(compact)) return new Complex(Number(compact));
+        const pure = IMAGINARY_PATTERN.exec(compact);
+        if (pure) return new Complex(0, imaginary(pure[1], pure[2], pure[3]));
+        const rectangular = RECTANGULAR_PATTERN.exec(compact);
+        if (rectangular) return new Complex(Number(rectangular[1]), imaginary(rectangular[2], rectangular[3], rectangular[4]));
+        const polar = POLAR_PATTERN.exec(compact);
+        if (polar) {
+            const angle = Number(polar[2]);
+            return Complex.fromPolar(Number(polar[1]), polar[3] === 'rad' ? angle * DEGREES : angle);
+        }
+        throw new Error(`"${text}" is not a complex number.`);
+    }
+
+    add(other: Complex): Complex {
+        return new Complex(this.re + other.re, this.im + other.im);
+    }
+
+    sub(other: Complex): Complex {
+        return new Complex(this.re - other.re, this.im - other.im);
+    }
+
+    mul(other: Complex): Complex {
+        return new Complex(this.re * other.re - this.im * other.im, this.re * other.im + this.im * other.re);
+    }
+
+    /** Smith's algorithm: divides by the larger part of the divisor first, so c² + d² cannot overflow. */
+    div(other: Complex): Complex {
+        const { re: c, im: d } = other;
+        if (c === 0 && d === 0) {
+            throw new Error('Division by zero.');
+        }
+        if (Math.abs(c) >= Math.abs(d)) {
+            const ratio = d / c;
+            const denominator = c + d * ratio;
+            return new Complex((this.re + this.im * ratio) / denominator, (this.im - this.re * ratio) / denominator);
+        }
+        const ratio = c / d;
+        const denominator = c * ratio + d;
+        return new Complex((this.re * ratio + this.im) / denominator, (this.im * ratio - this.re) / denominator);
+    }
+
+    neg(): Complex {
+        return new Complex(-this.re, -this.im);
+    }
+
+    conj(): Complex {
+        return new Complex(this.re, -this.im);
+    }
+
+    /** Modulus |z|, the magnitude that pivoting compares. */
+    abs(): number {
+        return Math.hypot(this.re, this.im);
+    }
+
+    /** Argument in degrees, in (−180, 180]. */
+    arg(): number {
+        return Math.atan2(this.im, this.re) * DEGREES;
+    }
+
+    isZero(): boolean {
+        return this.re === 0 && this.im === 0;
+    }
+
+    equals(other: Complex): boolean {
+        return this.re === other.re && this.im === other.im;
+    }
+
+    /**
+     * Formats for display with `digits` decimals, e.g. "1.5000 - 2.2500i" or "2.5000∠-53.1301°".
+     * Parts below 1e-12 are shown as 0, and signs use the ASCII "-" that formatScalar uses for reals.
+     */
+    format(digits = 4, form: ComplexForm = 'rectangular'): string {
+        const part = (value: number) => (Math.abs(value) < 1e-12 ? '0' : Number.isInteger(value) ? String(value) : value.toFixed(digits));
+        if (form === 'polar') {
+            return this.abs() < 1e-12 ? '0' : `${part(this.abs())}∠${part(this.arg())}°`;
+        }
+        const re = part(this.re);
+        const im = part(Math.abs(this.im));
+        if (im === '0') return re;
+        const unit = `${im === '1' ? '' : im}i`;
+        if (re === '0') return this.im < 0 ? `-${unit}` : unit;
+        return `${re} ${this.im < 0 ? '-' : '+'} ${unit}`;
+    }
+
+    /**
+     * Up to 12 significant digits in a form `parse` reads back, for editable cells: 5∠30° shows as
+     * 4.33012701892+2.5i rather than with the rounding noise of cos and sin.
+     */
+    toString(): string {
+        const short = (value: number) => String(Number(value.toPrecision(12)));
+        const [re, im] = [short(this.re), short(Math.abs(this.im))];
+        if (im === '0') return re;
+        const unit = `${im === '1' ? '' : im}i`;
+        if (re === '0') return this.im < 0 ? `-${unit}` : unit;
+        return `${re}${this.im < 0 ? '-' : '+'}${unit}`;
+    }
+}
+
+export type ComplexMatrix = Complex[][];
+export type ComplexVector = Complex[];
+
+/** Joins real and imaginary parts entry by entry. */
+export const toComplexMatrix = (re: Matrix, im: Matrix): ComplexMatrix =>
+    re.map((row, i) => row.map((val, j) => new Complex(val, im[i][j])));
+
+export const toComplexVector = (re: Vector, im: Vector): ComplexVector => re.map((val, i) => new Complex(val, im[i]));
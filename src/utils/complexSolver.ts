@@ -0,0 +1,73 @@
+import { Complex } from './complex';
+import type { ComplexMatrix, ComplexVector } from './complex';
+import {
+    describeSingularityField,
+    factorizeLUField,
+    invertMatrixField,
+    solveGaussEliminationField,
+    solveGaussJordanField,
+    solveLUField,
+    solveLUFactorizationField,
+} from './fieldSolver';
+import type { Field, FieldInverseResult, FieldLUFactorization, FieldSolverResult } from './fieldSolver';
+import type { SolverOptions, Singularity } from './solver';
+
+export type ComplexSolverResult = FieldSolverResult<Complex>;
+export type ComplexInverseResult = FieldInverseResult<Complex>;
+export type ComplexLUFactorization = FieldLUFactorization<Complex>;
+
+// Pivoting compares moduli |z|, and the same EPSILON decides what counts as a zero pivot.
+const EPSILON = 1e-10;
+
+const COMPLEX: Field<Complex> = {
+    zero: Complex.ZERO,
+    one: Complex.ONE,
+    magnitude: strategy => value => (strategy === 'none' || value.abs() >= EPSILON ? value.abs() : 0),
+    negligible: value => value.abs() <= EPSILON,
+};
+
+/**
+ * Gaussian Elimination over the complex numbers.
+ */
+export const solveGaussEliminationComplex = (matrix: ComplexMatrix, vector: ComplexVector, options: SolverOptions = {}): ComplexSolverResult =>
+    solveGaussEliminationField(COMPLEX, matrix, vector, options);
+
+/**
+ * Gauss-Jordan Elimination over the complex numbers.
+ */
+export const solveGaussJordanComplex = (matrix: ComplexMatrix, vector: ComplexVector, options: SolverOptions = {}): ComplexSolverResult =>
+    solveGaussJordanField(COMPLEX, matrix, vector, options);
+
+/**
+ * Complex counterpart of describeSingularity: rank and dependencies from the homogeneous systems.
+ */
+export const describeSingularityComplex = (matrix: ComplexMatrix, column: number): Singularity<Complex> =>
+    describeSingularityField(COMPLEX, matrix, column);
+
+/**
+ * Complex counterpart of factorizeLU: P * A = L * U with Partial Pivoting, or P * A * Q = L * U with complete pivoting.
+ */
+export const factorizeLUComplex = (matrix: ComplexMatrix, options: SolverOptions = {}): ComplexLUFactorization =>
+    factorizeLUField(COMPLEX, matrix, options);
+
+/**
+ * Complex counterpart of solveLU: forward then backward substitution with existing factors.
+ */
+export const solveLUComplex = (factors: ComplexLUFactorization, vector: ComplexVector): { solution: ComplexVector; y: ComplexVector } =>
+    solveLUField(COMPLEX, factors, vector);
+
+/**
+ * LU Factorization with Partial Pivoting (P * A = L * U) over the complex numbers.
+ */
+export const solveLUFactorizationComplex = (matrix: ComplexMatrix, vector: ComplexVector, options: SolverOptions = {}): ComplexSolverResult =>
+    solveLUFactorizationField(COMPLEX, matrix, vector, options);
+
+/**
+ * Inverse via Gauss-Jordan on [A | I] over the complex numbers.
+ */
+export const invertMatrixComplex = (matrix: ComplexMatrix, options: SolverOptions = {}): ComplexInverseResult =>
+    invertMatrixField(COMPLEX, matrix, options);
+
+/** ‖Ax − b‖₂ over the complex numbers. */
+export const complexResidualNorm = (A: ComplexMatrix, x: ComplexVector, b: ComplexVector): number =>
+    Math.hypot(...A.map((row, i) => row.reduce((sum, a, j) => sum.add(a.mul(x[j])), Complex.ZERO).sub(b[i]).abs()));
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { factorDense, fromDense, solveDenseLU, toDense } from './dense';
+import { generateSystem } from './generators';
+import { solveDenseProblem } from './solve';
+import { solveGaussElimination } from './solver';
+
+// Example 2 of the course sheet
+const A = [[2, -1, -3, 1], [1, 1, 1, -2], [3, 2, -3, -4], [-1, -4, 1, 1]];
+const b = [9, 10, 6, 6];
+
+describe('flat Float64Array LU', () => {
+    it('round-trips through the row-major storage', () => {
+        expect(fromDense(toDense(A))).toEqual(A);
+    });
+
+    it('agrees with Gauss elimination on the course example', () => {
+        const x = solveDenseLU(factorDense(toDense(A)), Float64Array.from(b));
+        const expected = solveGaussElimination(A, b).solution!;
+        Array.from(x).forEach((val, i) => expect(val).toBeCloseTo(expected[i], 12));
+    });
+
+    it('stops at the first column without a usable pivot', () => {
+        expect(factorDense(toDense([[1, 2, 3], [4, 5, 9], [5, 7, 12]])).singularColumn).toBe(2);
+    });
+
+    it('classifies a singular system like the small-n LU path instead of failing', () => {
+        const outcome = solveDenseProblem(toDense([[1, 2], [2, 4]]), [Float64Array.from([3, 6]), Float64Array.from([3, 7])]);
+        expect(outcome.status).toBe('infinite');
+        expect(outcome.solution).toBeNull();
+        expect(outcome.singular).toMatchObject({ column: 1, rank: 1, determinant: 0 });
+        expect(outcome.multiple?.map(result => result.status)).toEqual(['infinite', 'none']);
+    });
+
+    it('solves a random 300 × 300 system with every right-hand side and steady progress', () => {
+        const system = generateSystem({ kind: 'diagonally-dominant', n: 300, seed: 1, solution: 'ones' });
+        const progress: number[] = [];
+        const outcome = solveDenseProblem(
+            toDense(system.A),
+            [Float64Array.from(system.b), Float64Array.from(system.b, val => 2 * val)],
+            fraction => progress.push(fraction)
+        );
+
+        expect(outcome.status).toBe('unique');
+        outcome.solution!.forEach(val => expect(val).toBeCloseTo(1, 10));
+        outcome.multiple![1].solution!.forEach(val => expect(val).toBeCloseTo(2, 10));
+        expect(outcome.residual).toBeLessThan(1e-9);
+        expect(outcome.timing).toMatchObject({ n: 300, flops: (2 * 300 ** 3) / 3 + 4 * 300 ** 2 });
+        expect(progress).toHaveLength(300);
+        expect(progress.every((fraction, k) => k === 0 || fraction >= progress[k - 1])).toBe(true);
+        expect(progress.at(-1)).toBe(1);
+    });
+});
@@ -0,0 +1,113 @@
+import type { Matrix } from './solver';
+
+// Flat Float64Array storage and an LU solver for systems too large for the step-by-step solvers.
+
+/** Systems up to this size are edited as input boxes and solved with the traced solvers. */
+export const MAX_GRID_SIZE = 10;
+
+/** Largest dimension the UI accepts; 2000³ flops still finish in seconds in a worker. */
+export const MAX_DENSE_SIZE = 2000;
+
+export const isLargeSystem = (m: number, n: number): boolean => m > MAX_GRID_SIZE || n > MAX_GRID_SIZE;
+
+/** A square matrix stored row-major in one Float64Array: entry (i, j) is data[i * n + j]. */
+export interface DenseMatrix {
+    n: number;
+    data: Float64Array;
+}
+
+/** P · A = L · U packed into one array: the multipliers of L below the diagonal, U on and above it. */
+export interface DenseLU {
+    n: number;
+    data: Float64Array;
+    /** Row perm[i] of A became row i of P · A. */
+    perm: Int32Array;
+    /** First column without a usable pivot; the factorization stopped there. */
+    singularColumn?: number;
+}
+
+export const toDense = (matrix: Matrix): DenseMatrix => {
+    const n = matrix.length;
+    const data = new Float64Array(n * n);
+    matrix.forEach((row, i) => data.set(row, i * n));
+    return { n, data };
+};
+
+export const fromDense = ({ n, data }: DenseMatrix): Matrix =>
+    Array.from({ length: n }, (_, i) => Array.from(data.subarray(i * n, (i + 1) * n)));
+
+/** Flops of LU with k right-hand sides: ⅔n³ for the factorization, 2n² per forward and back substitution. */
+export const denseFlops = (n: number, rhsCount = 1): number => (2 * n ** 3) / 3 + 2 * rhsCount * n ** 2;
+
+/**
+ * LU with partial pivoting, overwriting a copy of A.
+ * onProgress receives the share of the ⅔n³ work done so far, so the bar moves evenly even though
+ * the early columns cost far more than the late ones.
+ */
+export const factorDense = (A: DenseMatrix, onProgress?: (fraction: number) => void): DenseLU => {
+    const { n } = A;
+    const a = A.data.slice();
+    const perm = Int32Array.from({ length: n }, (_, i) => i);
+
+    let largest = 0;
+    for (let k = 0; k < a.length; k++) largest = Math.max(largest, Math.abs(a[k]));
+    const tolerance = n * Number.EPSILON * largest;
+
+    for (let k = 0; k < n; k++) {
+        let pivotRow = k;
+        for (let i = k + 1; i < n; i++) {
+            if (Math.abs(a[i * n + k]) > Math.abs(a[pivotRow * n + k])) pivotRow = i;
+        }
+        if (Math.abs(a[pivotRow * n + k]) <= tolerance) {
+            return { n, data: a, perm, singularColumn: k };
+        }
+        if (pivotRow !== k) {
+            for (let j = 0; j < n; j++) {
+                const tmp = a[k * n + j];
+                a[k * n + j] = a[pivotRow * n + j];
+                a[pivotRow * n + j] = tmp;
+            }
+            [perm[k], perm[pivotRow]] = [perm[pivotRow], perm[k]];
+        }
+
+        const pivot = a[k * n + k];
+        for (let i = k + 1; i < n; i++) {
+            const factor = (a[i * n + k] /= pivot);
+            if (factor === 0) continue;
+            for (let j = k + 1; j < n; j++) {
+                a[i * n + j] -= factor * a[k * n + j];
+            }
+        }
+        onProgress?.(1 - ((n - k - 1) / n) ** 3);
+    }
+
+    return { n, data: a, perm };
+};
+
+/** Forward substitution with L, then back substitution with U, for one right-hand side. */
+export const solveDenseLU = ({ n, data, perm }: DenseLU, b: Float64Array): Float64Array => {
+    const x = Float64Array.from(perm, i => b[i]);
+    for (let i = 1; i < n; i++) {
+        let sum = x[i];
+        for (let j = 0; j < i; j++) sum -= data[i * n + j] * x[j];
+        x[i] = sum;
+    }
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = x[i];
+        for (let j = i + 1; j < n; j++) sum -= data[i * n + j] * x[j];
+        x[i] = sum / data[i * n + i];
+    }
+    return x;
+};
+
+/** ‖Ax − b‖₂ on the flat storage. */
+export const denseResidualNorm = ({ n, data }: DenseMatrix, x: Float64Array, b: Float64Array): number => {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+        let r = -b[i];
+        for (let j = 0; j < n; j++) r += data[i * n + j] * x[j];
+        sum += r * r;
+    }
+    return Math.sqrt(sum);
+};
+
@@ -0,0 +1,91 @@
+import { factorizeLU, findInverse, solveGaussElimination } from './solver';
+import type { Matrix, Vector } from './solver';
+import { norm1, norm2, normInf, residualNorm } from './matrix';
+
+export interface Diagnostics {
+    /** det(A); null when A is not square. */
+    determinant: number | null;
+    rank: number;
+    /** κ₁(A) = ‖A‖₁‖A⁻¹‖₁; Infinity when A is singular, null when A is not square. */
+    conditionOne: number | null;
+    /** κ∞(A) = ‖A‖∞‖A⁻¹‖∞ */
+    conditionInf: number | null;
+    /** ‖Ax − b‖₂ for the computed solution, if there is one. */
+    residualNorm: number | null;
+    /** ‖Ax − b‖₂ / ‖b‖₂ */
+    relativeResidual: number | null;
+}
+
+// Above this condition number roughly 6 or more of the ~16 significant digits of a double are at risk.
+export const ILL_CONDITIONED_THRESHOLD = 1e6;
+
+/**
+ * Sign of a permutation matrix: +1 for an even number of row swaps, −1 for odd.
+ * Counted by following the cycles of the permutation.
+ */
+export const permutationSign = (P: Matrix): number => {
+    const perm = P.map(row => row.indexOf(1));
+    const visited = new Array(perm.length).fill(false);
+    let sign = 1;
+    for (let i = 0; i < perm.length; i++) {
+        if (visited[i]) continue;
+        let length = 0;
+        for (let j = i; !visited[j]; j = perm[j]) {
+            visited[j] = true;
+            length++;
+        }
+        if (length % 2 === 0) sign = -sign;
+    }
+    return sign;
+};
+
+/**
+ * det(A) from PA = LU: det(A) = det(P)⁻¹ · Π u_ii, and det(P) = ±1.
+ * An incomplete factorization stopped at a pivot below EPSILON, so A is singular and det(A) = 0;
+ * its partial U would otherwise multiply in the round-off left in that pivot.
+ */
+export const determinant = (matrix: Matrix): number => {
+    const { U, P, complete } = factorizeLU(matrix);
+    if (!complete) return 0;
+    return U.reduce((product, row, i) => product * row[i], permutationSign(P));
+};
+
+/**
+ * Rank of any m×n matrix: eliminate the homogeneous system Ax = 0 (always consistent)
+ * and count the pivots.
+ */
+export const rank = (matrix: Matrix): number => {
+    const n = matrix[0]?.length ?? 0;
+    const result = solveGaussElimination(matrix, new Array(matrix.length).fill(0));
+    if (result.status === 'infinite' && result.general) {
+        return result.general.pivotColumns.length;
+    }
+    return n;
+};
+
+/**
+ * Collects det(A), rank, condition numbers and the residual of `solution` (when given).
+ */
+export const computeDiagnostics = (matrix: Matrix, vector: Vector, solution?: Vector | null): Diagnostics => {
+    const square = matrix.every(row => row.length === matrix.length);
+
+    let conditionOne: number | null = null;
+    let conditionInf: number | null = null;
+    if (square) {
+        const inverse = findInverse(matrix);
+        conditionOne = inverse ? norm1(matrix) * norm1(inverse) : Infinity;
+        conditionInf = inverse ? normInf(matrix) * normInf(inverse) : Infinity;
+    }
+
+    const residual = solution ? residualNorm(matrix, solution, vector) : null;
+    const normB = norm2(vector);
+
+    return {
+        determinant: square ? determinant(matrix) : null,
+        rank: rank(matrix),
+        conditionOne,
+        conditionInf,
+        residualNorm: residual,
+        relativeResidual: residual !== null && normB > 0 ? residual / normB : null,
+    };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { inversePowerIteration, MAX_QR_ALGORITHM_SIZE, powerIteration, qrAlgorithm } from './eigen';
+import type { EigenResult } from './eigen';
+import { determinant } from './diagnostics';
+import { generateMatrix } from './generators';
+import { multiplyVector } from './matrix';
+
+const options = { tolerance: 1e-10, maxIterations: 500 };
+
+// This tridiagonal matrix has the eigenvalues 3 + √3, 3 and 3 − √3
+const A = [[2, 1, 0], [1, 3, 1], [0, 1, 4]];
+const EXPECTED = [3 + Math.sqrt(3), 3, 3 - Math.sqrt(3)];
+
+const expectEigenpairs = (result: EigenResult, digits = 8) => {
+    result.values.forEach((value, i) => {
+        const v = result.vectors[i];
+        if (!v) return;
+        multiplyVector(A, v).forEach((val, k) => expect(val).toBeCloseTo(value.re * v[k], digits));
+    });
+};
+
+describe('power iteration', () => {
+    it('finds the eigenvalue of largest modulus', () => {
+        const result = powerIteration(A, options);
+        expect(result.status).toBe('converged');
+        expect(result.values[0].re).toBeCloseTo(EXPECTED[0], 10);
+        expectEigenpairs(result);
+        expect(result.history[0].iteration).toBe(0);
+    });
+
+    it('handles a negative dominant eigenvalue without the vector flipping sign', () => {
+        const result = powerIteration([[-5, 0, 0], [0, 1, 0], [0, 0, 2]], options);
+        expect(result.values[0].re).toBeCloseTo(-5, 10);
+        expect(result.vectors[0]![0]).toBeCloseTo(1, 10);
+    });
+
+    it('does not converge when two eigenvalues share the largest modulus', () => {
+        expect(powerIteration([[0, -1], [1, 0]], { ...options, maxIterations: 30 }).status).toBe('max-iterations');
+    });
+
+    it('checks the starting vector', () => {
+        expect(() => powerIteration(A, { ...options, initialGuess: [1, 1] })).toThrow(/3 entries/);
+        expect(() => powerIteration(A, { ...options, initialGuess: [0, 0, 0] })).toThrow(/must not be zero/);
+    });
+});
+
+describe('inverse power iteration', () => {
+    it.each([[0, 2], [2.9, 1], [10, 0]])('with σ = %d finds the eigenvalue closest to it', (shift, index) => {
+        const result = inversePowerIteration(A, { ...options, shift });
+        expect(result.status).toBe('converged');
+        expect(result.shift).toBe(shift);
+        expect(result.values[0].re).toBeCloseTo(EXPECTED[index], 8);
+        expectEigenpairs(result);
+    });
+
+    it('reports a shift that is exactly an eigenvalue', () => {
+        expect(() => inversePowerIteration(A, { ...options, shift: 3 })).toThrow(/σ = 3 is an eigenvalue/);
+    });
+});
+
+describe('QR algorithm', () => {
+    it('finds every eigenvalue with its eigenvector', () => {
+        const result = qrAlgorithm(A, options);
+        expect(result.status).toBe('converged');
+        result.values.forEach((value, i) => {
+            expect(value.re).toBeCloseTo(EXPECTED[i], 10);
+            expect(value.im).toBe(0);
+        });
+        expectEigenpairs(result);
+    });
+
+    it('keeps the trace and the determinant of a random matrix', () => {
+        const B = generateMatrix('random', 7, 5);
+        const { values, status } = qrAlgorithm(B, options);
+        expect(status).toBe('converged');
+        expect(values.reduce((sum, v) => sum + v.re, 0)).toBeCloseTo(B.reduce((sum, row, i) => sum + row[i], 0), 8);
+        expect(values.reduce((sum, v) => sum + v.im, 0)).toBeCloseTo(0, 8);
+        // Product of the eigenvalues as complex numbers
+        const product = values.reduce(([re, im], v) => [re * v.re - im * v.im, re * v.im + im * v.re], [1, 0]);
+        expect(product[0]).toBeCloseTo(determinant(B), 6);
+    });
+
+    it('returns a complex pair without eigenvectors for a rotation', () => {
+        const { values, vectors } = qrAlgorithm([[0, -1, 0], [1, 0, 0], [0, 0, 2]], options);
+        expect(values[0]).toEqual({ re: 2, im: 0 });
+        expect(values.slice(1).map(v => Math.abs(v.im))).toEqual([1, 1]);
+        expect(vectors.slice(1)).toEqual([null, null]);
+    });
+
+    it('gives one eigenvector per independent direction', () => {
+        expect(qrAlgorithm([[1, 1], [0, 1]], options).vectors[1]).toBeNull();
+        const { vectors } = qrAlgorithm([[2, 0, 0], [0, 2, 0], [0, 0, 2]], options);
+        const [u, v] = vectors as number[][];
+        expect(u.reduce((sum, val, i) => sum + val * v[i], 0)).toBeCloseTo(0, 8);
+    });
+
+    it('is limited to small matrices', () => {
+        const n = MAX_QR_ALGORITHM_SIZE + 1;
+        expect(() => qrAlgorithm(generateMatrix('identity', n, 0), options)).toThrow(/small matrices/);
+    });
+});
@@ -0,0 +1,268 @@
+import { assertSquare, factorizeLU, solveLU } from './solver';
+import type { Matrix, Vector } from './solver';
+import { householderQR } from './leastSquares';
+import { multiply, multiplyVector, norm2, normInf, transpose } from './matrix';
+
+export type EigenMethod = 'power' | 'inverse-power' | 'qr-algorithm';
+
+export interface EigenOptions {
+    /** Power methods stop once ‖Av − λv‖₂ ≤ tolerance · max(1, |λ|); the QR algorithm deflates an off-diagonal row below tolerance · ‖A‖∞. */
+    tolerance: number;
+    maxIterations: number;
+    /** Starting vector v_0 of the power methods; defaults to all ones. */
+    initialGuess?: Vector;
+    /** σ of the inverse power method, which finds the eigenvalue closest to σ. */
+    shift?: number;
+}
+
+/** A real eigenvalue has im = 0; complex ones come in conjugate pairs from the QR algorithm. */
+export interface Eigenvalue {
+    re: number;
+    im: number;
+}
+
+export interface EigenIterationRecord {
+    iteration: number;
+    /** Current estimate: the Rayleigh quotient, or the bottom diagonal entry of the QR iterate. */
+    eigenvalue: number;
+    /** ‖Av − λv‖₂ for the power methods; the largest off-diagonal entry in the last active row for QR. */
+    residual: number;
+}
+
+export interface EigenResult {
+    method: EigenMethod;
+    status: 'converged' | 'max-iterations';
+    values: Eigenvalue[];
+    /** Unit eigenvectors (2-norm, largest entry positive); null for complex eigenvalues or a missing eigenvector of a defective A. */
+    vectors: (Vector | null)[];
+    /** ‖Av − λv‖₂ of each eigenvector. */
+    residuals: (number | null)[];
+    history: EigenIterationRecord[];
+    shift?: number;
+}
+
+// The QR algorithm costs O(n³) per step on a full matrix; beyond this it would take minutes
+export const MAX_QR_ALGORITHM_SIZE = 100;
+
+const dot = (a: Vector, b: Vector) => a.reduce((sum, val, i) => sum + val * b[i], 0);
+
+// Scales v to unit length with its largest entry positive, so the iterates do not flip sign.
+// Entries within 0.1% of the largest count as ties and the first wins, so every method picks the same sign.
+const normalize = (v: Vector): Vector => {
+    const norm = norm2(v);
+    const max = Math.max(...v.map(Math.abs));
+    const largest = v.findIndex(val => Math.abs(val) >= (1 - 1e-3) * max);
+    const scale = (v[largest] < 0 ? -1 : 1) / norm;
+    return v.map(val => val * scale);
+};
+
+const eigenResidual = (matrix: Matrix, value: number, v: Vector) =>
+    norm2(multiplyVector(matrix, v).map((val, i) => val - value * v[i]));
+
+/**
+ * Shared driver of the power methods: `step` maps v_{k−1} to an unnormalized v_k, and the eigenvalue estimate is
+ * the Rayleigh quotient vᵀAv. Vectors in `exclude` are projected out of every iterate.
+ */
+const iterateVector = (
+    matrix: Matrix,
+    options: EigenOptions,
+    start: Vector,
+    step: (v: Vector) => Vector,
+    exclude: Vector[] = []
+): { status: EigenResult['status']; value: number; vector: Vector; history: EigenIterationRecord[] } => {
+    const project = (v: Vector) => exclude.reduce((w, u) => {
+        const c = dot(u, w);
+        return w.map((val, i) => val - c * u[i]);
+    }, v);
+
+    let v = project(start);
+    if (norm2(v) === 0) {
+        throw new Error("The starting vector must not be zero.");
+    }
+    v = normalize(v);
+    let value = dot(v, multiplyVector(matrix, v));
+    const history: EigenIterationRecord[] = [{ iteration: 0, eigenvalue: value, residual: eigenResidual(matrix, value, v) }];
+
+    for (let k = 1; k <= options.maxIterations; k++) {
+        const w = project(step(v));
+        if (norm2(w) === 0 || !w.every(Number.isFinite)) {
+            throw new Error("The iterate became zero: the starting vector has no component along the eigenvector. Try another starting vector.");
+        }
+        v = normalize(w);
+        value = dot(v, multiplyVector(matrix, v));
+        const residual = eigenResidual(matrix, value, v);
+        history.push({ iteration: k, eigenvalue: value, residual });
+        if (residual <= options.tolerance * Math.max(1, Math.abs(value))) {
+            return { status: 'converged', value, vector: v, history };
+        }
+    }
+    return { status: 'max-iterations', value, vector: v, history };
+};
+
+const startVector = (n: number, options: EigenOptions): Vector => {
+    const v0 = options.initialGuess ?? new Array(n).fill(1);
+    if (v0.length !== n) {
+        throw new Error(`The starting vector must have ${n} entries.`);
+    }
+    return v0;
+};
+
+const singlePair = (method: EigenMethod, run: ReturnType<typeof iterateVector>, shift?: number): EigenResult => ({
+    method,
+    status: run.status,
+    values: [{ re: run.value, im: 0 }],
+    vectors: [run.vector],
+    residuals: [run.history[run.history.length - 1].residual],
+    history: run.history,
+    shift,
+});
+
+/**
+ * Power iteration: v_k = A v_{k−1} / ‖A v_{k−1}‖ converges to the eigenvector of the eigenvalue of largest modulus,
+ * at the rate |λ₂ / λ₁|. It does not converge when two eigenvalues share the largest modulus (λ and −λ, or a complex pair).
+ */
+export const powerIteration = (matrix: Matrix, options: EigenOptions): EigenResult => {
+    assertSquare(matrix, 'Power iteration');
+    const run = iterateVector(matrix, options, startVector(matrix.length, options), v => multiplyVector(matrix, v));
+    return singlePair('power', run);
+};
+
+/**
+ * Inverse power iteration with shift σ: power iteration on (A − σI)⁻¹, whose dominant eigenvalue 1 / (λ − σ)
+ * belongs to the eigenvalue λ closest to σ. A − σI is factored once with LU; each step is one pair of substitutions.
+ */
+export const inversePowerIteration = (matrix: Matrix, options: EigenOptions): EigenResult => {
+    assertSquare(matrix, 'Inverse power iteration');
+    const shift = options.shift ?? 0;
+    const factors = factorizeLU(matrix.map((row, i) => row.map((val, j) => (i === j ? val - shift : val))), { pivoting: 'partial' });
+    if (!factors.complete) {
+        throw new Error(`A − σI is singular, so σ = ${shift} is an eigenvalue of A. Move the shift slightly to find its eigenvector.`);
+    }
+    const run = iterateVector(matrix, options, startVector(matrix.length, options), v => solveLU(factors, v).solution);
+    return singlePair('inverse-power', run, shift);
+};
+
+/**
+ * Eigenvector of a computed eigenvalue by inverse iteration with a shift just beside it, so that A − σI is still
+ * factorable. Vectors already found for the same eigenvalue are projected out; if nothing else is left
+ * (a defective eigenvalue) there is no further eigenvector and null comes back.
+ */
+const eigenvectorFor = (matrix: Matrix, value: number, found: Vector[], options: EigenOptions): Vector | null => {
+    const n = matrix.length;
+    const scale = Math.max(1, Math.abs(value), normInf(matrix));
+    for (const offset of [1e-8, 1e-6]) {
+        const shift = value + offset * scale;
+        const factors = factorizeLU(matrix.map((row, i) => row.map((val, j) => (i === j ? val - shift : val))), { pivoting: 'partial' });
+        if (!factors.complete) continue;
+        // Start from a vector with a component along every direction, different for each repeat of the eigenvalue
+        const start = Array.from({ length: n }, (_, i) => 1 + (i === found.length % n ? 1 : 0));
+        try {
+            const run = iterateVector(matrix, { ...options, maxIterations: Math.min(options.maxIterations, 20) }, start, v => solveLU(factors, v).solution, found);
+            if (eigenResidual(matrix, value, run.vector) <= Math.sqrt(options.tolerance) * scale) return run.vector;
+        } catch {
+            // Nothing left after projecting out the vectors already found
+        }
+    }
+    return null;
+};
+
+// Eigenvalues of [[a, b], [c, d]]: (a + d) / 2 ± √(((a − d) / 2)² + bc)
+const blockEigenvalues = (a: number, b: number, c: number, d: number): [Eigenvalue, Eigenvalue] => {
+    const mean = (a + d) / 2;
+    const discriminant = ((a - d) / 2) ** 2 + b * c;
+    if (discriminant >= 0) {
+        const root = Math.sqrt(discriminant);
+        return [{ re: mean + root, im: 0 }, { re: mean - root, im: 0 }];
+    }
+    const root = Math.sqrt(-discriminant);
+    return [{ re: mean, im: root }, { re: mean, im: -root }];
+};
+
+const offDiagonal = (H: Matrix, row: number, end: number) => Math.max(0, ...H[row].slice(0, end).map(Math.abs));
+
+/**
+ * The QR algorithm for all eigenvalues: A_k − μI = Q R, A_{k+1} = R Q + μI is similar to A_k and tends to an upper
+ * (block) triangular matrix with the eigenvalues on the diagonal. The shift μ is the eigenvalue of the trailing 2×2
+ * block closest to its last entry (Wilkinson); when that block has complex eigenvalues, both are used at once
+ * (an explicit double shift) so the iteration stays real. A converged last row or 2×2 block is deflated.
+ * Eigenvectors of the real eigenvalues then come from inverse iteration.
+ */
+export const qrAlgorithm = (matrix: Matrix, options: EigenOptions): EigenResult => {
+    assertSquare(matrix, 'The QR algorithm');
+    const n = matrix.length;
+    if (n > MAX_QR_ALGORITHM_SIZE) {
+        throw new Error(`The QR algorithm here is meant for small matrices (n ≤ ${MAX_QR_ALGORITHM_SIZE}). Use power or inverse power iteration for one eigenvalue.`);
+    }
+    const threshold = options.tolerance * Math.max(normInf(matrix), Number.MIN_VALUE);
+    let H = matrix.map(row => [...row]);
+    const values: Eigenvalue[] = [];
+    const history: EigenIterationRecord[] = [];
+    let size = n;
+    let iteration = 0;
+    let status: EigenResult['status'] = 'converged';
+
+    const replaceBlock = (block: Matrix) => {
+        H = H.map((row, i) => (i < size ? [...block[i], ...row.slice(size)] : row));
+    };
+
+    while (size > 0) {
+        const last = size - 1;
+        if (size === 1 || offDiagonal(H, last, last) <= threshold) {
+            values.push({ re: H[last][last], im: 0 });
+            size -= 1;
+            continue;
+        }
+        if (size === 2 || Math.max(offDiagonal(H, last - 1, last - 1), offDiagonal(H, last, last - 1)) <= threshold) {
+            values.push(...blockEigenvalues(H[last - 1][last - 1], H[last - 1][last], H[last][last - 1], H[last][last]));
+            size -= 2;
+            continue;
+        }
+        if (iteration >= options.maxIterations) {
+            // Report the diagonal of the unfinished block as the current estimates
+            status = 'max-iterations';
+            for (let i = last; i >= 0; i--) values.push({ re: H[i][i], im: 0 });
+            break;
+        }
+
+        const block = H.slice(0, size).map(row => row.slice(0, size));
+        const [mu1, mu2] = blockEigenvalues(block[last - 1][last - 1], block[last - 1][last], block[last][last - 1], block[last][last]);
+        if (mu1.im === 0) {
+            const mu = Math.abs(mu1.re - block[last][last]) < Math.abs(mu2.re - block[last][last]) ? mu1.re : mu2.re;
+            const { Q, R } = householderQR(block.map((row, i) => row.map((val, j) => (i === j ? val - mu : val))));
+            replaceBlock(multiply(R, Q).map((row, i) => row.map((val, j) => (i === j ? val + mu : val))));
+        } else {
+            // (A − μI)(A − μ̄I) = A² − 2 Re(μ) A + |μ|² I is real; its Q gives both shifted steps in one similarity
+            const s = 2 * mu1.re;
+            const t = mu1.re ** 2 + mu1.im ** 2;
+            const squared = multiply(block, block);
+            const { Q } = householderQR(squared.map((row, i) => row.map((val, j) => val - s * block[i][j] + (i === j ? t : 0))));
+            replaceBlock(multiply(multiply(transpose(Q), block), Q));
+        }
+        iteration++;
+        history.push({ iteration, eigenvalue: H[last][last], residual: offDiagonal(H, last, last) });
+    }
+
+    values.sort((a, b) => Math.hypot(b.re, b.im) - Math.hypot(a.re, a.im) || b.re - a.re || b.im - a.im);
+    const vectors: (Vector | null)[] = [];
+    values.forEach((value, k) => {
+        if (value.im !== 0 || status !== 'converged') {
+            vectors.push(null);
+            return;
+        }
+        // Earlier vectors of the same (repeated) eigenvalue are excluded so the eigenspace gets a basis
+        const same = values.slice(0, k)
+            .map((other, i) => (other.im === 0 && Math.abs(other.re - value.re) <= Math.sqrt(options.tolerance) * Math.max(1, Math.abs(value.re)) ? vectors[i] : null))
+            .filter((v): v is Vector => v !== null);
+        vectors.push(eigenvectorFor(matrix, value.re, same, options));
+    });
+
+    return {
+        method: 'qr-algorithm',
+        status,
+        values,
+        vectors,
+        residuals: vectors.map((v, k) => (v ? eigenResidual(matrix, values[k].re, v) : null)),
+        history,
+    };
+};
+
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { compensatedDot, extendedResidual, perturbationExperiment, refineSolution } from './errorAnalysis';
+import { generateMatrix, generateSystem } from './generators';
+
+describe('extended residual', () => {
+    it('keeps the digits that plain summation cancels away', () => {
+        expect(1e16 + 1 - 1e16).toBe(0);
+        expect(compensatedDot([1e16, 1, -1e16], [1, 1, 1])).toBe(1);
+        expect(compensatedDot([1 + 2 ** -30], [1 - 2 ** -30])).toBe(1 - 2 ** -60);
+    });
+
+    it('is zero for an exact solution', () => {
+        expect(extendedResidual([[2, 1], [1, 3]], [1, 1], [3, 4])).toEqual([0, 0]);
+    });
+});
+
+describe('iterative refinement', () => {
+    it('converges in a few rounds on a well-conditioned system', () => {
+        const { A, b, solution } = generateSystem({ kind: 'random', n: 8, seed: 3, solution: 'ones' });
+        const result = refineSolution(A, b);
+        expect(result.converged).toBe(true);
+        expect(result.steps.length).toBeLessThanOrEqual(4);
+        result.solution.forEach((val, i) => expect(val).toBeCloseTo(solution![i], 13));
+        expect(result.steps.at(-1)!.backwardError).toBeLessThan(1e-16);
+    });
+
+    it('lowers the residual and the forward error bound of an ill-conditioned system', () => {
+        const { A, b } = generateSystem({ kind: 'hilbert', n: 8, seed: 0, solution: 'ones' });
+        const { steps, conditionInf } = refineSolution(A, b);
+        expect(conditionInf!).toBeGreaterThan(1e10);
+        expect(steps.at(-1)!.residualNorm).toBeLessThan(steps[0].residualNorm);
+        expect(steps.at(-1)!.forwardBound!).toBeLessThan(steps[0].forwardBound!);
+        expect(steps[0].correction).toBeNaN();
+    });
+
+    it('stops after maxRounds', () => {
+        const { A, b } = generateSystem({ kind: 'hilbert', n: 8, seed: 0, solution: 'ones' });
+        expect(refineSolution(A, b, { maxRounds: 1, extendedResidual: false }).steps).toHaveLength(2);
+    });
+
+    it('rejects a singular matrix', () => {
+        expect(() => refineSolution([[1, 2], [2, 4]], [1, 2])).toThrow(/nonsingular/);
+    });
+});
+
+describe('perturbation experiment', () => {
+    it.each(['A', 'b'] as const)('stays below the condition number bound when perturbing %s', (target) => {
+        const A = generateMatrix('vandermonde', 6, 0);
+        const result = perturbationExperiment(A, [1, 2, 3, 4, 5, 6], { target, sizes: [1e-12, 1e-9], trials: 5, seed: 7 });
+        expect(result.points).toHaveLength(10);
+        result.points.forEach(p => {
+            expect(p.inputChange).toBeGreaterThan(0);
+            expect(p.outputChange).toBeLessThanOrEqual(1.01 * result.conditionInf * p.inputChange / (1 - result.conditionInf * p.inputChange));
+        });
+        expect(result.maxAmplification).toBeGreaterThan(1);
+    });
+
+    it('gives the same points for the same seed', () => {
+        const A = generateMatrix('random', 4, 2);
+        const options = { target: 'A' as const, sizes: [1e-6], trials: 3, seed: 11 };
+        expect(perturbationExperiment(A, [1, 0, 0, 0], options)).toEqual(perturbationExperiment(A, [1, 0, 0, 0], options));
+    });
+
+    it('needs a nonzero right-hand side', () => {
+        expect(() => perturbationExperiment([[1, 0], [0, 1]], [0, 0], { target: 'b', sizes: [1e-6], trials: 1, seed: 0 })).toThrow(/nonzero b/);
+    });
+});
@@ -0,0 +1,218 @@
+import { factorizeLU, findInverse, solveLU } from './solver';
+import type { Matrix, Vector } from './solver';
+import { multiplyVector, normInf } from './matrix';
+import { createRandom } from './generators';
+
+export interface RefinementOptions {
+    /** Correction rounds after the first solve. */
+    maxRounds?: number;
+    /** Compute r = b − Ax with compensated sums (about twice double precision) instead of plain doubles. */
+    extendedResidual?: boolean;
+}
+
+export interface RefinementStep {
+    /** 0 is the plain LU solution. */
+    round: number;
+    x: Vector;
+    /** ‖b − Ax‖∞ */
+    residualNorm: number;
+    /** Normwise backward error ‖b − Ax‖∞ / (‖A‖∞‖x‖∞ + ‖b‖∞). */
+    backwardError: number;
+    /** ‖A⁻¹‖∞‖b − Ax‖∞ / ‖x‖∞, a bound on the relative forward error; null when A⁻¹ is not available. */
+    forwardBound: number | null;
+    /** ‖d‖∞ / ‖x‖∞ of the correction applied in this round; NaN for round 0. */
+    correction: number;
+}
+
+export interface RefinementResult {
+    steps: RefinementStep[];
+    solution: Vector;
+    /** κ∞(A) = ‖A‖∞‖A⁻¹‖∞ */
+    conditionInf: number | null;
+    /** True when the last correction reached the rounding level of x. */
+    converged: boolean;
+}
+
+export type PerturbationTarget = 'A' | 'b';
+
+export interface PerturbationOptions {
+    target: PerturbationTarget;
+    /** Relative noise sizes ‖δ‖∞ / ‖input‖∞ to try. */
+    sizes: number[];
+    trials: number;
+    seed: number;
+}
+
+export interface PerturbationPoint {
+    /** ‖δA‖∞ / ‖A‖∞ or ‖δb‖∞ / ‖b‖∞ */
+    inputChange: number;
+    /** ‖x̃ − x‖∞ / ‖x‖∞ */
+    outputChange: number;
+}
+
+export interface PerturbationResult {
+    target: PerturbationTarget;
+    points: PerturbationPoint[];
+    conditionInf: number;
+    /** Largest outputChange / inputChange seen, to set against κ∞(A). */
+    maxAmplification: number;
+}
+
+const vectorNormInf = (v: Vector): number => Math.max(0, ...v.map(Math.abs));
+
+// Veltkamp split of a double into two halves of 26 bits, so that their products are exact
+const SPLITTER = 134217729;
+
+const twoSum = (a: number, b: number): [number, number] => {
+    const s = a + b;
+    const z = s - a;
+    return [s, (a - (s - z)) + (b - z)];
+};
+
+const twoProduct = (a: number, b: number): [number, number] => {
+    const p = a * b;
+    const ca = SPLITTER * a;
+    const aHi = ca - (ca - a);
+    const aLo = a - aHi;
+    const cb = SPLITTER * b;
+    const bHi = cb - (cb - b);
+    const bLo = b - bHi;
+    return [p, aLo * bLo - (((p - aHi * bHi) - aLo * bHi) - aHi * bLo)];
+};
+
+/**
+ * Σ a_i b_i as if computed in twice the working precision and rounded once (Ogita, Rump and Oishi's Dot2).
+ */
+export const compensatedDot = (a: Vector, b: Vector): number => {
+    let sum = 0;
+    let error = 0;
+    for (let i = 0; i < a.length; i++) {
+        const [product, productError] = twoProduct(a[i], b[i]);
+        const [next, sumError] = twoSum(sum, product);
+        sum = next;
+        error += productError + sumError;
+    }
+    return sum + error;
+};
+
+/** b − Ax with each entry from a compensated dot product, so cancellation does not swamp a small residual. */
+export const extendedResidual = (A: Matrix, x: Vector, b: Vector): Vector =>
+    A.map((row, i) => compensatedDot([b[i], ...row], [1, ...x.map(v => -v)]));
+
+/**
+ * Solves Ax = b by LU with partial pivoting, then repeats r = b − Ax, LU·d = P·r, x ← x + d.
+ * The factorization is reused, so each round costs O(n²). Stops when a correction no longer shrinks by half
+ * or falls below the rounding level of x.
+ */
+export const refineSolution = (matrix: Matrix, vector: Vector, options: RefinementOptions = {}): RefinementResult => {
+    const { maxRounds = 5, extendedResidual: extended = true } = options;
+    const factors = factorizeLU(matrix, { pivoting: 'partial' });
+    if (!factors.complete) {
+        throw new Error("Iterative refinement needs a nonsingular matrix.");
+    }
+    const inverse = findInverse(matrix);
+    const normA = normInf(matrix);
+    const normB = vectorNormInf(vector);
+    const normInverse = inverse ? normInf(inverse) : null;
+
+    const residual = (x: Vector) => extended
+        ? extendedResidual(matrix, x, vector)
+        : multiplyVector(matrix, x).map((val, i) => vector[i] - val);
+    const record = (round: number, x: Vector, r: Vector, correction: number): RefinementStep => {
+        const residualNorm = vectorNormInf(r);
+        const normX = vectorNormInf(x);
+        const scale = normA * normX + normB;
+        return {
+            round,
+            x,
+            residualNorm,
+            backwardError: scale > 0 ? residualNorm / scale : 0,
+            forwardBound: normInverse !== null && normX > 0 ? normInverse * residualNorm / normX : null,
+            correction,
+        };
+    };
+
+    let x = solveLU(factors, vector).solution;
+    let r = residual(x);
+    const steps = [record(0, x, r, NaN)];
+    let converged = false;
+
+    for (let round = 1; round <= maxRounds; round++) {
+        const d = solveLU(factors, r).solution;
+        x = x.map((val, i) => val + d[i]);
+        const correction = vectorNormInf(d) / (vectorNormInf(x) || 1);
+        r = residual(x);
+        steps.push(record(round, x, r, correction));
+
+        const previous = steps[round - 1].correction;
+        if (correction <= Number.EPSILON) {
+            converged = true;
+            break;
+        }
+        if (round > 1 && correction > previous / 2) break;
+    }
+
+    return {
+        steps,
+        solution: x,
+        conditionInf: normInverse !== null ? normA * normInverse : null,
+        converged,
+    };
+};
+
+/**
+ * Adds random noise of each relative size to A or b, re-solves, and records how much x moved.
+ * The points sit below the bound ‖δx‖/‖x‖ ≤ κ(A)·‖δb‖/‖b‖ (for A: κε / (1 − κε)), and for the worst
+ * directions come close to it. Perturbations that make A singular are skipped.
+ */
+export const perturbationExperiment = (matrix: Matrix, vector: Vector, options: PerturbationOptions): PerturbationResult => {
+    const { target, sizes, trials, seed } = options;
+    const factors = factorizeLU(matrix, { pivoting: 'partial' });
+    const inverse = findInverse(matrix);
+    if (!factors.complete || !inverse) {
+        throw new Error("The perturbation experiment needs a nonsingular matrix.");
+    }
+    const x = solveLU(factors, vector).solution;
+    const normX = vectorNormInf(x);
+    const normInput = target === 'A' ? normInf(matrix) : vectorNormInf(vector);
+    if (normX === 0 || normInput === 0) {
+        throw new Error("The perturbation experiment needs a nonzero b, so that x is not zero.");
+    }
+
+    const random = createRandom(seed);
+    const noise = () => 2 * random() - 1;
+    const points: PerturbationPoint[] = [];
+
+    for (const size of sizes) {
+        for (let trial = 0; trial < trials; trial++) {
+            let perturbed: Vector;
+            let inputChange: number;
+            if (target === 'A') {
+                const E = matrix.map(row => row.map(noise));
+                const scale = size * normInput / (normInf(E) || 1);
+                const delta = E.map(row => row.map(val => val * scale));
+                const perturbedFactors = factorizeLU(matrix.map((row, i) => row.map((val, j) => val + delta[i][j])), { pivoting: 'partial' });
+                if (!perturbedFactors.complete) continue;
+                perturbed = solveLU(perturbedFactors, vector).solution;
+                inputChange = normInf(delta) / normInput;
+            } else {
+                const e = vector.map(noise);
+                const scale = size * normInput / (vectorNormInf(e) || 1);
+                const delta = e.map(val => val * scale);
+                perturbed = solveLU(factors, vector.map((val, i) => val + delta[i])).solution;
+                inputChange = vectorNormInf(delta) / normInput;
+            }
+            const outputChange = vectorNormInf(perturbed.map((val, i) => val - x[i])) / normX;
+            if (inputChange > 0 && Number.isFinite(outputChange)) {
+                points.push({ inputChange, outputChange });
+            }
+        }
+    }
+
+    return {
+        target,
+        points,
+        conditionInf: normInf(matrix) * normInf(inverse),
+        maxAmplification: Math.max(0, ...points.map(p => p.outputChange / p.inputChange)),
+    };
+};
@@ -0,0 +1,84 @@
+import { Fraction } from './fraction';
+import {
+    describeSingularityField,
+    factorizeLUField,
+    invertMatrixField,
+    solveGaussEliminationField,
+    solveGaussJordanField,
+    solveLUField,
+    solveLUFactorizationField,
+    solveLUFactorizationMultipleField,
+} from './fieldSolver';
+import type { Field, FieldInverseResult, FieldLUFactorization, FieldSolverResult } from './fieldSolver';
+import type { Matrix, Vector, SolverOptions, Singularity } from './solver';
+
+export type FractionMatrix = Fraction[][];
+export type FractionVector = Fraction[];
+
+export type ExactSolverResult = FieldSolverResult<Fraction>;
+export type ExactInverseResult = FieldInverseResult<Fraction>;
+export type ExactLUFactorization = FieldLUFactorization<Fraction>;
+
+export const toFractionMatrix = (matrix: Matrix): FractionMatrix =>
+    matrix.map(row => row.map(Fraction.fromNumber));
+
+export const toFractionVector = (vector: Vector): FractionVector => vector.map(Fraction.fromNumber);
+
+// Pivots follow the same pivoting strategy as the float version, but every zero test is exact:
+// there is no EPSILON here, and any nonzero value stays a usable pivot even if its float underflows.
+const magnitude = (value: Fraction) => (value.isZero() ? 0 : Math.max(Math.abs(value.toNumber()), Number.MIN_VALUE));
+
+const RATIONALS: Field<Fraction> = {
+    zero: Fraction.ZERO,
+    one: Fraction.ONE,
+    magnitude: () => magnitude,
+    negligible: value => value.isZero(),
+};
+
+/**
+ * Gaussian Elimination in exact rational arithmetic.
+ */
+export const solveGaussEliminationExact = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): ExactSolverResult =>
+    solveGaussEliminationField(RATIONALS, toFractionMatrix(matrix), toFractionVector(vector), options);
+
+/**
+ * Gauss-Jordan Elimination in exact rational arithmetic.
+ */
+export const solveGaussJordanExact = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): ExactSolverResult =>
+    solveGaussJordanField(RATIONALS, toFractionMatrix(matrix), toFractionVector(vector), options);
+
+/**
+ * Exact counterpart of describeSingularity: the rank and dependencies come out as exact fractions.
+ */
+export const describeSingularityExact = (matrix: Matrix, column: number): Singularity<Fraction> =>
+    describeSingularityField(RATIONALS, toFractionMatrix(matrix), column);
+
+/**
+ * Exact counterpart of factorizeLU: P * A = L * U with Partial Pivoting, or P * A * Q = L * U with complete pivoting.
+ */
+export const factorizeLUExact = (matrix: Matrix, options: SolverOptions = {}): ExactLUFactorization =>
+    factorizeLUField(RATIONALS, toFractionMatrix(matrix), options);
+
+/**
+ * Exact counterpart of solveLU: forward then backward substitution with existing factors.
+ */
+export const solveLUExact = (factors: ExactLUFactorization, vector: Vector): { solution: FractionVector; y: FractionVector } =>
+    solveLUField(RATIONALS, factors, toFractionVector(vector));
+
+/**
+ * LU Factorization with Partial Pivoting (P * A = L * U) in exact rational arithmetic.
+ */
+export const solveLUFactorizationExact = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): ExactSolverResult =>
+    solveLUFactorizationField(RATIONALS, toFractionMatrix(matrix), toFractionVector(vector), options);
+
+/**
+ * Exact counterpart of solveLUFactorizationMultiple: one factorization, one result per right-hand side.
+ */
+export const solveLUFactorizationMultipleExact = (matrix: Matrix, columns: Vector[], options: SolverOptions = {}): ExactSolverResult[] =>
+    solveLUFactorizationMultipleField(RATIONALS, toFractionMatrix(matrix), columns.map(toFractionVector), options);
+
+/**
+ * Inverse via Gauss-Jordan on [A | I] in exact rational arithmetic.
+ */
+export const invertMatrixExact = (matrix: Matrix, options: SolverOptions = {}): ExactInverseResult =>
+    invertMatrixField(RATIONALS, toFractionMatrix(matrix), options);
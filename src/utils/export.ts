@@ -0,0 +1,275 @@
+import type { Matrix, Vector, SolutionStatus, GeneralSolution } from './solver';
+import { Fraction } from './fraction';
+import { Complex } from './complex';
+import { formatScalar, roundsToZero } from './format';
+import type { Scalar } from './format';
+
+export type ExportFormat = 'latex' | 'markdown' | 'json';
+
+/** An intermediate matrix of the report, e.g. { name: 'L', matrix }. */
+export interface ReportMatrix {
+    name: string;
+    matrix: Scalar[][];
+}
+
+/** Everything a report shows: the system, the method, its intermediate matrices and the solution. */
+export interface SolutionReport {
+    method: string;
+    A: Matrix;
+    b: Vector;
+    /** Column names, e.g. x1, x2, ... */
+    variables: string[];
+    status: SolutionStatus | null;
+    solution: Scalar[] | null;
+    general?: GeneralSolution<Scalar> | null;
+    /** L, U, P, A⁻¹, ... in the order the method produces them. */
+    matrices: ReportMatrix[];
+    /** ‖Ax − b‖₂ of the solution. */
+    residual?: number | null;
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; name: string; extension: string; mime: string }[] = [
+    { id: 'latex', name: 'LaTeX', extension: 'tex', mime: 'application/x-tex' },
+    { id: 'markdown', name: 'Markdown', extension: 'md', mime: 'text/markdown' },
+    { id: 'json', name: 'JSON', extension: 'json', mime: 'application/json' },
+];
+
+const STATUS_TEXT: Record<SolutionStatus, string> = {
+    unique: 'Unique solution',
+    infinite: 'Infinitely many solutions',
+    none: 'No solution',
+};
+
+const describeStatus = (report: SolutionReport) => (report.status ? STATUS_TEXT[report.status] : 'Solved');
+
+const hasResidual = (report: SolutionReport): report is SolutionReport & { residual: number } =>
+    report.residual !== null && report.residual !== undefined;
+
+// ---- LaTeX ----
+
+const latexScalar = (val: Scalar, digits: number) => {
+    if (val instanceof Fraction && !val.isInteger()) {
+        const sign = val.num < 0n ? '-' : '';
+        return `${sign}\\frac{${val.abs().num}}{${val.den}}`;
+    }
+    if (typeof val === 'number' && roundsToZero(val, digits)) {
+        const [mantissa, exponent] = val.toExponential(digits).split('e');
+        return `${mantissa} \\times 10^{${Number(exponent)}}`;
+    }
+    return formatScalar(val, digits);
+};
+
+const bmatrix = (rows: string[][]) => `\\begin{bmatrix} ${rows.map(row => row.join(' & ')).join(' \\\\ ')} \\end{bmatrix}`;
+
+const latexMatrix = (matrix: Scalar[][], digits: number) => bmatrix(matrix.map(row => row.map(val => latexScalar(val, digits))));
+
+const latexColumn = (values: Scalar[], digits: number) => latexMatrix(values.map(val => [val]), digits);
+
+// The UI writes names such as "A⁻¹" or "Lᵀ" in Unicode; LaTeX wants superscripts
+const latexName = (name: string) => name.replace(/⁻¹/g, '^{-1}').replace(/ᵀ/g, '^{T}');
+
+const latexVariable = (name: string) => name.replace(/^([a-zA-Z]+)(\d+)$/, '$1_{$2}');
+
+/**
+ * The report as a LaTeX fragment for amsmath: every matrix is a `bmatrix` in display math
+ * and exact fractions are written with `\frac`. Numbers too small for the chosen decimals are written as powers of ten.
+ */
+export const toLatex = (report: SolutionReport, digits: number): string => {
+    const lines = [
+        `% ${report.method}: ${describeStatus(report)}`,
+        `\\[ A = ${latexMatrix(report.A, digits)}, \\quad b = ${latexColumn(report.b, digits)} \\]`,
+        ...report.matrices.map(({ name, matrix }) => `\\[ ${latexName(name)} = ${latexMatrix(matrix, digits)} \\]`),
+    ];
+    if (report.status === 'infinite' && report.general) {
+        const { particular, basis, freeColumns } = report.general;
+        const terms = basis.map((v, k) => ` + t_{${k + 1}} ${latexColumn(v, digits)}`).join('');
+        const free = freeColumns.map((j, k) => `${latexVariable(report.variables[j])} = t_{${k + 1}}`).join(', ');
+        lines.push(`\\[ x = ${latexColumn(particular, digits)}${terms} \\]`, `% Free variables: ${free}`);
+    } else if (report.solution) {
+        const names = bmatrix(report.variables.map(name => [latexVariable(name)]));
+        lines.push(`\\[ ${names} = ${latexColumn(report.solution, digits)} \\]`);
+    }
+    if (hasResidual(report)) {
+        lines.push(`\\[ \\lVert Ax - b \\rVert_2 = ${report.residual.toExponential(4)} \\]`);
+    }
+    return lines.join('\n') + '\n';
+};
+
+// ---- Markdown ----
+
+const markdownTable = (header: string[], rows: string[][]) =>
+    [
+        `| ${header.join(' | ')} |`,
+        `| ${header.map(() => '---:').join(' | ')} |`,
+        ...rows.map(row => `| ${row.join(' | ')} |`),
+    ].join('\n');
+
+const markdownMatrix = (matrix: Scalar[][], digits: number) =>
+    markdownTable(
+        (matrix[0] ?? []).map((_, j) => `c${j + 1}`),
+        matrix.map(row => row.map(val => formatScalar(val, digits)))
+    );
+
+/**
+ * The report as Markdown: the augmented system, each intermediate matrix and the solution as tables.
+ */
+export const toMarkdown = (report: SolutionReport, digits: number): string => {
+    const sections = [
+        `## ${report.method}`,
+        `**Status:** ${describeStatus(report)}`,
+        '### System [A | b]',
+        markdownTable(
+            [...report.variables, 'b'],
+            report.A.map((row, i) => [...row, report.b[i]].map(val => formatScalar(val, digits)))
+        ),
+        ...report.matrices.flatMap(({ name, matrix }) => [`### ${name}`, markdownMatrix(matrix, digits)]),
+    ];
+    if (report.status === 'infinite' && report.general) {
+        const { particular, basis, freeColumns } = report.general;
+        sections.push(
+            '### General Solution',
+            markdownTable(
+                ['', 'particular', ...basis.map((_, k) => `t${k + 1}`)],
+                report.variables.map((name, i) => [name, ...[particular, ...basis].map(v => formatScalar(v[i], digits))])
+            ),
+            `Free variables: ${freeColumns.map((j, k) => `${report.variables[j]} = t${k + 1}`).join(', ')}`
+        );
+    } else if (report.solution) {
+        sections.push(
+            '### Solution',
+            markdownTable(['variable', 'value'], report.solution.map((val, i) => [report.variables[i], formatScalar(val, digits)]))
+        );
+    }
+    if (hasResidual(report)) {
+        sections.push(`Residual ‖Ax − b‖₂ = ${report.residual.toExponential(4)}`);
+    }
+    return sections.join('\n\n') + '\n';
+};
+
+// ---- JSON ----
+
+// Non-integer fractions stay exact as "p/q" strings and complex numbers are "a + bi" strings;
+// numbers are rounded to the chosen decimal places, or to as many significant digits when that would give 0
+const jsonScalar = (val: Scalar, digits: number): number | string => {
+    if (val instanceof Fraction) return val.isInteger() ? val.toNumber() : val.toString();
+    if (val instanceof Complex) return val.format(digits);
+    return roundsToZero(val, digits) ? Number(val.toExponential(digits)) : Number(val.toFixed(digits));
+};
+
+const jsonMatrix = (matrix: Scalar[][], digits: number) => matrix.map(row => row.map(val => jsonScalar(val, digits)));
+
+/**
+ * The report as a plain object, ready for JSON.stringify; the CLI combines several of them into one document.
+ */
+export const toJSONValue = (report: SolutionReport, digits: number) => ({
+    method: report.method,
+    status: report.status,
+    variables: report.variables,
+    A: report.A,
+    b: report.b,
+    matrices: Object.fromEntries(report.matrices.map(({ name, matrix }) => [name, jsonMatrix(matrix, digits)])),
+    solution: report.solution?.map(val => jsonScalar(val, digits)) ?? null,
+    general: report.general
+        ? {
+            particular: report.general.particular.map(val => jsonScalar(val, digits)),
+            basis: jsonMatrix(report.general.basis, digits),
+            freeVariables: report.general.freeColumns.map(j => report.variables[j]),
+        }
+        : undefined,
+    residual: report.residual ?? undefined,
+});
+
+/**
+ * The report as JSON, for scripts that post-process results.
+ */
+export const toJSON = (report: SolutionReport, digits: number): string =>
+    JSON.stringify(toJSONValue(report, digits), null, 2) + '\n';
+
+export const exportReport = (report: SolutionReport, format: ExportFormat, digits: number): string => {
+    switch (format) {
+        case 'latex':
+            return toLatex(report, digits);
+        case 'markdown':
+            return toMarkdown(report, digits);
+        case 'json':
+            return toJSON(report, digits);
+    }
+};
+
+// ---- Printable HTML ----
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlTable = (header: string[] | null, rows: string[][]) =>
+    `<table>${header ? `<thead><tr>${header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>` : ''}` +
+    `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const htmlMatrix = (name: string, matrix: Scalar[][], digits: number) =>
+    `<figure><figcaption>${escapeHtml(name)}</figcaption>${htmlTable(null, matrix.map(row => row.map(val => formatScalar(val, digits))))}</figure>`;
+
+const REPORT_STYLE = `
+body { font-family: system-ui, sans-serif; color: #1e293b; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; }
+.meta { color: #64748b; font-size: 0.875rem; }
+.matrices { display: flex; flex-wrap: wrap; gap: 1.5rem; }
+figure { margin: 0; break-inside: avoid; }
+figcaption { font-weight: 600; margin-bottom: 0.25rem; }
+table { border-collapse: collapse; font-family: ui-monospace, monospace; font-size: 0.875rem; }
+th, td { border: 1px solid #cbd5e1; padding: 0.25rem 0.6rem; text-align: right; }
+th { background: #f1f5f9; }
+@media print { body { margin: 0; } h2 { break-after: avoid; } }
+`;
+
+/**
+ * A standalone, print-optimized HTML page of the report. Printing it to PDF gives the deliverable directly.
+ */
+export const toHtmlReport = (report: SolutionReport, digits: number): string => {
+    const sections = [
+        `<h1>${escapeHtml(report.method)}</h1>`,
+        `<p class="meta">${escapeHtml(describeStatus(report))} · ${escapeHtml(new Date().toLocaleString())}</p>`,
+        '<h2>System [A | b]</h2>',
+        htmlTable(
+            [...report.variables, 'b'],
+            report.A.map((row, i) => [...row, report.b[i]].map(val => formatScalar(val, digits)))
+        ),
+    ];
+    if (report.matrices.length > 0) {
+        sections.push(
+            '<h2>Intermediate Matrices</h2>',
+            `<div class="matrices">${report.matrices.map(({ name, matrix }) => htmlMatrix(name, matrix, digits)).join('')}</div>`
+        );
+    }
+    if (report.status === 'infinite' && report.general) {
+        const { particular, basis, freeColumns } = report.general;
+        sections.push(
+            '<h2>General Solution</h2>',
+            htmlTable(
+                ['', 'particular', ...basis.map((_, k) => `t${k + 1}`)],
+                report.variables.map((name, i) => [name, ...[particular, ...basis].map(v => formatScalar(v[i], digits))])
+            ),
+            `<p>Free variables: ${escapeHtml(freeColumns.map((j, k) => `${report.variables[j]} = t${k + 1}`).join(', '))}</p>`
+        );
+    } else if (report.solution) {
+        sections.push(
+            '<h2>Solution</h2>',
+            htmlTable(['variable', 'value'], report.solution.map((val, i) => [report.variables[i], formatScalar(val, digits)]))
+        );
+    }
+    if (hasResidual(report)) {
+        sections.push(`<p>Residual ‖Ax − b‖₂ = ${report.residual.toExponential(4)}</p>`);
+    }
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.method)} report</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,221 @@
+import { assertSquare, solveGaussElimination } from './solver';
+import type { Matrix, Vector, SolverResult } from './solver';
+import { householderQR } from './leastSquares';
+import { identity, multiply, multiplyVector, transpose } from './matrix';
+
+export type QRMethod = 'householder' | 'gram-schmidt';
+
+/** One factor as shown in the UI, e.g. { name: 'L', matrix }. */
+export interface NamedFactor {
+    name: string;
+    matrix: Matrix;
+}
+
+export interface FactorizationResult extends SolverResult {
+    /** The factors in the order they are multiplied. */
+    factors: NamedFactor[];
+    /** The product the factors reproduce, e.g. "L · Lᵀ". */
+    product: string;
+    /** Largest entry of |A − product of the factors|. */
+    reconstructionError: number;
+    /** Largest entry of |QᵀQ − I|, for QR only: how far Q is from orthogonal. */
+    orthogonalityError?: number;
+}
+
+const EPSILON = 1e-10;
+
+const maxAbsDifference = (A: Matrix, B: Matrix) =>
+    Math.max(0, ...A.flatMap((row, i) => row.map((val, j) => Math.abs(val - B[i][j]))));
+
+const largestEntry = (matrix: Matrix) => Math.max(1, ...matrix.flat().map(Math.abs));
+
+const notPositiveDefinite = (method: string, detail: string) =>
+    new Error(`${method} requires a symmetric positive-definite matrix, but ${detail}.`);
+
+/** Cholesky and LDLᵀ read only the lower triangle, so A has to be symmetric (up to round-off). */
+const assertSymmetric = (matrix: Matrix, method: string) => {
+    assertSquare(matrix, method);
+    const tolerance = EPSILON * largestEntry(matrix);
+    for (let i = 0; i < matrix.length; i++) {
+        for (let j = i + 1; j < matrix.length; j++) {
+            if (Math.abs(matrix[i][j] - matrix[j][i]) > tolerance) {
+                throw notPositiveDefinite(method, `A is not symmetric (a${i + 1}${j + 1} ≠ a${j + 1}${i + 1})`);
+            }
+        }
+    }
+};
+
+/** Solves L * y = b for a lower triangular L. */
+const forwardSubstitute = (L: Matrix, b: Vector): Vector => {
+    const y = new Array(b.length).fill(0);
+    for (let i = 0; i < b.length; i++) {
+        let sum = 0;
+        for (let j = 0; j < i; j++) {
+            sum += L[i][j] * y[j];
+        }
+        y[i] = (b[i] - sum) / L[i][i];
+    }
+    return y;
+};
+
+/** Solves U * x = y for an upper triangular U. */
+const backSubstitute = (U: Matrix, y: Vector): Vector => {
+    const n = y.length;
+    const x = new Array(n).fill(0);
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = 0;
+        for (let j = i + 1; j < n; j++) {
+            sum += U[i][j] * x[j];
+        }
+        x[i] = (y[i] - sum) / U[i][i];
+    }
+    return x;
+};
+
+/**
+ * Cholesky factorization A = L * Lᵀ of a symmetric positive-definite matrix.
+ * A pivot that is not positive proves A is not positive definite, so the factorization doubles as the SPD check.
+ */
+export const choleskyFactor = (matrix: Matrix): Matrix => {
+    assertSymmetric(matrix, 'Cholesky');
+    const n = matrix.length;
+    const tolerance = EPSILON * largestEntry(matrix);
+    const L: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+
+    for (let j = 0; j < n; j++) {
+        let pivot = matrix[j][j];
+        for (let k = 0; k < j; k++) {
+            pivot -= L[j][k] * L[j][k];
+        }
+        if (pivot <= tolerance) {
+            throw notPositiveDefinite('Cholesky', `pivot ${j + 1} is ${pivot.toPrecision(4)} ≤ 0`);
+        }
+        L[j][j] = Math.sqrt(pivot);
+
+        for (let i = j + 1; i < n; i++) {
+            let sum = matrix[i][j];
+            for (let k = 0; k < j; k++) {
+                sum -= L[i][k] * L[j][k];
+            }
+            L[i][j] = sum / L[j][j];
+        }
+    }
+
+    return L;
+};
+
+/**
+ * LDLᵀ factorization A = L * D * Lᵀ with a unit lower triangular L and a diagonal D.
+ * Like Cholesky but without square roots; every d_k must be positive for an SPD matrix.
+ */
+export const ldltFactor = (matrix: Matrix): { L: Matrix; d: Vector } => {
+    assertSymmetric(matrix, 'LDLᵀ');
+    const n = matrix.length;
+    const tolerance = EPSILON * largestEntry(matrix);
+    const L = identity(n);
+    const d = new Array(n).fill(0);
+
+    for (let j = 0; j < n; j++) {
+        let pivot = matrix[j][j];
+        for (let k = 0; k < j; k++) {
+            pivot -= L[j][k] * L[j][k] * d[k];
+        }
+        if (pivot <= tolerance) {
+            throw notPositiveDefinite('LDLᵀ', `d${j + 1} is ${pivot.toPrecision(4)} ≤ 0`);
+        }
+        d[j] = pivot;
+
+        for (let i = j + 1; i < n; i++) {
+            let sum = matrix[i][j];
+            for (let k = 0; k < j; k++) {
+                sum -= L[i][k] * L[j][k] * d[k];
+            }
+            L[i][j] = sum / d[j];
+        }
+    }
+
+    return { L, d };
+};
+
+/**
+ * Modified Gram-Schmidt QR of an m×n matrix (m ≥ n): A = Q * R with Q m×n having orthonormal columns.
+ * Each new q_k is removed from all remaining columns at once, which loses far less orthogonality than classical Gram-Schmidt.
+ * A column that becomes (numerically) zero leaves r_kk = 0 and a zero q_k.
+ */
+export const gramSchmidtQR = (matrix: Matrix): { Q: Matrix; R: Matrix } => {
+    const m = matrix.length;
+    const n = matrix[0]?.length ?? 0;
+    const V = transpose(matrix);
+    const columns: Matrix = [];
+    const R: Matrix = Array.from({ length: n }, () => new Array(n).fill(0));
+    const tolerance = EPSILON * largestEntry(matrix);
+
+    for (let k = 0; k < n; k++) {
+        const norm = Math.hypot(...V[k]);
+        R[k][k] = norm < tolerance ? 0 : norm;
+        columns[k] = R[k][k] === 0 ? new Array(m).fill(0) : V[k].map(val => val / norm);
+        for (let j = k + 1; j < n; j++) {
+            R[k][j] = columns[k].reduce((sum, q, i) => sum + q * V[j][i], 0);
+            V[j] = V[j].map((val, i) => val - R[k][j] * columns[k][i]);
+        }
+    }
+
+    return { Q: transpose(columns), R };
+};
+
+/**
+ * Solves A * x = b with A = L * Lᵀ: L * y = b, then Lᵀ * x = y.
+ */
+export const solveCholesky = (matrix: Matrix, vector: Vector): FactorizationResult => {
+    const L = choleskyFactor(matrix);
+    const Lt = transpose(L);
+    const y = forwardSubstitute(L, vector);
+    return {
+        status: 'unique',
+        solution: backSubstitute(Lt, y),
+        factors: [{ name: 'L', matrix: L }, { name: 'Lᵀ', matrix: Lt }],
+        product: 'L · Lᵀ',
+        reconstructionError: maxAbsDifference(matrix, multiply(L, Lt)),
+    };
+};
+
+/**
+ * Solves A * x = b with A = L * D * Lᵀ: L * z = b, D * y = z, then Lᵀ * x = y.
+ */
+export const solveLDLT = (matrix: Matrix, vector: Vector): FactorizationResult => {
+    const { L, d } = ldltFactor(matrix);
+    const D = d.map((val, i) => d.map((_, j) => (i === j ? val : 0)));
+    const Lt = transpose(L);
+    const y = forwardSubstitute(L, vector).map((val, i) => val / d[i]);
+    return {
+        status: 'unique',
+        solution: backSubstitute(Lt, y),
+        factors: [{ name: 'L', matrix: L }, { name: 'D', matrix: D }, { name: 'Lᵀ', matrix: Lt }],
+        product: 'L · D · Lᵀ',
+        reconstructionError: maxAbsDifference(matrix, multiply(multiply(L, D), Lt)),
+    };
+};
+
+/**
+ * Solves a square system with A = Q * R: R * x = Qᵀ * b by back substitution.
+ * A singular A (a zero on the diagonal of R) falls back to Gaussian Elimination for the status, like LU.
+ */
+export const solveQR = (matrix: Matrix, vector: Vector, method: QRMethod = 'householder'): FactorizationResult => {
+    assertSquare(matrix, 'QR Factorization');
+    const { Q, R } = method === 'householder' ? householderQR(matrix) : gramSchmidtQR(matrix);
+    const Qt = transpose(Q);
+    const details = {
+        factors: [{ name: 'Q', matrix: Q }, { name: 'R', matrix: R }],
+        product: 'Q · R',
+        reconstructionError: maxAbsDifference(matrix, multiply(Q, R)),
+        orthogonalityError: maxAbsDifference(multiply(Qt, Q), identity(Q[0]?.length ?? 0)),
+    };
+
+    const tolerance = EPSILON * largestEntry(matrix);
+    if (R.some((row, i) => Math.abs(row[i]) < tolerance)) {
+        return { ...solveGaussElimination(matrix, vector), ...details };
+    }
+
+    const y = multiplyVector(Qt, vector);
+    return { status: 'unique', solution: backSubstitute(R, y), ...details };
+};
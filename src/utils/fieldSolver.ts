@@ -0,0 +1,470 @@
+import { assertSquare, columnPermutation, createRecorder, rowScales, selectPivot, swapColumns, unpermute, unpermuteGeneral } from './solver';
+import type { Matrix, SolutionStatus, SolverOptions, TraceStep, GeneralSolution, PivotingStrategy, Singularity } from './solver';
+
+/** The arithmetic the generic solvers need. `Fraction` and `Complex` implement it. */
+export interface FieldValue<T> {
+    add(other: T): T;
+    sub(other: T): T;
+    mul(other: T): T;
+    div(other: T): T;
+    isZero(): boolean;
+    equals(other: T): boolean;
+}
+
+/**
+ * A number field for the solvers below. It provides the constants, the size that pivoting compares,
+ * and the test that decides whether a leftover entry of the reduced system counts as zero.
+ */
+export interface Field<T extends FieldValue<T>> {
+    zero: T;
+    one: T;
+    /** Pivot size under `strategy`. It is exactly 0 for a value that cannot be a pivot, as selectPivot expects. */
+    magnitude: (strategy: PivotingStrategy) => (value: T) => number;
+    /** Whether a leftover value counts as zero when the system is classified. */
+    negligible: (value: T) => boolean;
+}
+
+export interface FieldSolverResult<T> {
+    status: SolutionStatus;
+    solution?: T[];
+    L?: T[][];
+    U?: T[][];
+    P?: Matrix;
+    Q?: Matrix;
+    y?: T[];
+    general?: GeneralSolution<T>;
+    singular?: Singularity<T>;
+    trace?: TraceStep<T>[];
+}
+
+export interface FieldInverseResult<T> {
+    inverse: T[][] | null;
+    singular?: Singularity<T>;
+    trace?: TraceStep<T>[];
+}
+
+export interface FieldLUFactorization<T> {
+    L: T[][];
+    U: T[][];
+    P: Matrix;
+    Q?: Matrix;
+    complete: boolean;
+    singular?: Singularity<T>;
+    trace?: TraceStep<T>[];
+}
+
+// These solvers follow the floating-point ones in solver.ts step for step, so P, Q and the trace match.
+// solver.ts keeps its own number loops because it counts flops and must stay fast for large n.
+
+const identity = <T extends FieldValue<T>>(field: Field<T>, n: number): T[][] =>
+    Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? field.one : field.zero)));
+
+const augment = <T>(A: T[][], b: T[]): T[][] => A.map((row, i) => [...row, b[i]]);
+
+const copy = <T>(A: T[][]): T[][] => A.map(row => [...row]);
+
+/**
+ * Field counterpart of buildGeneralSolution in solver.ts: particular solution plus null-space basis
+ * read off a row echelon form whose row r has its pivot in pivotColumns[r].
+ */
+const buildGeneralSolution = <T extends FieldValue<T>>(field: Field<T>, A: T[][], b: T[], pivotColumns: number[]): GeneralSolution<T> => {
+    const n = A[0].length;
+    const freeColumns = Array.from({ length: n }, (_, j) => j).filter(j => !pivotColumns.includes(j));
+
+    const backSubstitute = (rhs: T[], freeValues: T[]) => {
+        const x: T[] = new Array(n).fill(field.zero);
+        freeColumns.forEach((col, k) => {
+            x[col] = freeValues[k];
+        });
+        for (let r = pivotColumns.length - 1; r >= 0; r--) {
+            const p = pivotColumns[r];
+            let sum = field.zero;
+            for (let j = p + 1; j < n; j++) {
+                sum = sum.add(A[r][j].mul(x[j]));
+            }
+            x[p] = rhs[r].sub(sum).div(A[r][p]);
+        }
+        return x;
+    };
+
+    const zeros: T[] = new Array(b.length).fill(field.zero);
+    return {
+        particular: backSubstitute(b, freeColumns.map(() => field.zero)),
+        basis: freeColumns.map((_, k) => backSubstitute(zeros, freeColumns.map((_, m) => (m === k ? field.one : field.zero)))),
+        pivotColumns,
+        freeColumns,
+    };
+};
+
+/**
+ * Gaussian Elimination over `field`.
+ */
+export const solveGaussEliminationField = <T extends FieldValue<T>>(
+    field: Field<T>,
+    matrix: T[][],
+    vector: T[],
+    options: SolverOptions = {},
+): FieldSolverResult<T> => {
+    const m = matrix.length;
+    const n = matrix[0]?.length ?? 0;
+    const A = copy(matrix);
+    const b = [...vector];
+    const recorder = createRecorder<T>(options.trace, () => augment(A, b), n);
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = field.magnitude(strategy);
+    const scales = rowScales(A, magnitude);
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+
+    let pivotRow = 0;
+    const pivotColumns: number[] = [];
+
+    for (let col = 0; col < n && pivotRow < m; col++) {
+        const choice = selectPivot(A, pivotRow, col, strategy, magnitude, scales);
+        if (!choice) {
+            continue;
+        }
+
+        const pivot = { row: pivotRow, col };
+        if (choice.col !== col) {
+            swapColumns(A, col, choice.col);
+            [columnOrder[col], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[col]];
+            recorder.swapColumns(col, choice.col, pivot);
+        }
+
+        const maxRow = choice.row;
+        if (maxRow !== pivotRow) {
+            [A[pivotRow], A[maxRow]] = [A[maxRow], A[pivotRow]];
+            [b[pivotRow], b[maxRow]] = [b[maxRow], b[pivotRow]];
+            [scales[pivotRow], scales[maxRow]] = [scales[maxRow], scales[pivotRow]];
+            recorder.swap(pivotRow, maxRow, pivot);
+        }
+
+        // Operation: R_i = R_i - factor * R_pivotRow
+        for (let i = pivotRow + 1; i < m; i++) {
+            const factor = A[i][col].div(A[pivotRow][col]);
+            if (factor.isZero()) continue;
+            A[i][col] = field.zero;
+            for (let k = col + 1; k < n; k++) {
+                A[i][k] = A[i][k].sub(factor.mul(A[pivotRow][k]));
+            }
+            b[i] = b[i].sub(factor.mul(b[pivotRow]));
+            recorder.eliminate(i, pivotRow, factor, pivot);
+        }
+
+        pivotColumns.push(col);
+        pivotRow++;
+    }
+
+    const trace = recorder.steps;
+
+    for (let i = pivotRow; i < m; i++) {
+        if (!field.negligible(b[i])) {
+            return { status: 'none', trace };
+        }
+    }
+
+    if (pivotRow < n) {
+        return { status: 'infinite', general: unpermuteGeneral(buildGeneralSolution(field, A, b, pivotColumns), columnOrder), trace };
+    }
+
+    // Back Substitution
+    const x: T[] = new Array(n).fill(field.zero);
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = field.zero;
+        for (let j = i + 1; j < n; j++) {
+            sum = sum.add(A[i][j].mul(x[j]));
+        }
+        x[i] = b[i].sub(sum).div(A[i][i]);
+    }
+
+    return { status: 'unique', solution: unpermute(x, columnOrder), trace };
+};
+
+/**
+ * Gauss-Jordan Elimination over `field`.
+ */
+export const solveGaussJordanField = <T extends FieldValue<T>>(
+    field: Field<T>,
+    matrix: T[][],
+    vector: T[],
+    options: SolverOptions = {},
+): FieldSolverResult<T> => {
+    const m = matrix.length;
+    const n = matrix[0]?.length ?? 0;
+    const A = copy(matrix);
+    const b = [...vector];
+    const recorder = createRecorder<T>(options.trace, () => augment(A, b), n);
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = field.magnitude(strategy);
+    const scales = rowScales(A, magnitude);
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+
+    let pivotRow = 0;
+    const pivotColumns: number[] = [];
+
+    for (let col = 0; col < n && pivotRow < m; col++) {
+        const choice = selectPivot(A, pivotRow, col, strategy, magnitude, scales);
+        if (!choice) {
+            continue;
+        }
+
+        const position = { row: pivotRow, col };
+        if (choice.col !== col) {
+            swapColumns(A, col, choice.col);
+            [columnOrder[col], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[col]];
+            recorder.swapColumns(col, choice.col, position);
+        }
+
+        const maxRow = choice.row;
+        if (maxRow !== pivotRow) {
+            [A[pivotRow], A[maxRow]] = [A[maxRow], A[pivotRow]];
+            [b[pivotRow], b[maxRow]] = [b[maxRow], b[pivotRow]];
+            [scales[pivotRow], scales[maxRow]] = [scales[maxRow], scales[pivotRow]];
+            recorder.swap(pivotRow, maxRow, position);
+        }
+
+        // Operation: R_pivot = R_pivot / pivotValue
+        const pivot = A[pivotRow][col];
+        for (let j = col; j < n; j++) {
+            A[pivotRow][j] = A[pivotRow][j].div(pivot);
+        }
+        b[pivotRow] = b[pivotRow].div(pivot);
+        if (!pivot.equals(field.one)) recorder.scale(pivotRow, pivot, position);
+
+        for (let i = 0; i < m; i++) {
+            if (i !== pivotRow) {
+                const factor = A[i][col];
+                if (factor.isZero()) continue;
+                for (let j = col; j < n; j++) {
+                    A[i][j] = A[i][j].sub(factor.mul(A[pivotRow][j]));
+                }
+                b[i] = b[i].sub(factor.mul(b[pivotRow]));
+                recorder.eliminate(i, pivotRow, factor, position);
+            }
+        }
+        pivotColumns.push(col);
+        pivotRow++;
+    }
+
+    const trace = recorder.steps;
+
+    for (let i = 0; i < m; i++) {
+        const rowIsZero = A[i].every(field.negligible);
+        if (rowIsZero && !field.negligible(b[i])) {
+            return { status: 'none', trace };
+        }
+    }
+
+    if (pivotRow < n) {
+        return { status: 'infinite', general: unpermuteGeneral(buildGeneralSolution(field, A, b, pivotColumns), columnOrder), trace };
+    }
+
+    return { status: 'unique', solution: unpermute(b.slice(0, n), columnOrder), trace };
+};
+
+/**
+ * Field counterpart of describeSingularity: rank and dependencies from the homogeneous systems.
+ * The row dependency uses the plain transpose, so Σ r_i · (row i of A) = 0 as written.
+ */
+export const describeSingularityField = <T extends FieldValue<T>>(field: Field<T>, matrix: T[][], column: number): Singularity<T> => {
+    const zeros: T[] = new Array(matrix.length).fill(field.zero);
+    const columns = solveGaussEliminationField(field, matrix, zeros).general;
+    const rows = solveGaussEliminationField(field, matrix[0].map((_, j) => matrix.map(row => row[j])), zeros).general;
+    return {
+        column,
+        rank: matrix.length - (columns?.basis.length ?? 0),
+        determinant: 0,
+        columnDependency: columns?.basis[0] ?? zeros,
+        rowDependency: rows?.basis[0] ?? zeros,
+    };
+};
+
+/**
+ * Field counterpart of factorizeLU: P * A = L * U with Partial Pivoting, or P * A * Q = L * U with complete pivoting.
+ */
+export const factorizeLUField = <T extends FieldValue<T>>(field: Field<T>, matrix: T[][], options: SolverOptions = {}): FieldLUFactorization<T> => {
+    assertSquare(matrix, 'LU Factorization');
+    const n = matrix.length;
+    const U = copy(matrix);
+    const L = identity(field, n);
+    const P: Matrix = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+    const recorder = createRecorder<T>(options.trace, () => copy(U));
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = field.magnitude(strategy);
+    const scales = rowScales(U, magnitude);
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+    const Q = () => (strategy === 'complete' ? columnPermutation(columnOrder) : undefined);
+
+    for (let k = 0; k < n; k++) {
+        const choice = selectPivot(U, k, k, strategy, magnitude, scales);
+        if (!choice) {
+            return { L, U, P, Q: Q(), complete: false, singular: describeSingularityField(field, matrix, columnOrder[k]), trace: recorder.steps };
+        }
+
+        if (choice.col !== k) {
+            swapColumns(U, k, choice.col);
+            [columnOrder[k], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[k]];
+            recorder.swapColumns(k, choice.col, { row: k, col: k });
+        }
+
+        const pivotRow = choice.row;
+        if (pivotRow !== k) {
+            [U[k], U[pivotRow]] = [U[pivotRow], U[k]];
+            [P[k], P[pivotRow]] = [P[pivotRow], P[k]];
+            [scales[k], scales[pivotRow]] = [scales[pivotRow], scales[k]];
+            for (let j = 0; j < k; j++) {
+                [L[k][j], L[pivotRow][j]] = [L[pivotRow][j], L[k][j]];
+            }
+            recorder.swap(k, pivotRow, { row: k, col: k });
+        }
+
+        for (let i = k + 1; i < n; i++) {
+            const factor = U[i][k].div(U[k][k]);
+            L[i][k] = factor;
+            U[i][k] = field.zero;
+            for (let j = k + 1; j < n; j++) {
+                U[i][j] = U[i][j].sub(factor.mul(U[k][j]));
+            }
+            if (!factor.isZero()) recorder.eliminate(i, k, factor, { row: k, col: k });
+        }
+    }
+
+    if (options.luForm === 'crout') {
+        // Rescale into Crout form by moving diag(U) into L, recording each row division as the float version does
+        for (let k = 0; k < n; k++) {
+            const d = U[k][k];
+            for (let i = k; i < n; i++) L[i][k] = L[i][k].mul(d);
+            for (let j = k; j < n; j++) U[k][j] = U[k][j].div(d);
+            if (!d.equals(field.one)) recorder.scale(k, d, { row: k, col: k });
+        }
+    }
+
+    return { L, U, P, Q: Q(), complete: true, trace: recorder.steps };
+};
+
+/**
+ * Field counterpart of solveLU: forward then backward substitution with existing factors.
+ */
+export const solveLUField = <T extends FieldValue<T>>(field: Field<T>, factors: FieldLUFactorization<T>, vector: T[]): { solution: T[]; y: T[] } => {
+    const { L, U, P, Q } = factors;
+    const n = L.length;
+    const Pb = P.map(row => vector[row.indexOf(1)]);
+
+    // Forward Substitution: Solve L * y = P * b
+    const y: T[] = new Array(n).fill(field.zero);
+    for (let i = 0; i < n; i++) {
+        let sum = field.zero;
+        for (let j = 0; j < i; j++) {
+            sum = sum.add(L[i][j].mul(y[j]));
+        }
+        y[i] = Pb[i].sub(sum).div(L[i][i]);
+    }
+
+    // Backward Substitution: Solve U * x = y
+    const x: T[] = new Array(n).fill(field.zero);
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = field.zero;
+        for (let j = i + 1; j < n; j++) {
+            sum = sum.add(U[i][j].mul(x[j]));
+        }
+        x[i] = y[i].sub(sum).div(U[i][i]);
+    }
+
+    return { solution: Q ? Q.map(row => x[row.indexOf(1)]) : x, y };
+};
+
+const singularLUResult = <T extends FieldValue<T>>(
+    field: Field<T>,
+    matrix: T[][],
+    vector: T[],
+    factors: FieldLUFactorization<T>,
+    options: SolverOptions,
+): FieldSolverResult<T> => {
+    const { status, general } = solveGaussEliminationField(field, matrix, vector, { ...options, trace: false });
+    const { L, U, P, Q, singular, trace } = factors;
+    return { status, general, L, U, P, Q, singular, trace };
+};
+
+/**
+ * LU Factorization with Partial Pivoting (P * A = L * U) over `field`.
+ * Like the float version, a singular matrix returns the partial factors and `singular`,
+ * and Gaussian Elimination over the same field classifies the system.
+ */
+export const solveLUFactorizationField = <T extends FieldValue<T>>(
+    field: Field<T>,
+    matrix: T[][],
+    vector: T[],
+    options: SolverOptions = {},
+): FieldSolverResult<T> => solveLUFactorizationMultipleField(field, matrix, [vector], options)[0];
+
+/**
+ * Field counterpart of solveLUFactorizationMultiple: one factorization, one result per right-hand side.
+ */
+export const solveLUFactorizationMultipleField = <T extends FieldValue<T>>(
+    field: Field<T>,
+    matrix: T[][],
+    columns: T[][],
+    options: SolverOptions = {},
+): FieldSolverResult<T>[] => {
+    const factors = factorizeLUField(field, matrix, options);
+    if (!factors.complete) {
+        return columns.map(vector => singularLUResult(field, matrix, vector, factors, options));
+    }
+    const { L, U, P, Q, trace } = factors;
+    return columns.map(vector => ({ status: 'unique', ...solveLUField(field, factors, vector), L, U, P, Q, trace }));
+};
+
+/**
+ * Inverse via Gauss-Jordan on [A | I] over `field`.
+ */
+export const invertMatrixField = <T extends FieldValue<T>>(field: Field<T>, matrix: T[][], options: SolverOptions = {}): FieldInverseResult<T> => {
+    assertSquare(matrix, 'Matrix inversion');
+    const n = matrix.length;
+    const A = copy(matrix);
+    const I = identity(field, n);
+    const recorder = createRecorder<T>(options.trace, () => A.map((row, i) => [...row, ...I[i]]), n);
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = field.magnitude(strategy);
+    const scales = rowScales(A, magnitude);
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+
+    for (let i = 0; i < n; i++) {
+        const choice = selectPivot(A, i, i, strategy, magnitude, scales);
+        if (!choice) return { inverse: null, singular: describeSingularityField(field, matrix, columnOrder[i]), trace: recorder.steps };
+
+        const position = { row: i, col: i };
+        if (choice.col !== i) {
+            swapColumns(A, i, choice.col);
+            [columnOrder[i], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[i]];
+            recorder.swapColumns(i, choice.col, position);
+        }
+
+        const maxRow = choice.row;
+        if (maxRow !== i) {
+            [A[i], A[maxRow]] = [A[maxRow], A[i]];
+            [I[i], I[maxRow]] = [I[maxRow], I[i]];
+            [scales[i], scales[maxRow]] = [scales[maxRow], scales[i]];
+            recorder.swap(i, maxRow, position);
+        }
+
+        const pivot = A[i][i];
+        for (let j = 0; j < n; j++) {
+            A[i][j] = A[i][j].div(pivot);
+            I[i][j] = I[i][j].div(pivot);
+        }
+        if (!pivot.equals(field.one)) recorder.scale(i, pivot, position);
+
+        for (let k = 0; k < n; k++) {
+            if (k !== i) {
+                const factor = A[k][i];
+                if (factor.isZero()) continue;
+                for (let j = 0; j < n; j++) {
+                    A[k][j] = A[k][j].sub(factor.mul(A[i][j]));
+                    I[k][j] = I[k][j].sub(factor.mul(I[i][j]));
+                }
+                recorder.eliminate(k, i, factor, position);
+            }
+        }
+    }
+    return { inverse: unpermute(I, columnOrder), trace: recorder.steps };
+};
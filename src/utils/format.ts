@@ -0,0 +1,29 @@
+import { Fraction } from './fraction';
+import { Complex } from './complex';
+
+/** A displayed matrix entry: a float from the numeric solvers, a fraction from exact mode or a complex number. */
+export type Scalar = number | Fraction | Complex;
+
+/** Whether a nonzero number would print as 0 with `digits` decimals, like the 1e-17 pivot of the pivoting example. */
+export const roundsToZero = (val: number, digits: number): boolean => val !== 0 && Number(val.toFixed(digits)) === 0;
+
+/**
+ * Formats a value for display. Fractions are shown reduced (e.g. -7/3),
+ * numbers as integers or with a fixed number of decimals, complex numbers as a + bi.
+ * A tiny nonzero number is shown in exponential notation (1.0000e-17), so it is never mistaken for a zero.
+ */
+export const formatScalar = (val: Scalar, digits = 4): string => {
+    if (val instanceof Fraction) return val.toString();
+    if (val instanceof Complex) return val.format(digits);
+    // Avoid printing "-0" for entries that were eliminated
+    if (val === 0) return '0';
+    if (roundsToZero(val, digits)) return val.toExponential(digits);
+    return Number.isInteger(val) ? String(val) : val.toFixed(digits);
+};
+
+/** The value as a float; a complex number with a nonzero imaginary part has none and gives NaN. */
+export const toNumber = (val: Scalar): number => {
+    if (val instanceof Fraction) return val.toNumber();
+    if (val instanceof Complex) return val.im === 0 ? val.re : NaN;
+    return val;
+};
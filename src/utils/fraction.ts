@@ -0,0 +1,154 @@
+import type { FieldValue } from './fieldSolver';
+
+const gcd = (a: bigint, b: bigint): bigint => {
+    a = a < 0n ? -a : a;
+    b = b < 0n ? -b : b;
+    while (b !== 0n) {
+        [a, b] = [b, a % b];
+    }
+    return a;
+};
+
+// Fractions with larger denominators are not guessed from floats; the decimal expansion is used instead.
+const MAX_RECOVERED_DENOMINATOR = 1_000_000;
+
+const bitLength = (value: bigint) => (value < 0n ? -value : value).toString(2).length;
+
+/**
+ * An exact rational number backed by BigInt.
+ * Values are always kept reduced with a positive denominator, so equal fractions compare equal field-by-field.
+ */
+export class Fraction implements FieldValue<Fraction> {
+    readonly num: bigint;
+    readonly den: bigint;
+
+    constructor(num: bigint, den: bigint = 1n) {
+        if (den === 0n) {
+            throw new Error('Fraction denominator cannot be zero.');
+        }
+        if (den < 0n) {
+            num = -num;
+            den = -den;
+        }
+        const divisor = gcd(num, den) || 1n;
+        this.num = num / divisor;
+        this.den = den / divisor;
+    }
+
+    static readonly ZERO = new Fraction(0n);
+    static readonly ONE = new Fraction(1n);
+
+    /**
+     * Converts a JS number to the fraction it most plausibly stands for.
+     * A small fraction whose float is exactly `value` wins (so 1/3 entered as 0.3333333333333333 becomes 1/3),
+     * otherwise the shortest decimal representation is used, so 0.1 becomes 1/10 rather than the nearest binary float.
+     */
+    static fromNumber(value: number): Fraction {
+        if (!Number.isFinite(value)) {
+            throw new Error(`Cannot convert ${value} to a fraction.`);
+        }
+        const decimal = Fraction.parse(String(value));
+        if (decimal.isInteger()) return decimal;
+
+        // Walk the continued-fraction convergents h/k of |value|
+        const target = Math.abs(value);
+        let [h0, h1, k0, k1] = [0, 1, 1, 0];
+        let rest = target;
+        for (let step = 0; step < 32; step++) {
+            const a = Math.floor(rest);
+            [h0, h1] = [h1, a * h1 + h0];
+            [k0, k1] = [k1, a * k1 + k0];
+            if (k1 > MAX_RECOVERED_DENOMINATOR) break;
+            if (h1 / k1 === target) {
+                const recovered = new Fraction(BigInt(value < 0 ? -h1 : h1), BigInt(k1));
+                return recovered.den < decimal.den ? recovered : decimal;
+            }
+            const fractional = rest - a;
+            if (fractional === 0) break;
+            rest = 1 / fractional;
+        }
+        return decimal;
+    }
+
+    /**
+     * Parses integers, decimals, scientific notation and "p/q" strings.
+     */
+    static parse(text: string): Fraction {
+        const trimmed = text.trim();
+        const slash = trimmed.indexOf('/');
+        if (slash !== -1) {
+            return Fraction.parse(trimmed.slice(0, slash)).div(Fraction.parse(trimmed.slice(slash + 1)));
+        }
+
+        const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(trimmed);
+        if (!match || (match[2] === '' && !match[3])) {
+            throw new Error(`"${text}" is not a valid number.`);
+        }
+        const [, sign, whole, decimals = '', exponentText] = match;
+        const exponent = Number(exponentText ?? 0) - decimals.length;
+        let num = BigInt((whole || '0') + decimals);
+        let den = 1n;
+        if (exponent >= 0) {
+            num *= 10n ** BigInt(exponent);
+        } else {
+            den = 10n ** BigInt(-exponent);
+        }
+        return new Fraction(sign === '-' ? -num : num, den);
+    }
+
+    add(other: Fraction): Fraction {
+        return new Fraction(this.num * other.den + other.num * this.den, this.den * other.den);
+    }
+
+    sub(other: Fraction): Fraction {
+        return new Fraction(this.num * other.den - other.num * this.den, this.den * other.den);
+    }
+
+    mul(other: Fraction): Fraction {
+        return new Fraction(this.num * other.num, this.den * other.den);
+    }
+
+    div(other: Fraction): Fraction {
+        if (other.num === 0n) {
+            throw new Error('Division by zero.');
+        }
+        return new Fraction(this.num * other.den, this.den * other.num);
+    }
+
+    neg(): Fraction {
+        return new Fraction(-this.num, this.den);
+    }
+
+    abs(): Fraction {
+        return this.num < 0n ? this.neg() : this;
+    }
+
+    isZero(): boolean {
+        return this.num === 0n;
+    }
+
+    isInteger(): boolean {
+        return this.den === 1n;
+    }
+
+    /** Returns -1, 0 or 1 like a sort comparator. */
+    compare(other: Fraction): number {
+        const diff = this.num * other.den - other.num * this.den;
+        return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+    }
+
+    equals(other: Fraction): boolean {
+        return this.num === other.num && this.den === other.den;
+    }
+
+    toNumber(): number {
+        // Shift both parts down first so very large numerators/denominators do not overflow to Infinity
+        const shift = Math.max(0, Math.max(bitLength(this.num), bitLength(this.den)) - 1000);
+        const scale = BigInt(shift);
+        return Number(this.num >> scale) / Number(this.den >> scale);
+    }
+
+    toString(): string {
+        return this.den === 1n ? this.num.toString() : `${this.num}/${this.den}`;
+    }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { GENERATORS, generateMatrix, generateSystem, solutionError } from './generators';
+import { rank } from './diagnostics';
+import { solveCholesky } from './factorizations';
+import { solveGaussElimination } from './solver';
+import { multiplyVector } from './matrix';
+
+describe('matrix generators', () => {
+    it.each(GENERATORS.map(generator => generator.id))('%s is reproducible from its seed', (kind) => {
+        expect(generateMatrix(kind, 6, 42)).toEqual(generateMatrix(kind, 6, 42));
+    });
+
+    it('gives different random matrices for different seeds', () => {
+        expect(generateMatrix('random-integer', 6, 1)).not.toEqual(generateMatrix('random-integer', 6, 2));
+    });
+
+    it('builds b = A · x* for the known solution', () => {
+        const { A, b, solution } = generateSystem({ kind: 'random-integer', n: 5, seed: 7, solution: 'sequence' });
+        expect(solution).toEqual([1, 2, 3, 4, 5]);
+        expect(b).toEqual(multiplyVector(A, solution!));
+        expect(() => generateSystem({ kind: 'identity', n: 3, seed: 1, solution: 'custom', customSolution: [1, 2] })).toThrow(/3 numbers/);
+    });
+
+    it('keeps A when only the known solution changes', () => {
+        const ones = generateSystem({ kind: 'random', n: 4, seed: 3, solution: 'ones' });
+        const none = generateSystem({ kind: 'random', n: 4, seed: 3, solution: 'none' });
+        expect(none.A).toEqual(ones.A);
+        expect(none.solution).toBeNull();
+    });
+
+    it('makes the SPD matrix pass Cholesky and the singular one lose exactly one rank', () => {
+        const spd = generateSystem({ kind: 'random-spd', n: 8, seed: 5, solution: 'ones' });
+        expect(solveCholesky(spd.A, spd.b).status).toBe('unique');
+        const singular = generateSystem({ kind: 'random-singular', n: 6, seed: 5, solution: 'ones' });
+        expect(rank(singular.A)).toBe(5);
+        expect(solveGaussElimination(singular.A, singular.b).status).toBe('infinite');
+    });
+
+    it('builds the classic deterministic matrices', () => {
+        expect(generateMatrix('hilbert', 2, 0)).toEqual([[1, 1 / 2], [1 / 2, 1 / 3]]);
+        expect(generateMatrix('vandermonde', 3, 0)).toEqual([[1, 1, 1], [1, 2, 4], [1, 3, 9]]);
+        expect(generateMatrix('tridiagonal', 3, 0)).toEqual([[2, -1, 0], [-1, 2, -1], [0, -1, 2]]);
+    });
+
+    it('measures ‖x − x*‖∞ absolutely and relative to x*', () => {
+        expect(solutionError([1, 2.5], [1, 2])).toEqual({ absolute: 0.5, relative: 0.25 });
+        expect(solutionError([0.5], [0]).relative).toBeNull();
+    });
+});
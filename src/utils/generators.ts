@@ -0,0 +1,163 @@
+import type { Matrix, Vector } from './solver';
+import { multiplyVector } from './matrix';
+
+// Classic test matrices for the solvers, reproducible from a seed.
+
+export type GeneratorKind =
+    | 'random'
+    | 'random-integer'
+    | 'random-spd'
+    | 'diagonally-dominant'
+    | 'hilbert'
+    | 'vandermonde'
+    | 'tridiagonal'
+    | 'identity'
+    | 'random-singular';
+
+/** Where b comes from: b = A · x* for a known x*, or a random b ('none') when no solution is prescribed. */
+export type KnownSolution = 'none' | 'ones' | 'sequence' | 'random' | 'custom';
+
+export interface GeneratorInfo {
+    id: GeneratorKind;
+    name: string;
+    description: string;
+    /** False for the deterministic matrices, whose entries do not depend on the seed. */
+    seeded: boolean;
+}
+
+export const GENERATORS: GeneratorInfo[] = [
+    { id: 'random', name: 'Random', description: 'Uniform entries in [−1, 1], two decimals.', seeded: true },
+    { id: 'random-integer', name: 'Random Integer', description: 'Integers from −9 to 9.', seeded: true },
+    { id: 'random-spd', name: 'Random SPD', description: 'Symmetric with a dominant positive diagonal, so positive definite.', seeded: true },
+    { id: 'diagonally-dominant', name: 'Diagonally Dominant', description: 'Strictly row diagonally dominant; Jacobi and Gauss-Seidel converge.', seeded: true },
+    { id: 'hilbert', name: 'Hilbert', description: 'H_ij = 1 / (i + j − 1); κ grows like e^(3.5n).', seeded: false },
+    { id: 'vandermonde', name: 'Vandermonde', description: 'V_ij = t_i^(j−1) at the nodes t = 1, 2, …, n.', seeded: false },
+    { id: 'tridiagonal', name: 'Tridiagonal', description: '2 on the diagonal and −1 beside it (the 1D Poisson matrix).', seeded: false },
+    { id: 'identity', name: 'Identity', description: 'I, so x = b.', seeded: false },
+    { id: 'random-singular', name: 'Random Singular', description: 'Random integers with the last row a combination of two others: rank n − 1.', seeded: true },
+];
+
+export const KNOWN_SOLUTIONS: { id: KnownSolution; name: string }[] = [
+    { id: 'none', name: 'None (random b)' },
+    { id: 'ones', name: 'x* = (1, 1, …, 1)' },
+    { id: 'sequence', name: 'x* = (1, 2, …, n)' },
+    { id: 'random', name: 'Random integers' },
+    { id: 'custom', name: 'Custom' },
+];
+
+export interface GeneratorOptions {
+    kind: GeneratorKind;
+    n: number;
+    seed: number;
+    solution: KnownSolution;
+    /** x* when solution is 'custom'; must have n entries. */
+    customSolution?: Vector;
+}
+
+export interface GeneratedSystem {
+    A: Matrix;
+    b: Vector;
+    /** The prescribed x*, or null when b was drawn at random. */
+    solution: Vector | null;
+}
+
+/** mulberry32: a small, fast PRNG whose whole state is one 32-bit integer, so a seed reproduces a matrix exactly. */
+export const createRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const randomInteger = (random: () => number, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+const square = (n: number, entry: (i: number, j: number) => number): Matrix =>
+    Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => entry(i, j)));
+
+const absOffDiagonalSum = (row: Vector, i: number) => row.reduce((sum, val, j) => (j === i ? sum : sum + Math.abs(val)), 0);
+
+export const generateMatrix = (kind: GeneratorKind, n: number, seed: number): Matrix => {
+    const random = createRandom(seed);
+    switch (kind) {
+        case 'random':
+            return square(n, () => Math.round((2 * random() - 1) * 100) / 100);
+        case 'random-integer':
+            return square(n, () => randomInteger(random, -9, 9));
+        case 'random-spd': {
+            const A = square(n, () => 0);
+            for (let i = 0; i < n; i++) {
+                for (let j = 0; j < i; j++) {
+                    A[i][j] = A[j][i] = randomInteger(random, -9, 9);
+                }
+            }
+            // A symmetric matrix with a positive, strictly dominant diagonal is positive definite (Gershgorin)
+            A.forEach((row, i) => (row[i] = absOffDiagonalSum(row, i) + randomInteger(random, 1, 9)));
+            return A;
+        }
+        case 'diagonally-dominant': {
+            const A = square(n, () => randomInteger(random, -9, 9));
+            A.forEach((row, i) => (row[i] = absOffDiagonalSum(row, i) + randomInteger(random, 1, 9)));
+            return A;
+        }
+        case 'hilbert':
+            return square(n, (i, j) => 1 / (i + j + 1));
+        case 'vandermonde':
+            return square(n, (i, j) => (i + 1) ** j);
+        case 'tridiagonal':
+            return square(n, (i, j) => (i === j ? 2 : Math.abs(i - j) === 1 ? -1 : 0));
+        case 'identity':
+            return square(n, (i, j) => (i === j ? 1 : 0));
+        case 'random-singular': {
+            const A = square(n, () => randomInteger(random, -9, 9));
+            if (n === 1) return [[0]];
+            const first = randomInteger(random, 0, n - 2);
+            const second = randomInteger(random, 0, n - 2);
+            const [a, c] = [randomInteger(random, 1, 3), randomInteger(random, -3, -1)];
+            A[n - 1] = A[first].map((val, j) => a * val + c * A[second][j]);
+            return A;
+        }
+    }
+};
+
+/**
+ * A generated A with b = A · x* for the chosen known solution. The vector draws come after the
+ * matrix draws, so changing the solution option never changes A.
+ */
+export const generateSystem = ({ kind, n, seed, solution, customSolution }: GeneratorOptions): GeneratedSystem => {
+    const A = generateMatrix(kind, n, seed);
+    const random = createRandom(seed + 1);
+
+    if (solution === 'none') {
+        return { A, b: Array.from({ length: n }, () => randomInteger(random, -9, 9)), solution: null };
+    }
+    let x: Vector;
+    switch (solution) {
+        case 'ones':
+            x = new Array(n).fill(1);
+            break;
+        case 'sequence':
+            x = Array.from({ length: n }, (_, i) => i + 1);
+            break;
+        case 'random':
+            x = Array.from({ length: n }, () => randomInteger(random, -9, 9));
+            break;
+        case 'custom':
+            if (!customSolution || customSolution.length !== n || customSolution.some(val => !Number.isFinite(val))) {
+                throw new Error(`The known solution needs ${n} numbers.`);
+            }
+            x = customSolution;
+            break;
+    }
+    return { A, b: multiplyVector(A, x), solution: x };
+};
+
+/** ‖x − x*‖∞ and the relative error ‖x − x*‖∞ / ‖x*‖∞ (null when x* = 0). */
+export const solutionError = (x: Vector, known: Vector): { absolute: number; relative: number | null } => {
+    const absolute = Math.max(0, ...x.map((val, i) => Math.abs(val - known[i])));
+    const scale = Math.max(0, ...known.map(Math.abs));
+    return { absolute, relative: scale > 0 ? absolute / scale : null };
+};
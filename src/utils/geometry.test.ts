@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { clipLine, clipParametric, clipPlane, planeThrough, project, solutionSet, viewRadius } from './geometry';
+
+const expectPoints = (actual: number[][], expected: number[][]) => {
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((point, i) => point.forEach((val, k) => expect(val).toBeCloseTo(expected[i][k], 10)));
+};
+
+describe('solutionSet', () => {
+    it('is a point for a unique solution', () => {
+        const set = solutionSet([[1, 1], [1, -1]], [3, 1]);
+        expect(set.status).toBe('unique');
+        expectPoints([set.point!], [[2, 1]]);
+        expect(set.directions).toEqual([]);
+    });
+
+    it('is a line or a plane when there are free variables', () => {
+        const line = solutionSet([[1, 1], [2, 2]], [2, 4]);
+        expect(line.status).toBe('infinite');
+        expect(line.directions).toHaveLength(1);
+
+        const plane = solutionSet([[1, 1, 1], [2, 2, 2], [3, 3, 3]], [1, 2, 3]);
+        expect(plane.directions).toHaveLength(2);
+        const { normal, c } = planeThrough(plane.point!, plane.directions as [number[], number[]]);
+        // The plane is x + y + z = 1 up to scaling
+        expect(normal[1] / normal[0]).toBeCloseTo(1, 10);
+        expect(normal[2] / normal[0]).toBeCloseTo(1, 10);
+        expect(c / normal[0]).toBeCloseTo(1, 10);
+    });
+
+    it('is empty for an inconsistent system', () => {
+        expect(solutionSet([[1, 1], [1, 1]], [1, 2])).toEqual({ status: 'none', point: null, directions: [] });
+    });
+});
+
+describe('viewRadius', () => {
+    it('shows at least [−5, 5] and rounds up to a nice number', () => {
+        expect(viewRadius({ status: 'unique', point: [1, 2], directions: [] })).toBe(5);
+        expect(viewRadius({ status: 'unique', point: [-12, 3], directions: [] })).toBe(20);
+        expect(viewRadius({ status: 'none', point: null, directions: [] })).toBe(5);
+    });
+});
+
+describe('clipping', () => {
+    it('clips a line to the square', () => {
+        expectPoints(clipLine([1, 1], 0, 5)!, [[5, -5], [-5, 5]]);
+        expectPoints(clipLine([0, 1], 2, 5)!, [[5, 2], [-5, 2]]);
+        expect(clipLine([0, 1], 6, 5)).toBeNull();
+        expect(clipLine([0, 0], 1, 5)).toBeNull();
+    });
+
+    it('clips a parametric line to the cube', () => {
+        expectPoints(clipParametric([0, 0, 0], [1, 2, 0], 4)!, [[-2, -4, 0], [2, 4, 0]]);
+        expect(clipParametric([0, 0, 9], [1, 0, 0], 4)).toBeNull();
+    });
+
+    it('cuts a plane to a polygon with its corners in order', () => {
+        const square = clipPlane([0, 0, 1], 0, 1);
+        expect(square).toHaveLength(4);
+        square.forEach(corner => expect(corner[2]).toBe(0));
+        // Consecutive corners share one coordinate, so they are neighbours and not diagonal
+        square.forEach((corner, i) => {
+            const next = square[(i + 1) % 4];
+            expect(corner.filter((val, k) => val === next[k])).toHaveLength(2);
+        });
+
+        expectPoints(
+            clipPlane([1, 1, 1], 2.5, 1).sort((p, q) => q[0] - p[0] || q[1] - p[1]),
+            [[1, 1, 0.5], [1, 0.5, 1], [0.5, 1, 1]]
+        );
+        expect(clipPlane([1, 1, 1], 4, 1)).toEqual([]);
+        // A hexagon through the centre of the cube
+        expect(clipPlane([1, 1, 1], 0, 1)).toHaveLength(6);
+    });
+});
+
+describe('project', () => {
+    it('looks along the y axis with z up when both angles are zero', () => {
+        const point = project([1, 2, 3], { yaw: 0, pitch: 0 });
+        expect(point).toEqual({ x: 1, y: -3, depth: 2 });
+    });
+});
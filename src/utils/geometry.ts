@@ -0,0 +1,150 @@
+import { solveGaussElimination } from './solver';
+import type { Matrix, Vector, SolutionStatus } from './solver';
+
+/** The solution set of a system as a geometric object: a point, a line or a plane (or nothing). */
+export interface SolutionSet {
+    status: SolutionStatus;
+    /** The solution when it is unique, otherwise one point of the solution set; null when there is none. */
+    point: Vector | null;
+    /** Directions spanning the solution set: none for a point, one for a line, two for a plane. */
+    directions: Vector[];
+}
+
+/** Rotation of the 3D view: yaw turns around the vertical axis, pitch tilts towards the viewer. */
+export interface ViewAngles {
+    yaw: number;
+    pitch: number;
+}
+
+export interface ProjectedPoint {
+    x: number;
+    y: number;
+    /** Larger is farther from the viewer. */
+    depth: number;
+}
+
+const EPSILON = 1e-10;
+
+const dot = (a: Vector, b: Vector) => a.reduce((sum, val, i) => sum + val * b[i], 0);
+
+const cross = (a: Vector, b: Vector): Vector => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+];
+
+const normalize = (v: Vector): Vector => {
+    const norm = Math.hypot(...v);
+    return v.map(val => val / norm);
+};
+
+/** Classifies Ax = b by Gaussian Elimination and describes its solution set. */
+export const solutionSet = (matrix: Matrix, vector: Vector): SolutionSet => {
+    const result = solveGaussElimination(matrix, vector);
+    if (result.status === 'unique' && result.solution) {
+        return { status: 'unique', point: result.solution, directions: [] };
+    }
+    if (result.status === 'infinite' && result.general) {
+        return { status: 'infinite', point: result.general.particular, directions: result.general.basis };
+    }
+    return { status: 'none', point: null, directions: [] };
+};
+
+/**
+ * Half-width R of the drawn square or cube [−R, R]ⁿ: at least 5, and large enough to show the solution point
+ * with some room, rounded up to 1, 2 or 5 times a power of ten.
+ */
+export const viewRadius = (solution: SolutionSet): number => {
+    const extent = Math.max(5, 1.5 * Math.max(0, ...(solution.point ?? []).map(Math.abs)));
+    const power = 10 ** Math.floor(Math.log10(extent));
+    return [1, 2, 5, 10].map(step => step * power).find(nice => nice >= extent)!;
+};
+
+/**
+ * Part of the line p + t·d inside the box [−R, R]ⁿ (Liang–Barsky clipping); null when the line misses the box.
+ */
+export const clipParametric = (p: Vector, d: Vector, radius: number): [Vector, Vector] | null => {
+    let low = -Infinity;
+    let high = Infinity;
+    for (let i = 0; i < p.length; i++) {
+        if (Math.abs(d[i]) < EPSILON) {
+            if (Math.abs(p[i]) > radius) return null;
+            continue;
+        }
+        const t1 = (-radius - p[i]) / d[i];
+        const t2 = (radius - p[i]) / d[i];
+        low = Math.max(low, Math.min(t1, t2));
+        high = Math.min(high, Math.max(t1, t2));
+    }
+    if (!(low < high)) return null;
+    return [p.map((val, i) => val + low * d[i]), p.map((val, i) => val + high * d[i])];
+};
+
+/**
+ * Segment of the line a₁x + a₂y = c inside the square [−R, R]²; null when it misses the square or a = 0.
+ */
+export const clipLine = (a: Vector, c: number, radius: number): [Vector, Vector] | null => {
+    const normSq = dot(a, a);
+    if (normSq < EPSILON) return null;
+    // The point of the line closest to the origin, and the direction along the line
+    return clipParametric(a.map(val => (c * val) / normSq), [-a[1], a[0]], radius);
+};
+
+/**
+ * Polygon where the plane a·x = c cuts the cube [−R, R]³, with its corners in order around the polygon.
+ * Empty when the plane misses the cube or a = 0.
+ */
+export const clipPlane = (a: Vector, c: number, radius: number): Vector[] => {
+    if (dot(a, a) < EPSILON) return [];
+    const corners: Vector[] = [];
+    // Each of the 12 cube edges runs along one axis with the other two coordinates at ±R
+    for (let axis = 0; axis < 3; axis++) {
+        // A plane parallel to the edge either misses it or contains it; its corners come from the other edges
+        if (Math.abs(a[axis]) < EPSILON) continue;
+        const [u, v] = [0, 1, 2].filter(k => k !== axis);
+        for (const s of [-radius, radius]) {
+            for (const t of [-radius, radius]) {
+                const value = (c - a[u] * s - a[v] * t) / a[axis];
+                if (Math.abs(value) > radius * (1 + EPSILON)) continue;
+                const corner = [0, 0, 0];
+                corner[axis] = value;
+                corner[u] = s;
+                corner[v] = t;
+                if (!corners.some(other => other.every((val, k) => Math.abs(val - corner[k]) < 1e-9 * radius))) {
+                    corners.push(corner);
+                }
+            }
+        }
+    }
+    if (corners.length < 3) return [];
+
+    // Sort by angle around the centre, measured in two directions inside the plane
+    const centre = [0, 1, 2].map(k => corners.reduce((sum, corner) => sum + corner[k], 0) / corners.length);
+    const normal = normalize(a);
+    const helper = Math.abs(normal[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    const u = normalize(cross(normal, helper));
+    const v = cross(normal, u);
+    const angle = (corner: Vector) => {
+        const offset = corner.map((val, k) => val - centre[k]);
+        return Math.atan2(dot(offset, v), dot(offset, u));
+    };
+    return corners.sort((p, q) => angle(p) - angle(q));
+};
+
+/** The plane through `point` spanned by two directions, as a normal and right-hand side n·x = c. */
+export const planeThrough = (point: Vector, directions: [Vector, Vector]): { normal: Vector; c: number } => {
+    const normal = cross(directions[0], directions[1]);
+    return { normal, c: dot(normal, point) };
+};
+
+/**
+ * Orthographic projection of (x, y, z) with z pointing up: rotate by the yaw around z, tilt by the pitch,
+ * and drop the depth. Screen y grows downwards.
+ */
+export const project = ([x, y, z]: Vector, { yaw, pitch }: ViewAngles): ProjectedPoint => {
+    const rx = x * Math.cos(yaw) - y * Math.sin(yaw);
+    const ry = x * Math.sin(yaw) + y * Math.cos(yaw);
+    const depth = ry * Math.cos(pitch) - z * Math.sin(pitch);
+    const up = ry * Math.sin(pitch) + z * Math.cos(pitch);
+    return { x: rx, y: -up, depth };
+};
@@ -0,0 +1,152 @@
+import { assertSquare } from './solver';
+import type { Matrix, Vector } from './solver';
+import { residualNorm } from './matrix';
+
+export type IterativeStatus = 'converged' | 'diverged' | 'max-iterations';
+
+export interface IterativeOptions {
+    /** Stop once ‖x_k − x_{k−1}‖∞ drops below this value. */
+    tolerance: number;
+    maxIterations: number;
+    /** Starting vector x_0; defaults to the zero vector. */
+    initialGuess?: Vector;
+}
+
+/** The iterative and eigenvalue settings as the sidebar edits them and links store them. */
+export interface IterativeSettingsValue {
+    tolerance: number;
+    maxIterations: number;
+    omega: number;
+    /** σ of inverse power iteration. */
+    shift: number;
+    /** Comma- or space-separated x_0; empty means the zero vector. */
+    initialGuess: string;
+}
+
+export interface IterationRecord {
+    iteration: number;
+    x: Vector;
+    /** ‖b − A x_k‖₂ */
+    residualNorm: number;
+    /** ‖x_k − x_{k−1}‖∞, the usual stopping criterion. */
+    errorEstimate: number;
+}
+
+export interface IterativeResult {
+    status: IterativeStatus;
+    solution: Vector;
+    history: IterationRecord[];
+    diagonallyDominant: boolean;
+}
+
+// Once the residual grows this much past its starting value the iteration is treated as divergent.
+const DIVERGENCE_FACTOR = 1e12;
+
+/**
+ * Checks strict diagonal dominance by rows: |a_ii| > Σ_{j≠i} |a_ij| for every row.
+ * This is sufficient (not necessary) for Jacobi and Gauss-Seidel to converge.
+ */
+export const isDiagonallyDominant = (matrix: Matrix): boolean =>
+    matrix.every((row, i) => {
+        const offDiagonal = row.reduce((sum, val, j) => (j === i ? sum : sum + Math.abs(val)), 0);
+        return Math.abs(row[i]) > offDiagonal;
+    });
+
+const maxNormDiff = (a: Vector, b: Vector) => a.reduce((max, val, i) => Math.max(max, Math.abs(val - b[i])), 0);
+
+/**
+ * Shared driver: `sweep` turns x_{k−1} into x_k; the driver handles the history and stopping rules.
+ */
+const iterate = (
+    matrix: Matrix,
+    vector: Vector,
+    options: IterativeOptions,
+    sweep: (previous: Vector) => Vector
+): IterativeResult => {
+    assertSquare(matrix, 'Iterative methods');
+    const n = matrix.length;
+    matrix.forEach((row, i) => {
+        if (row[i] === 0) {
+            throw new Error(`Iterative methods need a nonzero diagonal, but a${i + 1}${i + 1} = 0. Reorder the equations first.`);
+        }
+    });
+
+    const x0 = options.initialGuess ?? new Array(n).fill(0);
+    if (x0.length !== n) {
+        throw new Error(`The initial guess must have ${n} entries.`);
+    }
+
+    const initialResidual = residualNorm(matrix, x0, vector);
+    const history: IterationRecord[] = [
+        { iteration: 0, x: [...x0], residualNorm: initialResidual, errorEstimate: NaN },
+    ];
+    const diagonallyDominant = isDiagonallyDominant(matrix);
+
+    let x = [...x0];
+    for (let k = 1; k <= options.maxIterations; k++) {
+        const next = sweep(x);
+        const record = {
+            iteration: k,
+            x: next,
+            residualNorm: residualNorm(matrix, next, vector),
+            errorEstimate: maxNormDiff(next, x),
+        };
+        history.push(record);
+        x = next;
+
+        if (!next.every(Number.isFinite) || record.residualNorm > DIVERGENCE_FACTOR * Math.max(initialResidual, 1)) {
+            return { status: 'diverged', solution: x, history, diagonallyDominant };
+        }
+        if (record.errorEstimate < options.tolerance) {
+            return { status: 'converged', solution: x, history, diagonallyDominant };
+        }
+    }
+
+    return { status: 'max-iterations', solution: x, history, diagonallyDominant };
+};
+
+/**
+ * Jacobi iteration: every component of x_k is computed from x_{k−1} only.
+ * x_i^(k) = (b_i − Σ_{j≠i} a_ij x_j^(k−1)) / a_ii
+ */
+export const solveJacobi = (matrix: Matrix, vector: Vector, options: IterativeOptions): IterativeResult =>
+    iterate(matrix, vector, options, (previous) =>
+        matrix.map((row, i) => {
+            let sum = 0;
+            for (let j = 0; j < row.length; j++) {
+                if (j !== i) sum += row[j] * previous[j];
+            }
+            return (vector[i] - sum) / row[i];
+        })
+    );
+
+/**
+ * Successive Over-Relaxation: a Gauss-Seidel update blended with the previous value by ω.
+ * x_i^(k) = (1 − ω) x_i^(k−1) + ω (b_i − Σ_{j<i} a_ij x_j^(k) − Σ_{j>i} a_ij x_j^(k−1)) / a_ii
+ * ω = 1 is plain Gauss-Seidel; the method can only converge for 0 < ω < 2.
+ */
+export const solveSOR = (matrix: Matrix, vector: Vector, options: IterativeOptions & { omega: number }): IterativeResult => {
+    const { omega } = options;
+    if (!(omega > 0 && omega < 2)) {
+        throw new Error('The relaxation parameter ω must satisfy 0 < ω < 2.');
+    }
+    return iterate(matrix, vector, options, (previous) => {
+        const x = [...previous];
+        for (let i = 0; i < matrix.length; i++) {
+            let sum = 0;
+            for (let j = 0; j < matrix.length; j++) {
+                // x already holds the new values for j < i
+                if (j !== i) sum += matrix[i][j] * x[j];
+            }
+            const gaussSeidel = (vector[i] - sum) / matrix[i][i];
+            x[i] = (1 - omega) * previous[i] + omega * gaussSeidel;
+        }
+        return x;
+    });
+};
+
+/**
+ * Gauss-Seidel iteration: like Jacobi, but each new component is used as soon as it is computed.
+ */
+export const solveGaussSeidel = (matrix: Matrix, vector: Vector, options: IterativeOptions): IterativeResult =>
+    solveSOR(matrix, vector, { ...options, omega: 1 });
@@ -0,0 +1,95 @@
+import { solveGaussElimination } from './solver';
+import type { Matrix, Vector, SolverResult } from './solver';
+import { identity, multiply, multiplyVector, residualNorm, transpose } from './matrix';
+
+export type LeastSquaresApproach = 'normal' | 'qr';
+
+const EPSILON = 1e-10;
+
+/**
+ * Householder QR factorization of an m×n matrix: A = Q * R,
+ * with Q an m×m orthogonal matrix and R an m×n upper triangular (trapezoidal) matrix.
+ */
+export const householderQR = (matrix: Matrix): { Q: Matrix; R: Matrix } => {
+    const m = matrix.length;
+    const n = matrix[0]?.length ?? 0;
+    const R = matrix.map(row => [...row]);
+    const Q = identity(m);
+
+    for (let k = 0; k < Math.min(m - 1, n); k++) {
+        // Build the reflector v that maps column k (from row k down) onto a multiple of e_k.
+        // The sign of alpha is chosen opposite to the diagonal entry to avoid cancellation.
+        const column = R.slice(k).map(row => row[k]);
+        const normX = Math.hypot(...column);
+        if (normX < EPSILON) continue;
+        const alpha = column[0] > 0 ? -normX : normX;
+        const v = [...column];
+        v[0] -= alpha;
+        const vNormSq = v.reduce((sum, val) => sum + val * val, 0);
+        if (vNormSq < EPSILON * EPSILON) continue;
+
+        // R = H R with H = I - 2 v vᵀ / (vᵀv), applied to the trailing rows
+        for (let j = k; j < n; j++) {
+            let dot = 0;
+            for (let i = k; i < m; i++) dot += v[i - k] * R[i][j];
+            const scale = (2 * dot) / vNormSq;
+            for (let i = k; i < m; i++) R[i][j] -= scale * v[i - k];
+        }
+        for (let i = k + 1; i < m; i++) R[i][k] = 0;
+
+        // Accumulate Q = Q H
+        for (let i = 0; i < m; i++) {
+            let dot = 0;
+            for (let j = k; j < m; j++) dot += Q[i][j] * v[j - k];
+            const scale = (2 * dot) / vNormSq;
+            for (let j = k; j < m; j++) Q[i][j] -= scale * v[j - k];
+        }
+    }
+
+    return { Q, R };
+};
+
+/**
+ * Least-squares solution of an m×n system: minimizes ‖Ax − b‖₂.
+ * - 'normal' solves the normal equations AᵀA x = Aᵀb with Gaussian Elimination.
+ * - 'qr' factors A = QR and back-substitutes R₁ x = (Qᵀb)₁, which avoids squaring the condition number.
+ * A rank-deficient A has infinitely many minimizers; the normal equations then report them as a general solution.
+ */
+export const solveLeastSquares = (matrix: Matrix, vector: Vector, approach: LeastSquaresApproach = 'qr'): SolverResult => {
+    const n = matrix[0]?.length ?? 0;
+
+    const solveNormal = (): SolverResult => {
+        const At = transpose(matrix);
+        const result = solveGaussElimination(multiply(At, matrix), multiplyVector(At, vector));
+        if (result.status === 'unique' && result.solution) {
+            return { ...result, residualNorm: residualNorm(matrix, result.solution, vector) };
+        }
+        if (result.status === 'infinite' && result.general) {
+            return { ...result, residualNorm: residualNorm(matrix, result.general.particular, vector) };
+        }
+        return result;
+    };
+
+    if (approach === 'normal' || matrix.length < n) {
+        return solveNormal();
+    }
+
+    const { Q, R } = householderQR(matrix);
+    // Full column rank is required for a unique R₁ back substitution
+    const scale = Math.max(...R.flat().map(Math.abs), 1);
+    if (R.slice(0, n).some((row, i) => Math.abs(row[i]) < EPSILON * scale)) {
+        return solveNormal();
+    }
+
+    const c = multiplyVector(transpose(Q), vector);
+    const x = new Array(n).fill(0);
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = 0;
+        for (let j = i + 1; j < n; j++) {
+            sum += R[i][j] * x[j];
+        }
+        x[i] = (c[i] - sum) / R[i][i];
+    }
+
+    return { status: 'unique', solution: x, residualNorm: residualNorm(matrix, x, vector) };
+};
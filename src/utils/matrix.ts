@@ -0,0 +1,30 @@
+import type { Matrix, Vector } from './solver';
+
+// Small dense matrix helpers shared by the solvers and the UI.
+
+export const identity = (n: number): Matrix =>
+    Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+export const transpose = (A: Matrix): Matrix =>
+    Array.from({ length: A[0]?.length ?? 0 }, (_, j) => A.map(row => row[j]));
+
+export const multiply = (A: Matrix, B: Matrix): Matrix =>
+    A.map(row => Array.from({ length: B[0]?.length ?? 0 }, (_, j) => row.reduce((sum, a, k) => sum + a * B[k][j], 0)));
+
+export const multiplyVector = (A: Matrix, x: Vector): Vector =>
+    A.map(row => row.reduce((sum, a, j) => sum + a * x[j], 0));
+
+/** Euclidean (2-) norm of a vector. */
+export const norm2 = (v: Vector): number => Math.hypot(...v);
+
+/** ‖Ax − b‖₂ for a candidate solution x. */
+export const residualNorm = (A: Matrix, x: Vector, b: Vector): number =>
+    norm2(multiplyVector(A, x).map((val, i) => val - b[i]));
+
+/** Matrix 1-norm: maximum absolute column sum. */
+export const norm1 = (A: Matrix): number =>
+    Math.max(0, ...transpose(A).map(col => col.reduce((sum, val) => sum + Math.abs(val), 0)));
+
+/** Matrix ∞-norm: maximum absolute row sum. */
+export const normInf = (A: Matrix): number =>
+    Math.max(0, ...A.map(row => row.reduce((sum, val) => sum + Math.abs(val), 0)));
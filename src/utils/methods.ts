@@ -0,0 +1,33 @@
+/** A solution method as the sidebar and the command line list it. */
+export interface MethodInfo {
+    id: string;
+    name: string;
+    /** Relies on real floating-point arithmetic (square roots, orderings, iteration), so not on fractions or complex numbers. */
+    decimalOnly: boolean;
+}
+
+/** Every method, in sidebar order; the ids are the ones stored in links and passed to `--method`. */
+export const METHODS: MethodInfo[] = [
+    { id: 'gauss', name: 'Gauss Elimination', decimalOnly: false },
+    { id: 'gauss-jordan', name: 'Gauss-Jordan', decimalOnly: false },
+    { id: 'lu', name: 'LU (Doolittle)', decimalOnly: false },
+    { id: 'crout', name: 'LU (Crout)', decimalOnly: false },
+    { id: 'cholesky', name: 'Cholesky (LLᵀ)', decimalOnly: true },
+    { id: 'ldlt', name: 'LDLᵀ', decimalOnly: true },
+    { id: 'qr-householder', name: 'QR (Householder)', decimalOnly: true },
+    { id: 'qr-gram-schmidt', name: 'QR (Gram-Schmidt)', decimalOnly: true },
+    { id: 'thomas', name: 'Thomas (Tridiagonal)', decimalOnly: true },
+    { id: 'banded-lu', name: 'Banded LU', decimalOnly: true },
+    { id: 'inverse', name: 'Inverse Matrix', decimalOnly: false },
+    { id: 'lsq-normal', name: 'Least Squares (Normal Eq.)', decimalOnly: true },
+    { id: 'lsq-qr', name: 'Least Squares (QR)', decimalOnly: true },
+    { id: 'jacobi', name: 'Jacobi', decimalOnly: true },
+    { id: 'gauss-seidel', name: 'Gauss-Seidel', decimalOnly: true },
+    { id: 'sor', name: 'SOR', decimalOnly: true },
+    { id: 'power', name: 'Power Iteration', decimalOnly: true },
+    { id: 'inverse-power', name: 'Inverse Power (Shift)', decimalOnly: true },
+    { id: 'qr-algorithm', name: 'QR Algorithm (Eigen)', decimalOnly: true },
+    { id: 'compare', name: 'Compare All', decimalOnly: true },
+];
+
+export const methodName = (id: string): string => METHODS.find(method => method.id === id)?.name ?? id;
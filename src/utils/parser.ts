@@ -0,0 +1,246 @@
+import { Fraction } from './fraction';
+import type { Matrix, Vector } from './solver';
+
+/**
+ * A syntax error in the text editor input. `line` and `column` are 1-based.
+ */
+export class ParseError extends Error {
+    readonly line: number;
+    readonly column: number;
+
+    constructor(message: string, line: number, column: number) {
+        super(`Line ${line}, column ${column}: ${message}`);
+        this.name = 'ParseError';
+        this.line = line;
+        this.column = column;
+    }
+}
+
+export interface ParsedSystem {
+    matrix: Matrix;
+    vector: Vector;
+    /** Variable names in column order; null when the input was a plain numeric matrix. */
+    variables: string[] | null;
+}
+
+type Token =
+    | { type: 'number'; value: Fraction; column: number }
+    | { type: 'variable'; name: string; column: number }
+    | { type: 'op'; value: '+' | '-' | '*' | '='; column: number };
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?(\/(\d+\.?\d*|\.\d+))?/;
+const VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+const isEquals = (token: Token) => token.type === 'op' && token.value === '=';
+
+const tokenize = (text: string, line: number): Token[] => {
+    const tokens: Token[] = [];
+    let pos = 0;
+    while (pos < text.length) {
+        const rest = text.slice(pos);
+        const column = pos + 1;
+        if (/^\s/.test(rest)) {
+            pos++;
+            continue;
+        }
+        const number = NUMBER_PATTERN.exec(rest);
+        if (number) {
+            tokens.push({ type: 'number', value: Fraction.parse(number[0]), column });
+            pos += number[0].length;
+            continue;
+        }
+        const variable = VARIABLE_PATTERN.exec(rest);
+        if (variable) {
+            tokens.push({ type: 'variable', name: variable[0], column });
+            pos += variable[0].length;
+            continue;
+        }
+        const char = rest[0];
+        if (char === '+' || char === '-' || char === '*' || char === '=') {
+            tokens.push({ type: 'op', value: char, column });
+            pos++;
+            continue;
+        }
+        if (char === '−') {
+            // Unicode minus pasted from documents
+            tokens.push({ type: 'op', value: '-', column });
+            pos++;
+            continue;
+        }
+        throw new ParseError(`Unexpected character "${char}".`, line, column);
+    }
+    return tokens;
+};
+
+/**
+ * Parses one equation into variable coefficients and a constant, with every term moved to the left side:
+ * Σ coefficients[v] · v + constant = 0.
+ */
+const parseEquation = (text: string, line: number) => {
+    const tokens = tokenize(text, line);
+    const coefficients = new Map<string, Fraction>();
+    let constant = Fraction.ZERO;
+    let side = 1;
+    let sawEquals = false;
+    let index = 0;
+    const endColumn = text.length + 1;
+
+    const parseSide = () => {
+        let terms = 0;
+        while (index < tokens.length && !isEquals(tokens[index])) {
+            const start = tokens[index];
+            let sign = 1;
+            if (start.type === 'op') {
+                if (start.value !== '+' && start.value !== '-') {
+                    throw new ParseError(`Unexpected "${start.value}".`, line, start.column);
+                }
+                sign = start.value === '-' ? -1 : 1;
+                index++;
+            } else if (terms > 0) {
+                throw new ParseError('Expected "+" or "-" between terms.', line, start.column);
+            }
+
+            let coefficient = Fraction.ONE;
+            let hasNumber = false;
+            let token = tokens[index];
+            if (token?.type === 'number') {
+                coefficient = token.value;
+                hasNumber = true;
+                index++;
+                token = tokens[index];
+                if (token?.type === 'op' && token.value === '*') {
+                    index++;
+                    token = tokens[index];
+                    if (token?.type !== 'variable') {
+                        throw new ParseError('Expected a variable after "*".', line, token?.column ?? endColumn);
+                    }
+                }
+            }
+
+            const signed = sign < 0 ? coefficient.neg() : coefficient;
+            if (token?.type === 'variable') {
+                const previous = coefficients.get(token.name) ?? Fraction.ZERO;
+                coefficients.set(token.name, previous.add(side > 0 ? signed : signed.neg()));
+                index++;
+            } else if (hasNumber) {
+                constant = constant.add(side > 0 ? signed : signed.neg());
+            } else {
+                throw new ParseError('Expected a number or a variable.', line, token?.column ?? endColumn);
+            }
+            terms++;
+        }
+        if (terms === 0) {
+            throw new ParseError('Expected a term.', line, tokens[index]?.column ?? endColumn);
+        }
+    };
+
+    parseSide();
+    if (index < tokens.length) {
+        sawEquals = true;
+        index++;
+        side = -1;
+        parseSide();
+        if (index < tokens.length) {
+            throw new ParseError('An equation can only contain one "=".', line, tokens[index].column);
+        }
+    }
+    if (!sawEquals) {
+        throw new ParseError('Missing "=".', line, endColumn);
+    }
+
+    return { coefficients, constant };
+};
+
+// Sorts x2 before x10 so numbered variables keep their natural order
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Parses one linear equation per line, e.g. "2x1 + x2 + 3x3 = 1" or "y = 3 - 1/2 x".
+ * Coefficients may be implicit (x = 1·x), written with "*", or be fractions; terms may appear on either side.
+ * Columns follow the natural order of the variable names.
+ */
+export const parseEquations = (text: string): ParsedSystem => {
+    const equations = text
+        .split('\n')
+        .map((content, i) => ({ content: content.replace(/#.*$/, ''), line: i + 1 }))
+        .filter(({ content }) => content.trim() !== '')
+        .map(({ content, line }) => parseEquation(content, line));
+
+    if (equations.length === 0) {
+        throw new ParseError('Enter at least one equation.', 1, 1);
+    }
+
+    const variables = [...new Set(equations.flatMap(eq => [...eq.coefficients.keys()]))].sort(naturalCompare);
+    if (variables.length === 0) {
+        throw new ParseError('The equations do not contain any variables.', 1, 1);
+    }
+
+    return {
+        matrix: equations.map(eq => variables.map(v => (eq.coefficients.get(v) ?? Fraction.ZERO).toNumber())),
+        vector: equations.map(eq => eq.constant.neg().toNumber()),
+        variables,
+    };
+};
+
+/**
+ * Parses a numeric augmented matrix [A | b] given as MATLAB ("[2 1 3 1; 4 3 5 1]"), CSV or TSV.
+ * Rows are separated by ";" or new lines, entries by commas, tabs or spaces; the last column is b.
+ */
+export const parseMatrixText = (text: string): ParsedSystem => {
+    const trimmed = text.trim();
+    const body = trimmed.startsWith('[') ? trimmed.slice(1, trimmed.endsWith(']') ? -1 : undefined) : trimmed;
+
+    // Track each row's line so errors point back into the original text
+    const rows: { cells: string[]; line: number }[] = [];
+    const offset = text.indexOf(body);
+    let line = text.slice(0, offset).split('\n').length;
+    body.split('\n').forEach(content => {
+        content.split(';').forEach(part => {
+            const cells = part.split(/[\s,]+/).filter(cell => cell !== '');
+            if (cells.length > 0) rows.push({ cells, line });
+        });
+        line++;
+    });
+
+    if (rows.length === 0) {
+        throw new ParseError('The matrix is empty.', 1, 1);
+    }
+
+    const width = rows[0].cells.length;
+    if (width < 2) {
+        throw new ParseError('Each row needs at least one coefficient and a right-hand side.', rows[0].line, 1);
+    }
+
+    const values = rows.map(({ cells, line }) => {
+        if (cells.length !== width) {
+            throw new ParseError(`Expected ${width} entries but found ${cells.length}.`, line, 1);
+        }
+        return cells.map(cell => {
+            try {
+                return Fraction.parse(cell.replace('−', '-')).toNumber();
+            } catch {
+                const source = text.split('\n')[line - 1] ?? '';
+                throw new ParseError(`"${cell}" is not a number.`, line, source.indexOf(cell) + 1);
+            }
+        });
+    });
+
+    return {
+        matrix: values.map(row => row.slice(0, -1)),
+        vector: values.map(row => row[row.length - 1]),
+        variables: null,
+    };
+};
+
+/**
+ * Accepts either a list of equations or a pasted numeric matrix.
+ * Bracketed input is always a matrix; otherwise anything containing "=" or a letter is treated as equations.
+ */
+export const parseSystem = (text: string): ParsedSystem => {
+    const withoutComments = text.replace(/#.*$/gm, '');
+    if (withoutComments.trim().startsWith('[')) {
+        return parseMatrixText(withoutComments);
+    }
+    const hasSymbols = /[=A-Za-z_]/.test(withoutComments.replace(/\d[eE][+-]?\d/g, ''));
+    return hasSymbols ? parseEquations(text) : parseMatrixText(withoutComments);
+};
@@ -0,0 +1,226 @@
+import type { Matrix, Vector, PivotingStrategy } from './solver';
+import type { IterativeSettingsValue } from './iterative';
+import type { Bandwidth } from './banded';
+import { isValidName, PROBLEM_NAMES } from './calculator';
+import type { NamedMatrix } from './calculator';
+
+/** Everything needed to rebuild the problem on screen: the system, the chosen method and its options. */
+export interface ProblemState {
+    m: number;
+    n: number;
+    matrixA: Matrix;
+    matrixB: Vector;
+    extraRhs: Vector[];
+    variables: string[] | null;
+    method: string;
+    exact: boolean;
+    pivoting: PivotingStrategy;
+    iterativeSettings: IterativeSettingsValue;
+    /** Bandwidth given to Banded LU; null detects it from A. */
+    bandwidth: Bandwidth | null;
+    /** Imaginary parts of A and b in complex mode; null for a real system. */
+    imaginary: { A: Matrix; b: Vector } | null;
+}
+
+export interface SavedProblem {
+    name: string;
+    /** Milliseconds since the epoch. */
+    savedAt: number;
+    state: ProblemState;
+}
+
+export type Theme = 'light' | 'dark';
+
+const STORAGE_KEYS = {
+    autosave: 'linear-solver:autosave',
+    library: 'linear-solver:library',
+    history: 'linear-solver:history',
+    theme: 'linear-solver:theme',
+    workspace: 'linear-solver:workspace',
+};
+
+export const MAX_HISTORY = 20;
+
+const PIVOTING: PivotingStrategy[] = ['none', 'partial', 'scaled', 'complete'];
+
+// Rows are separated by ";" and entries by ","; both are left unescaped so the hash stays readable
+const encodeValue = (value: string) =>
+    encodeURIComponent(value).replace(/%2C/g, ',').replace(/%3B/g, ';');
+
+const encodeRows = (rows: Matrix) => rows.map(row => row.join(',')).join(';');
+
+const parseNumbers = (text: string): number[] | null => {
+    const values = text.split(',').map(Number);
+    return text !== '' && values.every(Number.isFinite) ? values : null;
+};
+
+const parseRows = (text: string): Matrix | null => {
+    const rows = text.split(';').map(parseNumbers);
+    return rows.every(row => row !== null) ? (rows as Matrix) : null;
+};
+
+/**
+ * Serializes a problem into a URL hash (without the leading "#"), e.g.
+ * "m=2&n=2&A=1,2;3,4&b=5,6&method=lu&pivoting=partial".
+ * Options at their defaults are left out to keep shared links short.
+ */
+export const encodeProblem = (state: ProblemState): string => {
+    const params: [string, string][] = [
+        ['m', String(state.m)],
+        ['n', String(state.n)],
+        ['A', encodeRows(state.matrixA)],
+        ['b', state.matrixB.join(',')],
+        ['method', state.method],
+    ];
+    if (state.extraRhs.length > 0) params.push(['rhs', encodeRows(state.extraRhs)]);
+    if (state.variables) params.push(['vars', state.variables.join(',')]);
+    if (state.exact) params.push(['exact', '1']);
+    if (state.pivoting !== 'partial') params.push(['pivoting', state.pivoting]);
+    const { tolerance, maxIterations, omega, shift, initialGuess } = state.iterativeSettings;
+    params.push(['tol', String(tolerance)], ['maxit', String(maxIterations)], ['omega', String(omega)]);
+    if (shift) params.push(['shift', String(shift)]);
+    if (initialGuess.trim()) params.push(['x0', initialGuess.trim()]);
+    if (state.bandwidth) params.push(['bw', `${state.bandwidth.lower},${state.bandwidth.upper}`]);
+    if (state.imaginary) params.push(['Ai', encodeRows(state.imaginary.A)], ['bi', state.imaginary.b.join(',')]);
+    return params.map(([key, value]) => `${key}=${encodeValue(value)}`).join('&');
+};
+
+/**
+ * Reads a problem back from a URL hash. Returns null for an empty hash or one that does not describe
+ * a consistent system, so a mangled link never leaves the editor in a broken state.
+ * Unknown method ids are passed through; the caller decides whether it recognizes them.
+ */
+export const decodeProblem = (hash: string, defaults: ProblemState): ProblemState | null => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const m = Number(params.get('m'));
+    const n = Number(params.get('n'));
+    const matrixA = parseRows(params.get('A') ?? '');
+    const matrixB = parseNumbers(params.get('b') ?? '');
+    if (!Number.isInteger(m) || !Number.isInteger(n) || m < 1 || n < 1 || !matrixA || !matrixB) return null;
+    if (matrixA.length !== m || matrixA.some(row => row.length !== n) || matrixB.length !== m) return null;
+
+    const rhs = params.get('rhs');
+    const extraRhs = rhs ? parseRows(rhs) : [];
+    if (!extraRhs || extraRhs.some(column => column.length !== m)) return null;
+
+    // Imaginary parts are optional, but when present they must match A and b
+    const imaginaryText = params.get('Ai');
+    const imaginaryA = imaginaryText !== null ? parseRows(imaginaryText) : null;
+    const imaginaryB = imaginaryText !== null ? parseNumbers(params.get('bi') ?? '') : null;
+    if (imaginaryText !== null && (!imaginaryA || !imaginaryB || imaginaryA.length !== m
+        || imaginaryA.some(row => row.length !== n) || imaginaryB.length !== m)) return null;
+
+    const variables = params.get('vars')?.split(',') ?? null;
+    const pivoting = params.get('pivoting') as PivotingStrategy | null;
+    const band = parseNumbers(params.get('bw') ?? '');
+    const bandwidth = band?.length === 2 && band.every(val => Number.isInteger(val) && val >= 0)
+        ? { lower: band[0], upper: band[1] }
+        : null;
+    const number = (key: string, fallback: number) => {
+        const value = Number(params.get(key) ?? NaN);
+        return Number.isFinite(value) ? value : fallback;
+    };
+
+    return {
+        m,
+        n,
+        matrixA,
+        matrixB,
+        extraRhs,
+        variables: variables?.length === n ? variables : null,
+        method: params.get('method') ?? defaults.method,
+        exact: params.get('exact') === '1',
+        pivoting: pivoting && PIVOTING.includes(pivoting) ? pivoting : 'partial',
+        iterativeSettings: {
+            tolerance: number('tol', defaults.iterativeSettings.tolerance),
+            maxIterations: number('maxit', defaults.iterativeSettings.maxIterations),
+            omega: number('omega', defaults.iterativeSettings.omega),
+            shift: number('shift', defaults.iterativeSettings.shift),
+            initialGuess: params.get('x0') ?? '',
+        },
+        bandwidth,
+        imaginary: imaginaryA && imaginaryB ? { A: imaginaryA, b: imaginaryB } : null,
+    };
+};
+
+// localStorage can be unavailable (private browsing) or full; persistence is best-effort and never breaks the app.
+const readJSON = <T>(key: string): T | null => {
+    try {
+        const text = localStorage.getItem(key);
+        return text ? (JSON.parse(text) as T) : null;
+    } catch {
+        return null;
+    }
+};
+
+const writeJSON = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+        // Ignore: the state simply is not persisted
+    }
+};
+
+/**
+ * Stored problems are re-validated through the URL encoding, which also fills in options added since they were saved.
+ * Anything that no longer reads back as a consistent system is dropped.
+ */
+const revalidate = (state: ProblemState | null | undefined, defaults: ProblemState): ProblemState | null => {
+    try {
+        return state ? decodeProblem(encodeProblem({ ...defaults, ...state }), defaults) : null;
+    } catch {
+        return null;
+    }
+};
+
+const loadProblems = (key: string, defaults: ProblemState): SavedProblem[] => {
+    const stored = readJSON<SavedProblem[]>(key);
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(item => {
+        const state = revalidate(item?.state, defaults);
+        return state ? [{ name: String(item.name ?? ''), savedAt: Number(item.savedAt) || 0, state }] : [];
+    });
+};
+
+export const loadAutosave = (defaults: ProblemState): ProblemState | null =>
+    revalidate(readJSON<ProblemState>(STORAGE_KEYS.autosave), defaults);
+
+export const saveAutosave = (state: ProblemState) => writeJSON(STORAGE_KEYS.autosave, state);
+
+export const loadLibrary = (defaults: ProblemState): SavedProblem[] => loadProblems(STORAGE_KEYS.library, defaults);
+
+export const saveLibrary = (library: SavedProblem[]) => writeJSON(STORAGE_KEYS.library, library);
+
+export const loadHistory = (defaults: ProblemState): SavedProblem[] => loadProblems(STORAGE_KEYS.history, defaults);
+
+export const saveHistory = (history: SavedProblem[]) => writeJSON(STORAGE_KEYS.history, history);
+
+/**
+ * Puts a solved problem at the top of the history. Re-solving the same problem moves it up instead of
+ * adding a duplicate, and only the MAX_HISTORY most recent entries are kept.
+ */
+export const addToHistory = (history: SavedProblem[], entry: SavedProblem): SavedProblem[] => {
+    const key = encodeProblem(entry.state);
+    return [entry, ...history.filter(item => encodeProblem(item.state) !== key)].slice(0, MAX_HISTORY);
+};
+
+/**
+ * Stored calculator matrices; entries that are not a valid name with a rectangular numeric matrix are dropped,
+ * and so are A and b, which would otherwise shadow the problem's matrices in every expression.
+ */
+export const loadWorkspace = (): NamedMatrix[] => {
+    const stored = readJSON<NamedMatrix[]>(STORAGE_KEYS.workspace);
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(item =>
+        typeof item?.name === 'string' && isValidName(item.name) && !PROBLEM_NAMES.includes(item.name)
+        && Array.isArray(item.matrix) && item.matrix.length > 0
+        && item.matrix.every(row => Array.isArray(row) && row.length === item.matrix[0].length && row.length > 0
+            && row.every(val => typeof val === 'number' && Number.isFinite(val)))
+    ).map(item => ({ name: item.name, matrix: item.matrix }));
+};
+
+export const saveWorkspace = (workspace: NamedMatrix[]) => writeJSON(STORAGE_KEYS.workspace, workspace);
+
+export const loadTheme = (): Theme => (readJSON<Theme>(STORAGE_KEYS.theme) === 'dark' ? 'dark' : 'light');
+
+export const saveTheme = (theme: Theme) => writeJSON(STORAGE_KEYS.theme, theme);
@@ -0,0 +1,350 @@
+import { describeSingularity, solveGaussElimination, solveGaussJordan, solveLUFactorizationMultiple, invertMatrix } from './solver';
+import type { Matrix, Vector, SolverResult, SolutionStatus, TraceStep, GeneralSolution, SolverOptions, Singularity, LUForm } from './solver';
+import { solveGaussEliminationExact, solveGaussJordanExact, solveLUFactorizationMultipleExact, invertMatrixExact } from './exactSolver';
+import type { ExactSolverResult } from './exactSolver';
+import { solveGaussEliminationComplex, solveGaussJordanComplex, solveLUFactorizationComplex, invertMatrixComplex, complexResidualNorm } from './complexSolver';
+import { toComplexMatrix, toComplexVector } from './complex';
+import { solveLeastSquares } from './leastSquares';
+import { solveCholesky, solveLDLT, solveQR } from './factorizations';
+import type { FactorizationResult } from './factorizations';
+import { computeDiagnostics } from './diagnostics';
+import type { Diagnostics } from './diagnostics';
+import { compareMethods } from './compare';
+import type { ComparisonResult } from './compare';
+import { solveThomas, solveBandedLU } from './banded';
+import type { Bandwidth, BandedResult } from './banded';
+import { solveJacobi, solveGaussSeidel, solveSOR } from './iterative';
+import { powerIteration, inversePowerIteration, qrAlgorithm } from './eigen';
+import type { EigenResult } from './eigen';
+import type { IterativeResult, IterativeOptions } from './iterative';
+import { denseFlops, denseResidualNorm, factorDense, fromDense, isLargeSystem, solveDenseLU } from './dense';
+import { residualNorm } from './matrix';
+import type { DenseMatrix } from './dense';
+import { toNumber } from './format';
+import type { Scalar } from './format';
+import type { ProblemState } from './persistence';
+import { METHODS } from './methods';
+
+/** Everything needed to show and check P * A = L * U (or P * A * Q = L * U with complete pivoting). */
+export interface LUDisplay {
+    /** Complex in complex mode, real otherwise. */
+    A: Scalar[][];
+    L: Scalar[][];
+    U: Scalar[][];
+    P: Matrix;
+    Q?: Matrix;
+    /** Forward-substitution result of L * y = P * b. */
+    y?: Scalar[];
+    /** 'crout' when the Doolittle factors were rescaled to put the unit diagonal on U. */
+    form?: LUForm;
+}
+
+/** Cost of a solve on the flat storage, shown to make the O(n³) growth visible. */
+export interface SolveTiming {
+    n: number;
+    milliseconds: number;
+    flops: number;
+}
+
+/** Everything one solve produces; fields a method does not compute stay null. */
+export interface SolveOutcome {
+    status: SolutionStatus | null;
+    /** Set only when there is a single solution to show (unique, or a converged iteration). */
+    solution: Scalar[] | null;
+    lu: LUDisplay | null;
+    factorization: FactorizationResult | null;
+    /** Thomas or Banded LU, with the bandwidth used and the flop counts to compare. */
+    banded: BandedResult | null;
+    inverse: Scalar[][] | null;
+    singular: Singularity<Scalar> | null;
+    trace: TraceStep<Scalar>[] | null;
+    general: GeneralSolution<Scalar> | null;
+    residual: number | null;
+    iterative: IterativeResult | null;
+    /** Power iteration, inverse power iteration or the QR algorithm; b is not used. */
+    eigen: EigenResult | null;
+    diagnostics: Diagnostics | null;
+    comparison: ComparisonResult | null;
+    multiple: { status: SolutionStatus; solution: Scalar[] | null }[] | null;
+    timing: SolveTiming | null;
+}
+
+export const emptyOutcome = (): SolveOutcome => ({
+    status: null,
+    solution: null,
+    lu: null,
+    factorization: null,
+    banded: null,
+    inverse: null,
+    singular: null,
+    trace: null,
+    general: null,
+    residual: null,
+    iterative: null,
+    eigen: null,
+    diagnostics: null,
+    comparison: null,
+    multiple: null,
+    timing: null,
+});
+
+const iterativeOptions = ({ iterativeSettings }: ProblemState): IterativeOptions => {
+    const guess = iterativeSettings.initialGuess.trim();
+    return {
+        tolerance: iterativeSettings.tolerance,
+        maxIterations: iterativeSettings.maxIterations,
+        initialGuess: guess ? guess.split(/[\s,]+/).map(Number) : undefined,
+    };
+};
+
+/**
+ * Complex counterpart of solveProblem for the elimination methods, LU and the inverse.
+ * The diagnostics are for real matrices, so only the residual ‖Ax − b‖₂ is reported.
+ */
+const solveComplexProblem = (problem: ProblemState, imaginary: NonNullable<ProblemState['imaginary']>, trace: boolean): SolveOutcome => {
+    const { matrixA, matrixB, method, exact, pivoting } = problem;
+    if (exact) throw new Error("Exact fractions are not available for complex systems.");
+    if (METHODS.find(m => m.id === method)?.decimalOnly ?? true) {
+        throw new Error("Complex systems can be solved with Gaussian Elimination, Gauss-Jordan, LU (Doolittle or Crout) or the inverse.");
+    }
+    const A = toComplexMatrix(matrixA, imaginary.A);
+    const b = toComplexVector(matrixB, imaginary.b);
+    const options: SolverOptions = { trace, pivoting, luForm: method === 'crout' ? 'crout' : 'doolittle' };
+    const outcome = emptyOutcome();
+
+    if (method === 'inverse') {
+        const { inverse, singular, trace: steps } = invertMatrixComplex(A, options);
+        outcome.inverse = inverse;
+        outcome.singular = singular ?? null;
+        outcome.trace = steps ?? null;
+        return outcome;
+    }
+
+    const res = method === 'gauss'
+        ? solveGaussEliminationComplex(A, b, options)
+        : method === 'gauss-jordan'
+            ? solveGaussJordanComplex(A, b, options)
+            : solveLUFactorizationComplex(A, b, options);
+    outcome.status = res.status;
+    outcome.trace = res.trace ?? null;
+    outcome.general = res.general ?? null;
+    outcome.singular = res.singular ?? null;
+    if (res.L && res.U && res.P) {
+        outcome.lu = { A, L: res.L, U: res.U, P: res.P, Q: res.Q, y: res.y, form: options.luForm };
+    }
+    if (res.status === 'unique' && res.solution) {
+        outcome.solution = res.solution;
+        outcome.residual = complexResidualNorm(A, res.solution, b);
+    }
+    return outcome;
+};
+
+/** What a method needs besides its id; the worker fills it from a ProblemState, the command line from its flags. */
+export interface MethodInput {
+    A: Matrix;
+    b: Vector;
+    /** Further right-hand sides, solved with the same LU factorization. */
+    extraRhs: Vector[];
+    exact: boolean;
+    /** Trace and pivoting; the LU form follows from the method. */
+    solver: SolverOptions;
+    iterative: IterativeOptions & { omega: number; shift: number };
+    /** Bandwidth for Banded LU; detected from A when null. */
+    bandwidth: Bandwidth | null;
+}
+
+/**
+ * Runs one method, shared by the worker and the command line. Errors a method cannot recover from
+ * are thrown; the diagnostics are left to the caller.
+ */
+export const solveWithMethod = (method: string, input: MethodInput): SolveOutcome => {
+    const { A, b, extraRhs, exact, iterative: settings } = input;
+    const info = METHODS.find(m => m.id === method);
+    if (!info) throw new Error(`Unknown method "${method}".`);
+    if (exact && info.decimalOnly) throw new Error(`${info.name} is only available in decimal mode.`);
+    const options: SolverOptions = { ...input.solver, luForm: method === 'crout' ? 'crout' : 'doolittle' };
+    const outcome = emptyOutcome();
+    let res: SolverResult | ExactSolverResult;
+
+    switch (method) {
+        case 'gauss':
+        case 'gauss-jordan':
+            res = method === 'gauss'
+                ? exact ? solveGaussEliminationExact(A, b, options) : solveGaussElimination(A, b, options)
+                : exact ? solveGaussJordanExact(A, b, options) : solveGaussJordan(A, b, options);
+            outcome.status = res.status;
+            outcome.trace = res.trace ?? null;
+            outcome.general = res.general ?? null;
+            if (res.status === 'unique' && res.solution) {
+                outcome.solution = res.solution;
+            }
+            break;
+        case 'lu':
+        case 'crout': {
+            // Every right-hand side reuses the same factorization; the first one drives the main display
+            const columns = [b, ...extraRhs];
+            const results: (SolverResult | ExactSolverResult)[] = exact
+                ? solveLUFactorizationMultipleExact(A, columns, options)
+                : solveLUFactorizationMultiple(A, columns, options);
+            res = results[0];
+            if (results.length > 1) {
+                outcome.multiple = results.map(r => ({ status: r.status, solution: r.solution ?? null }));
+            }
+            outcome.status = res.status;
+            outcome.trace = res.trace ?? null;
+            outcome.general = res.general ?? null;
+            outcome.singular = res.singular ?? null;
+            if (res.L && res.U && res.P) {
+                outcome.lu = { A, L: res.L, U: res.U, P: res.P, Q: res.Q, y: res.y, form: options.luForm };
+            }
+            if (res.status === 'unique' && res.solution) {
+                outcome.solution = res.solution;
+            }
+            break;
+        }
+        case 'cholesky':
+        case 'ldlt':
+        case 'qr-householder':
+        case 'qr-gram-schmidt': {
+            const factorization = method === 'cholesky'
+                ? solveCholesky(A, b)
+                : method === 'ldlt'
+                    ? solveLDLT(A, b)
+                    : solveQR(A, b, method === 'qr-householder' ? 'householder' : 'gram-schmidt');
+            outcome.factorization = factorization;
+            outcome.status = factorization.status;
+            outcome.general = factorization.general ?? null;
+            if (factorization.status === 'unique' && factorization.solution) {
+                outcome.solution = factorization.solution;
+            }
+            break;
+        }
+        case 'thomas':
+        case 'banded-lu': {
+            const banded = method === 'thomas' ? solveThomas(A, b) : solveBandedLU(A, b, input.bandwidth);
+            outcome.banded = banded;
+            outcome.status = banded.status;
+            outcome.general = banded.general ?? null;
+            if (banded.status === 'unique' && banded.solution) {
+                outcome.solution = banded.solution;
+            }
+            break;
+        }
+        case 'lsq-normal':
+        case 'lsq-qr':
+            res = solveLeastSquares(A, b, method === 'lsq-qr' ? 'qr' : 'normal');
+            outcome.status = res.status;
+            outcome.general = res.general ?? null;
+            outcome.residual = res.residualNorm ?? null;
+            if (res.status === 'unique' && res.solution) {
+                outcome.solution = res.solution;
+            }
+            break;
+        case 'jacobi':
+        case 'gauss-seidel':
+        case 'sor': {
+            if (!(settings.tolerance > 0)) throw new Error("The tolerance must be a positive number.");
+            if (settings.initialGuess?.some(Number.isNaN)) throw new Error("The initial guess must be a list of numbers.");
+            const iterative = method === 'jacobi'
+                ? solveJacobi(A, b, settings)
+                : method === 'gauss-seidel'
+                    ? solveGaussSeidel(A, b, settings)
+                    : solveSOR(A, b, settings);
+            outcome.iterative = iterative;
+            if (iterative.status === 'converged') {
+                outcome.solution = iterative.solution;
+            }
+            break;
+        }
+        case 'power':
+        case 'inverse-power':
+        case 'qr-algorithm':
+            if (!(settings.tolerance > 0)) throw new Error("The tolerance must be a positive number.");
+            if (settings.initialGuess?.some(Number.isNaN)) throw new Error("The starting vector must be a list of numbers.");
+            outcome.eigen = method === 'power'
+                ? powerIteration(A, settings)
+                : method === 'inverse-power'
+                    ? inversePowerIteration(A, settings)
+                    : qrAlgorithm(A, settings);
+            break;
+        case 'compare':
+            outcome.comparison = compareMethods(A, b, { pivoting: options.pivoting });
+            break;
+        case 'inverse': {
+            const { inverse, singular, trace: steps } = exact
+                ? invertMatrixExact(A, options)
+                : invertMatrix(A, options);
+            outcome.inverse = inverse;
+            outcome.singular = singular ?? null;
+            outcome.trace = steps ?? null;
+            break;
+        }
+    }
+    return outcome;
+};
+
+/**
+ * Runs the problem's method on its system. Errors a method cannot recover from are thrown.
+ * The step trace is optional because large systems would record n snapshots of n² entries.
+ */
+export const solveProblem = (problem: ProblemState, trace = true): SolveOutcome => {
+    if (problem.imaginary) return solveComplexProblem(problem, problem.imaginary, trace);
+    const { matrixA, matrixB, extraRhs, method, exact, pivoting, iterativeSettings, bandwidth } = problem;
+    const outcome = solveWithMethod(method, {
+        A: matrixA,
+        b: matrixB,
+        extraRhs,
+        exact,
+        solver: { trace, pivoting },
+        iterative: { ...iterativeOptions(problem), omega: iterativeSettings.omega, shift: iterativeSettings.shift },
+        bandwidth,
+    });
+
+    // Diagnostics invert A and find its determinant and rank, three more O(n³) passes that would
+    // cost several times the solve itself for a large system. Only the residual is reported there.
+    if (isLargeSystem(problem.m, problem.n)) {
+        if (outcome.solution) outcome.residual = residualNorm(matrixA, outcome.solution.map(toNumber), matrixB);
+    } else {
+        outcome.diagnostics = computeDiagnostics(matrixA, matrixB, outcome.solution?.map(toNumber));
+    }
+    return outcome;
+};
+
+/**
+ * LU with partial pivoting on flat storage, one factorization shared by every right-hand side.
+ * Only the solution, the residual and the timing come back: L and U of a large system are not displayed.
+ * A singular A gives the status and the Singularity instead, as on the small-n path.
+ */
+export const solveDenseProblem = (
+    A: DenseMatrix,
+    columns: Float64Array[],
+    onProgress?: (fraction: number) => void
+): SolveOutcome => {
+    const start = performance.now();
+    const lu = factorDense(A, onProgress);
+    const outcome = emptyOutcome();
+    if (lu.singularColumn !== undefined) {
+        // Classified like the small-n LU path: Gauss elimination decides 'none' or 'infinite' for each
+        // right-hand side. The general solution of a large system is not displayed, so it is left out.
+        const matrix = fromDense(A);
+        const results = columns.map(b => solveGaussElimination(matrix, Array.from(b)));
+        outcome.status = results[0].status;
+        outcome.singular = describeSingularity(matrix, lu.singularColumn);
+        if (columns.length > 1) {
+            outcome.multiple = results.map(result => ({ status: result.status, solution: null }));
+        }
+        return outcome;
+    }
+    const solutions = columns.map(b => solveDenseLU(lu, b));
+    const milliseconds = performance.now() - start;
+
+    const x: Vector = Array.from(solutions[0]);
+    outcome.status = 'unique';
+    outcome.solution = x;
+    outcome.residual = denseResidualNorm(A, solutions[0], columns[0]);
+    if (columns.length > 1) {
+        outcome.multiple = solutions.map(solution => ({ status: 'unique', solution: Array.from(solution) }));
+    }
+    outcome.timing = { n: A.n, milliseconds, flops: denseFlops(A.n, columns.length) };
+    return outcome;
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { factorizeLU, invertMatrix, solveGaussElimination, solveGaussJordan, solveLUFactorization } from './solver';
+import type { Matrix, Vector, PivotingStrategy } from './solver';
+import { computeDiagnostics } from './diagnostics';
+import { identity, multiply, multiplyVector, normInf } from './matrix';
+
+// Backward-stable elimination loses about n · ε · κ(A) relative accuracy; the constant leaves room
+// for the growth factor of the random matrices without letting real bugs (errors of order 1) through.
+const SAFETY = 100;
+const MAX_CONDITION = 1e8;
+const PIVOTING: PivotingStrategy[] = ['partial', 'scaled', 'complete'];
+
+const maxAbs = (values: number[]) => Math.max(0, ...values.map(Math.abs));
+const maxDifference = (A: Matrix, B: Matrix) => maxAbs(A.flatMap((row, i) => row.map((val, j) => val - B[i][j])));
+
+/** Integer entries keep the products exact, so any error comes from the solver, not the test. */
+const squareSystem = fc.integer({ min: 1, max: 7 }).chain(n =>
+    fc.record({
+        A: fc.array(fc.array(fc.integer({ min: -20, max: 20 }), { minLength: n, maxLength: n }), { minLength: n, maxLength: n }),
+        x: fc.array(fc.integer({ min: -50, max: 50 }), { minLength: n, maxLength: n }),
+    })
+);
+
+/**
+ * Well-conditioned only: singular and nearly singular draws are discarded with fc.pre.
+ * Returns the tolerance unit n · ε · κ∞(A) for the accepted matrix.
+ */
+const conditionScale = (A: Matrix) => {
+    const condition = computeDiagnostics(A, new Array(A.length).fill(0)).conditionInf;
+    fc.pre(condition !== null && Number.isFinite(condition) && condition < MAX_CONDITION);
+    return SAFETY * A.length * Number.EPSILON * condition!;
+};
+
+describe.each(PIVOTING)('random well-conditioned systems with %s pivoting', (pivoting) => {
+    const methods = [
+        { name: 'Gauss elimination', solve: solveGaussElimination },
+        { name: 'Gauss-Jordan', solve: solveGaussJordan },
+        { name: 'LU factorization', solve: solveLUFactorization },
+    ];
+
+    it.each(methods)('$name gives A·x ≈ b and x close to the true solution', ({ solve }) => {
+        fc.assert(
+            fc.property(squareSystem, ({ A, x }) => {
+                const scale = conditionScale(A);
+                const b = multiplyVector(A, x);
+                const result = solve(A, b, { pivoting });
+                expect(result.status).toBe('unique');
+                const solution = result.solution as Vector;
+
+                const xNorm = Math.max(maxAbs(x), 1);
+                expect(maxAbs(solution.map((val, i) => val - x[i])) / xNorm).toBeLessThanOrEqual(scale);
+                const residual = maxAbs(multiplyVector(A, solution).map((val, i) => val - b[i]));
+                expect(residual / (normInf(A) * xNorm)).toBeLessThanOrEqual(scale);
+            })
+        );
+    });
+
+    it('factorizes P·A ≈ L·U (P·A·Q with complete pivoting)', () => {
+        fc.assert(
+            fc.property(squareSystem, ({ A }) => {
+                const scale = conditionScale(A);
+                const { L, U, P, Q, complete } = factorizeLU(A, { pivoting });
+                expect(complete).toBe(true);
+                expect(Q !== undefined).toBe(pivoting === 'complete');
+
+                const PA = Q ? multiply(multiply(P, A), Q) : multiply(P, A);
+                expect(maxDifference(multiply(L, U), PA) / normInf(A)).toBeLessThanOrEqual(scale);
+                L.forEach((row, i) => {
+                    expect(row[i]).toBe(1);
+                    row.slice(i + 1).forEach(val => expect(val).toBe(0));
+                    // Row pivoting keeps every multiplier at most 1 in magnitude
+                    if (pivoting !== 'scaled') row.slice(0, i).forEach(val => expect(Math.abs(val)).toBeLessThanOrEqual(1));
+                });
+                U.forEach((row, i) => row.slice(0, i).forEach(val => expect(val).toBe(0)));
+            })
+        );
+    });
+
+    it('inverts A with A·A⁻¹ ≈ I', () => {
+        fc.assert(
+            fc.property(squareSystem, ({ A }) => {
+                const scale = conditionScale(A);
+                const { inverse } = invertMatrix(A, { pivoting });
+                expect(inverse).not.toBeNull();
+                expect(maxDifference(multiply(A, inverse!), identity(A.length))).toBeLessThanOrEqual(scale);
+            })
+        );
+    });
+});
+
+describe('singular random systems', () => {
+    it('are never reported as having a unique solution', () => {
+        fc.assert(
+            fc.property(squareSystem.filter(({ A }) => A.length >= 2), fc.nat(), ({ A, x }, seed) => {
+                // Repeating a row (scaled) makes A singular by construction
+                const source = seed % A.length;
+                const target = (source + 1) % A.length;
+                const singular = A.map(row => [...row]);
+                singular[target] = singular[source].map(val => 2 * val);
+                const b = multiplyVector(singular, x);
+
+                const result = solveGaussElimination(singular, b);
+                expect(result.status).toBe('infinite');
+                expect(solveLUFactorization(singular, b).status).toBe('infinite');
+                expect(invertMatrix(singular).inverse).toBeNull();
+            })
+        );
+    });
+});
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import {
+    factorizeLU,
+    findInverse,
+    invertMatrix,
+    solveGaussElimination,
+    solveGaussJordan,
+    solveLUFactorization,
+    solveLUFactorizationMultiple,
+} from './solver';
+import type { Matrix, PivotingStrategy } from './solver';
+import { invertMatrixExact, solveGaussEliminationExact, solveGaussJordanExact, solveLUFactorizationExact } from './exactSolver';
+import { multiply } from './matrix';
+import { determinant } from './diagnostics';
+import { formatScalar } from './format';
+import { expectMatrixClose, expectVectorClose } from './testUtils';
+
+// The test cases of the course sheet, as loaded by the example buttons in MatrixInput
+const EXAMPLE_1 = { A: [[2, 1, 3], [4, 3, 5], [6, 5, 5]], b: [1, 1, -3], x: [-3, 1, 2] };
+const EXAMPLE_2 = {
+    A: [[2, -1, -3, 1], [1, 1, 1, -2], [3, 2, -3, -4], [-1, -4, 1, 1]],
+    b: [9, 10, 6, 6],
+    x: ['701/71', '-178/71', '339/71', '76/71'],
+};
+const INVERSE_EXAMPLE = { A: [[1, 2, -3], [-1, 1, -1], [0, -2, 3]], inverse: [[1, 0, 1], [3, 3, 4], [2, 2, 3]] };
+
+const SINGULAR: Matrix = [[1, 2], [2, 4]];
+const DIRECT_METHODS = [
+    { name: 'Gauss Elimination', solve: solveGaussElimination },
+    { name: 'Gauss-Jordan', solve: solveGaussJordan },
+    { name: 'LU Factorization', solve: solveLUFactorization },
+];
+const PIVOTING: PivotingStrategy[] = ['none', 'partial', 'scaled', 'complete'];
+
+const fractionValue = (text: string) => {
+    const [num, den = '1'] = text.split('/');
+    return Number(num) / Number(den);
+};
+
+describe('course examples', () => {
+    describe.each(DIRECT_METHODS)('$name', ({ solve }) => {
+        it.each(PIVOTING)('solves Example 1 with %s pivoting', (pivoting) => {
+            const result = solve(EXAMPLE_1.A, EXAMPLE_1.b, { pivoting });
+            expect(result.status).toBe('unique');
+            expectVectorClose(result.solution, EXAMPLE_1.x);
+        });
+
+        it.each(PIVOTING)('solves Example 2 with %s pivoting', (pivoting) => {
+            const result = solve(EXAMPLE_2.A, EXAMPLE_2.b, { pivoting });
+            expect(result.status).toBe('unique');
+            expectVectorClose(result.solution, EXAMPLE_2.x.map(fractionValue));
+        });
+    });
+
+    it('inverts the inverse example', () => {
+        expectMatrixClose(findInverse(INVERSE_EXAMPLE.A), INVERSE_EXAMPLE.inverse);
+    });
+
+    it.each(PIVOTING)('inverts the inverse example with %s pivoting', (pivoting) => {
+        expectMatrixClose(invertMatrix(INVERSE_EXAMPLE.A, { pivoting }).inverse, INVERSE_EXAMPLE.inverse);
+    });
+
+    it('gives the exact fractions in exact mode', () => {
+        for (const solve of [solveGaussEliminationExact, solveGaussJordanExact, solveLUFactorizationExact]) {
+            expect(solve(EXAMPLE_1.A, EXAMPLE_1.b).solution?.map(String)).toEqual(EXAMPLE_1.x.map(String));
+            expect(solve(EXAMPLE_2.A, EXAMPLE_2.b).solution?.map(String)).toEqual(EXAMPLE_2.x);
+        }
+        expect(invertMatrixExact(INVERSE_EXAMPLE.A).inverse?.map(row => row.map(Number))).toEqual(INVERSE_EXAMPLE.inverse);
+    });
+});
+
+describe('singular and inconsistent systems', () => {
+    describe.each(DIRECT_METHODS)('$name', ({ solve }) => {
+        it('reports infinitely many solutions with the general solution', () => {
+            const result = solve(SINGULAR, [3, 6]);
+            expect(result.status).toBe('infinite');
+            expect(result.solution).toBeUndefined();
+            expectVectorClose(result.general?.particular, [3, 0]);
+            expect(result.general?.basis).toHaveLength(1);
+            expectVectorClose(result.general?.basis[0], [-2, 1]);
+            expect(result.general?.freeColumns).toEqual([1]);
+        });
+
+        it('reports no solution for an inconsistent system', () => {
+            const result = solve(SINGULAR, [3, 7]);
+            expect(result.status).toBe('none');
+            expect(result.solution).toBeUndefined();
+        });
+    });
+
+    it('handles rectangular systems in the eliminations', () => {
+        expect(solveGaussElimination([[1, 1, 1], [1, -1, 2]], [3, 2]).status).toBe('infinite');
+        expect(solveGaussJordan([[1, 1], [1, -1], [2, 0]], [2, 0, 2]).solution).toEqual([1, 1]);
+        expect(solveGaussElimination([[1, 1], [1, -1], [2, 0]], [2, 0, 3]).status).toBe('none');
+    });
+
+    it('refuses to invert a singular matrix', () => {
+        expect(findInverse(SINGULAR)).toBeNull();
+        expect(invertMatrixExact(SINGULAR).inverse).toBeNull();
+    });
+
+    it('requires a square matrix for LU and the inverse', () => {
+        expect(() => solveLUFactorization([[1, 2, 3], [4, 5, 6]], [1, 2])).toThrow(/square/);
+        expect(() => findInverse([[1, 2, 3], [4, 5, 6]])).toThrow(/square/);
+    });
+});
+
+describe('singular LU and inverse', () => {
+    // Column 3 = column 1 + column 2 and row 3 = row 1 + row 2
+    const RANK_TWO: Matrix = [[1, 2, 3], [4, 5, 9], [5, 7, 12]];
+
+    it('stops the factorization at a zero pivot column', () => {
+        const factors = factorizeLU(SINGULAR);
+        expect(factors.complete).toBe(false);
+        expect(factors.singular?.column).toBe(1);
+    });
+
+    it.each([[3, 6], [3, 7]])('classifies a singular system like Gauss elimination (b = %s, %s)', (...b) => {
+        const lu = solveLUFactorization(SINGULAR, b);
+        const gauss = solveGaussElimination(SINGULAR, b);
+        expect(lu.status).toBe(gauss.status);
+        expect(lu.general).toEqual(gauss.general);
+    });
+
+    it('returns the partial factors with rank, determinant and the failing column', () => {
+        const { L, U, P, singular } = solveLUFactorization(RANK_TWO, [1, 2, 3]);
+        expect(L).toBeDefined();
+        expect(U).toBeDefined();
+        expect(P).toBeDefined();
+        expect(singular).toMatchObject({ column: 2, rank: 2, determinant: 0 });
+        // The first two columns of L · U already match P · A
+        const LU = multiply(L!, U!);
+        const PA = multiply(P!, RANK_TWO);
+        LU.forEach((row, i) => expectVectorClose(row.slice(0, 2), PA[i].slice(0, 2)));
+    });
+
+    it('gives determinant 0 rather than the round-off left in the last pivot', () => {
+        const ONE_TO_NINE: Matrix = [[1, 2, 3], [4, 5, 6], [7, 8, 9]];
+        expect(determinant(ONE_TO_NINE)).toBe(0);
+        expect(determinant(RANK_TWO)).toBe(0);
+        expect(determinant(SINGULAR)).toBe(0);
+        expect(determinant(INVERSE_EXAMPLE.A)).toBeCloseTo(1, 10);
+    });
+
+    it('finds a column and a row dependency', () => {
+        const { singular } = invertMatrix(RANK_TWO);
+        expect(singular).toBeDefined();
+        const { columnDependency, rowDependency } = singular!;
+        expect(Math.max(...columnDependency.map(Math.abs))).toBeGreaterThan(0);
+        expect(Math.max(...rowDependency.map(Math.abs))).toBeGreaterThan(0);
+        expectVectorClose(RANK_TWO.map(row => row.reduce((sum, val, j) => sum + val * columnDependency[j], 0)), [0, 0, 0]);
+        expectVectorClose(RANK_TWO[0].map((_, j) => RANK_TWO.reduce((sum, row, i) => sum + row[j] * rowDependency[i], 0)), [0, 0, 0]);
+    });
+
+    it('reports the singularity for every right-hand side when several share one factorization', () => {
+        const results = solveLUFactorizationMultiple(SINGULAR, [[3, 6], [3, 7]]);
+        expect(results.map(result => result.status)).toEqual(['infinite', 'none']);
+        expect(results.every(result => result.singular?.rank === 1)).toBe(true);
+    });
+
+    it('agrees with the exact solver', () => {
+        expect(solveLUFactorizationExact(SINGULAR, [3, 6]).status).toBe('infinite');
+        expect(solveLUFactorizationExact(SINGULAR, [3, 7]).status).toBe('none');
+        const { inverse, singular } = invertMatrixExact(RANK_TWO);
+        expect(inverse).toBeNull();
+        expect(singular?.rank).toBe(2);
+        expect(singular?.columnDependency.map(String)).toEqual(['-1', '-1', '1']);
+    });
+});
+
+describe('pivoting', () => {
+    const TINY_PIVOT = { A: [[1e-17, 1], [1, 1]], b: [1, 2] };
+
+    it('loses the answer to round-off without pivoting', () => {
+        expect(solveGaussElimination(TINY_PIVOT.A, TINY_PIVOT.b, { pivoting: 'none' }).solution).toEqual([0, 1]);
+    });
+
+    it('shows the tiny pivot in the trace instead of rounding it to 0', () => {
+        const { trace } = solveGaussElimination(TINY_PIVOT.A, TINY_PIVOT.b, { pivoting: 'none', trace: true });
+        expect(formatScalar(trace![0].matrix[0][0])).toBe('1.0000e-17');
+        expect(formatScalar(0)).toBe('0');
+        expect(formatScalar(-0)).toBe('0');
+    });
+
+    it.each(['partial', 'scaled', 'complete'] as PivotingStrategy[])('recovers it with %s pivoting', (pivoting) => {
+        expectVectorClose(solveGaussElimination(TINY_PIVOT.A, TINY_PIVOT.b, { pivoting }).solution, [1, 1]);
+    });
+
+    it('returns P and Q with P·A·Q = L·U under complete pivoting', () => {
+        const { L, U, P, Q } = factorizeLU(EXAMPLE_2.A, { pivoting: 'complete' });
+        expect(Q).toBeDefined();
+        expectMatrixClose(multiply(L, U), multiply(multiply(P, EXAMPLE_2.A), Q!));
+    });
+});
+
+describe('Crout form', () => {
+    it('rescales the Doolittle factors and traces the division of each row of U by its pivot', () => {
+        const doolittle = factorizeLU(EXAMPLE_1.A);
+        const { L, U, P, trace } = factorizeLU(EXAMPLE_1.A, { luForm: 'crout', trace: true });
+        expect(U.map((row, i) => row[i])).toEqual([1, 1, 1]);
+        expect(L.map((row, i) => row[i])).toEqual(doolittle.U.map((row, i) => row[i]));
+        expectMatrixClose(multiply(L, U), multiply(P, EXAMPLE_1.A));
+
+        const scales = trace!.slice(-3);
+        expect(scales.map(step => [step.operation, step.row, step.factor])).toEqual(L.map((row, i) => ['scale', i, row[i]]));
+    });
+});
@@ -3,73 +3,322 @@ export type Vector = number[];
 
 export type SolutionStatus = 'unique' | 'infinite' | 'none';
 
+export type StepOperation = 'start' | 'swap' | 'column-swap' | 'scale' | 'eliminate';
+
+/**
+ * A single elementary row operation recorded during elimination.
+ * `matrix` is a snapshot of the working (augmented) matrix after the operation.
+ * `T` is the entry type: plain numbers, or fractions in exact mode.
+ */
+export interface TraceStep<T = number> {
+    operation: StepOperation;
+    /** Row that was modified (for a swap, the first of the two rows). */
+    row: number;
+    /** Second row of a swap, or the pivot row used for elimination. */
+    sourceRow?: number;
+    /** The two columns exchanged by a column swap (complete pivoting). */
+    columns?: [number, number];
+    /** Scale divisor or elimination multiplier. */
+    factor?: T;
+    pivot?: { row: number; col: number };
+    changedRows: number[];
+    matrix: T[][];
+    /** Index of the first column of the augmented part ([A | b] or [A | I]), if any. */
+    augmentedColumn?: number;
+}
+
+/**
+ * General solution of a consistent rank-deficient system: x = particular + Σ t_k · basis[k].
+ * Each basis vector belongs to the free variable at the same index in `freeColumns`.
+ */
+export interface GeneralSolution<T = number> {
+    particular: T[];
+    basis: T[][];
+    pivotColumns: number[];
+    freeColumns: number[];
+}
+
+/**
+ * How the pivot of each elimination step is chosen:
+ * - 'none': the entry already in place, swapping rows only when it is exactly zero
+ * - 'partial': the largest |a_ik| in the pivot column
+ * - 'scaled': the largest |a_ik| / s_i, where s_i is the largest |a_ij| in the original row i
+ * - 'complete': the largest |a_ij| in the remaining submatrix, which also swaps columns (unknowns)
+ */
+export type PivotingStrategy = 'none' | 'partial' | 'scaled' | 'complete';
+
+/**
+ * Normalization of an LU factorization: Doolittle puts 1s on the diagonal of L, Crout on the diagonal of U.
+ */
+export type LUForm = 'doolittle' | 'crout';
+
+export interface SolverOptions {
+    /** Record every row operation in `trace`. */
+    trace?: boolean;
+    /** Pivot selection; defaults to 'partial'. */
+    pivoting?: PivotingStrategy;
+    /** LU factorization form; defaults to 'doolittle'. */
+    luForm?: LUForm;
+}
+
 export interface SolverResult {
     status: SolutionStatus;
     solution?: Vector;
     L?: Matrix;
     U?: Matrix;
     P?: Matrix;
+    /** Column permutation of LU with complete pivoting: P * A * Q = L * U. */
+    Q?: Matrix;
+    /** Intermediate vector of the LU forward substitution L * y = P * b. */
+    y?: Vector;
+    general?: GeneralSolution;
+    /** ‖Ax − b‖₂, reported by the least-squares solvers. */
+    residualNorm?: number;
+    /** Set by LU when A is singular; L, U and P then hold the factors up to the failing column. */
+    singular?: Singularity;
+    /** Floating-point operations (+, −, ×, ÷) performed, for comparing methods. */
+    flops?: number;
+    trace?: TraceStep[];
+}
+
+/**
+ * Why a square matrix has no inverse or complete LU factorization: elimination ran out of nonzero pivots.
+ * The dependencies show it concretely, e.g. column 2 = 2 · column 1.
+ */
+export interface Singularity<T = number> {
+    /** Column of A (0-based) in which elimination found no nonzero pivot. */
+    column: number;
+    rank: number;
+    determinant: 0;
+    /** Nonzero c with A * c = 0, i.e. Σ c_j · (column j of A) = 0. */
+    columnDependency: T[];
+    /** Nonzero r with Aᵀ * r = 0, i.e. Σ r_i · (row i of A) = 0. */
+    rowDependency: T[];
+}
+
+export interface InverseResult {
+    inverse: Matrix | null;
+    /** Set instead of `inverse` when A is singular. */
+    singular?: Singularity;
+    flops?: number;
+    trace?: TraceStep[];
 }
 
 const EPSILON = 1e-10;
 
+/** LU and the inverse only exist for square matrices; the eliminations accept any m×n system. */
+export const assertSquare = (matrix: unknown[][], method: string) => {
+    if (matrix.some(row => row.length !== matrix.length)) {
+        throw new Error(`${method} requires a square matrix.`);
+    }
+};
+
+/**
+ * Collects trace steps when tracing is enabled; every method is a no-op otherwise.
+ * `snapshot` builds the current working matrix and is only called when recording.
+ */
+export const createRecorder = <T = number>(enabled: boolean | undefined, snapshot: () => T[][], augmentedColumn?: number) => {
+    const steps: TraceStep<T>[] = [];
+    const record = (step: Omit<TraceStep<T>, 'matrix'>) => {
+        if (enabled) steps.push({ ...step, matrix: snapshot(), augmentedColumn });
+    };
+    record({ operation: 'start', row: 0, changedRows: [] });
+    return {
+        swap: (row: number, other: number, pivot: { row: number; col: number }) =>
+            record({ operation: 'swap', row, sourceRow: other, pivot, changedRows: [row, other] }),
+        swapColumns: (col: number, other: number, pivot: { row: number; col: number }) =>
+            record({ operation: 'column-swap', row: pivot.row, columns: [col, other], pivot, changedRows: [] }),
+        scale: (row: number, divisor: T, pivot: { row: number; col: number }) =>
+            record({ operation: 'scale', row, factor: divisor, pivot, changedRows: [row] }),
+        eliminate: (row: number, pivotRow: number, factor: T, pivot: { row: number; col: number }) =>
+            record({ operation: 'eliminate', row, sourceRow: pivotRow, factor, pivot, changedRows: [row] }),
+        steps: enabled ? steps : undefined,
+    };
+};
+
+/**
+ * Finds the pivot for the elimination step whose pivot belongs at (row, col), following `strategy`.
+ * `magnitude` must return exactly 0 for entries that count as zero; null means every candidate is zero.
+ * `scales` holds the row scales s_i for scaled partial pivoting, in the current row order.
+ * Only complete pivoting returns a column other than `col`.
+ */
+export const selectPivot = <T>(
+    A: T[][],
+    row: number,
+    col: number,
+    strategy: PivotingStrategy,
+    magnitude: (value: T) => number,
+    scales: number[] = [],
+): { row: number; col: number } | null => {
+    const lastCol = strategy === 'complete' ? A[0].length - 1 : col;
+    let best: { row: number; col: number } | null = null;
+    let bestValue = 0;
+    for (let j = col; j <= lastCol; j++) {
+        for (let i = row; i < A.length; i++) {
+            const size = magnitude(A[i][j]);
+            if (size === 0) continue;
+            if (strategy === 'none') return { row: i, col: j };
+            // An all-zero row has scale 0 but can never supply a pivot
+            const value = strategy === 'scaled' ? size / (scales[i] || 1) : size;
+            if (value > bestValue) {
+                best = { row: i, col: j };
+                bestValue = value;
+            }
+        }
+    }
+    return best;
+};
+
+/** Row scales s_i = max_j |a_ij| for scaled partial pivoting. */
+export const rowScales = <T>(A: T[][], magnitude: (value: T) => number): number[] =>
+    A.map(row => Math.max(0, ...row.map(magnitude)));
+
+/** Exchanges columns a and b of every row in place. */
+export const swapColumns = <T>(A: T[][], a: number, b: number) => {
+    for (const row of A) {
+        [row[a], row[b]] = [row[b], row[a]];
+    }
+};
+
+/** Undoes the column swaps of complete pivoting: entry k of `values` belongs to unknown `order[k]`. */
+export const unpermute = <T>(values: T[], order: number[]): T[] => {
+    const result = [...values];
+    order.forEach((original, k) => {
+        result[original] = values[k];
+    });
+    return result;
+};
+
+/** Maps a general solution found with swapped columns back to the original unknowns. */
+export const unpermuteGeneral = <T>(general: GeneralSolution<T>, order: number[]): GeneralSolution<T> => ({
+    particular: unpermute(general.particular, order),
+    basis: general.basis.map(v => unpermute(v, order)),
+    pivotColumns: general.pivotColumns.map(j => order[j]),
+    freeColumns: general.freeColumns.map(j => order[j]),
+});
+
+// Without pivoting, tiny pivots are used as they are: that round-off is what the strategy comparison shows.
+const pivotMagnitude = (strategy: PivotingStrategy) => (value: number) =>
+    strategy === 'none' || Math.abs(value) >= EPSILON ? Math.abs(value) : 0;
+
+const augment = (A: Matrix, b: Vector): Matrix => A.map((row, i) => [...row, b[i]]);
+
+/**
+ * Builds the general solution from a row echelon form (reduced or not).
+ * Row r of A holds the pivot for column pivotColumns[r]; every other column is free.
+ * The particular solution sets all free variables to 0, and each basis vector solves
+ * the homogeneous system with one free variable set to 1.
+ */
+const buildGeneralSolution = (A: Matrix, b: Vector, pivotColumns: number[]): GeneralSolution => {
+    const n = A[0].length;
+    const freeColumns = Array.from({ length: n }, (_, j) => j).filter(j => !pivotColumns.includes(j));
+
+    const backSubstitute = (rhs: Vector, freeValues: Vector) => {
+        const x = new Array(n).fill(0);
+        freeColumns.forEach((col, k) => {
+            x[col] = freeValues[k];
+        });
+        for (let r = pivotColumns.length - 1; r >= 0; r--) {
+            const p = pivotColumns[r];
+            let sum = 0;
+            for (let j = p + 1; j < n; j++) {
+                sum += A[r][j] * x[j];
+            }
+            x[p] = (rhs[r] - sum) / A[r][p];
+        }
+        return x;
+    };
+
+    const zeros = new Array(b.length).fill(0);
+    return {
+        particular: backSubstitute(b, freeColumns.map(() => 0)),
+        basis: freeColumns.map((_, k) => backSubstitute(zeros, freeColumns.map((_, m) => (m === k ? 1 : 0)))),
+        pivotColumns,
+        freeColumns,
+    };
+};
+
 /**
  * Solves a system of linear equations using Gaussian Elimination.
  * Converts the matrix to row-echelon form and then uses back substitution.
  */
-export const solveGaussElimination = (matrix: Matrix, vector: Vector): SolverResult => {
-    const n = matrix.length;
+export const solveGaussElimination = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): SolverResult => {
+    // m equations in n unknowns; the system does not have to be square
+    const m = matrix.length;
+    const n = matrix[0]?.length ?? 0;
     const A = matrix.map((row) => [...row]);
     const b = [...vector];
+    const recorder = createRecorder(options.trace, () => augment(A, b), n);
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = pivotMagnitude(strategy);
+    const scales = rowScales(A, magnitude);
+    // columnOrder[k] is the unknown currently held in column k (only complete pivoting changes it)
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+    let flops = 0;
 
     let pivotRow = 0;
+    const pivotColumns: number[] = [];
 
-    for (let col = 0; col < n && pivotRow < n; col++) {
-        // Find the pivot element (Partial Pivoting)
+    for (let col = 0; col < n && pivotRow < m; col++) {
+        // Find the pivot element (Partial Pivoting by default)
         // Select the row with the largest absolute value in the current column to ensure numerical stability.
-        let maxRow = pivotRow;
-        for (let i = pivotRow + 1; i < n; i++) {
-            if (Math.abs(A[i][col]) > Math.abs(A[maxRow][col])) {
-                maxRow = i;
-            }
+        const choice = selectPivot(A, pivotRow, col, strategy, magnitude, scales);
+        if (!choice) {
+            continue;
         }
 
-        if (Math.abs(A[maxRow][col]) < EPSILON) {
-            continue;
+        const pivot = { row: pivotRow, col };
+        if (choice.col !== col) {
+            swapColumns(A, col, choice.col);
+            [columnOrder[col], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[col]];
+            recorder.swapColumns(col, choice.col, pivot);
         }
 
         // Swap the current row with the pivot row
-        [A[pivotRow], A[maxRow]] = [A[maxRow], A[pivotRow]];
-        [b[pivotRow], b[maxRow]] = [b[maxRow], b[pivotRow]];
+        const maxRow = choice.row;
+        if (maxRow !== pivotRow) {
+            [A[pivotRow], A[maxRow]] = [A[maxRow], A[pivotRow]];
+            [b[pivotRow], b[maxRow]] = [b[maxRow], b[pivotRow]];
+            [scales[pivotRow], scales[maxRow]] = [scales[maxRow], scales[pivotRow]];
+            recorder.swap(pivotRow, maxRow, pivot);
+        }
 
         // Eliminate entries below the pivot to convert A into an Upper Triangular Matrix (Row Echelon Form).
         // For each row i below the pivotRow, we subtract a multiple of the pivotRow.
         // Operation: R_i = R_i - factor * R_pivotRow
-        for (let i = pivotRow + 1; i < n; i++) {
+        for (let i = pivotRow + 1; i < m; i++) {
             // factor = coefficient to be eliminated / pivot value
             const factor = A[i][col] / A[pivotRow][col];
+            if (factor === 0) continue;
             A[i][col] = 0;
             for (let k = col + 1; k < n; k++) {
                 A[i][k] -= factor * A[pivotRow][k];
             }
             b[i] -= factor * b[pivotRow];
+            flops += 1 + 2 * (n - col - 1) + 2;
+            recorder.eliminate(i, pivotRow, factor, pivot);
         }
 
+        pivotColumns.push(col);
         pivotRow++;
     }
 
-    for (let i = pivotRow; i < n; i++) {
+    const trace = recorder.steps;
+
+    // Rows below the last pivot are all zero on the left, so a nonzero right-hand side is a contradiction.
+    for (let i = pivotRow; i < m; i++) {
         if (Math.abs(b[i]) > EPSILON) {
-            return { status: 'none' };
+            return { status: 'none', flops, trace };
         }
     }
 
     if (pivotRow < n) {
-        return { status: 'infinite' };
+        return { status: 'infinite', general: unpermuteGeneral(buildGeneralSolution(A, b, pivotColumns), columnOrder), flops, trace };
     }
 
     // Back Substitution
     // Solve for unknown variables x starting from the last row (n-1) up to the first (0).
+    // With rank n the pivots sit on the diagonal of the first n rows.
 
     const x = new Array(n).fill(0);
     for (let i = n - 1; i >= 0; i--) {
@@ -78,37 +327,53 @@ export const solveGaussElimination = (matrix: Matrix, vector: Vector): SolverRes
             sum += A[i][j] * x[j];
         }
         x[i] = (b[i] - sum) / A[i][i];
+        flops += 2 * (n - i - 1) + 2;
     }
 
-    return { status: 'unique', solution: x };
+    return { status: 'unique', solution: unpermute(x, columnOrder), flops, trace };
 };
 
 /**
  * Solves a system of linear equations using Gauss-Jordan Elimination.
  * Converts the matrix to reduced row-echelon form.
  */
-export const solveGaussJordan = (matrix: Matrix, vector: Vector): SolverResult => {
-    const n = matrix.length;
+export const solveGaussJordan = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): SolverResult => {
+    // m equations in n unknowns; the system does not have to be square
+    const m = matrix.length;
+    const n = matrix[0]?.length ?? 0;
     const A = matrix.map((row) => [...row]);
     const b = [...vector];
+    const recorder = createRecorder(options.trace, () => augment(A, b), n);
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = pivotMagnitude(strategy);
+    const scales = rowScales(A, magnitude);
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+    let flops = 0;
 
     let pivotRow = 0;
+    const pivotColumns: number[] = [];
 
-    for (let col = 0; col < n && pivotRow < n; col++) {
-        // Find the pivot element (Partial Pivoting)
-        let maxRow = pivotRow;
-        for (let i = pivotRow + 1; i < n; i++) {
-            if (Math.abs(A[i][col]) > Math.abs(A[maxRow][col])) {
-                maxRow = i;
-            }
+    for (let col = 0; col < n && pivotRow < m; col++) {
+        // Find the pivot element (Partial Pivoting by default)
+        const choice = selectPivot(A, pivotRow, col, strategy, magnitude, scales);
+        if (!choice) {
+            continue;
         }
 
-        if (Math.abs(A[maxRow][col]) < EPSILON) {
-            continue;
+        const position = { row: pivotRow, col };
+        if (choice.col !== col) {
+            swapColumns(A, col, choice.col);
+            [columnOrder[col], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[col]];
+            recorder.swapColumns(col, choice.col, position);
         }
 
-        [A[pivotRow], A[maxRow]] = [A[maxRow], A[pivotRow]];
-        [b[pivotRow], b[maxRow]] = [b[maxRow], b[pivotRow]];
+        const maxRow = choice.row;
+        if (maxRow !== pivotRow) {
+            [A[pivotRow], A[maxRow]] = [A[maxRow], A[pivotRow]];
+            [b[pivotRow], b[maxRow]] = [b[maxRow], b[pivotRow]];
+            [scales[pivotRow], scales[maxRow]] = [scales[maxRow], scales[pivotRow]];
+            recorder.swap(pivotRow, maxRow, position);
+        }
 
         // Normalize the pivot row so the pivot element becomes 1 (Identity Matrix property).
         // Operation: R_pivot = R_pivot / pivotValue
@@ -117,22 +382,30 @@ export const solveGaussJordan = (matrix: Matrix, vector: Vector): SolverResult =
             A[pivotRow][j] /= pivot;
         }
         b[pivotRow] /= pivot;
+        flops += n - col + 1;
+        if (pivot !== 1) recorder.scale(pivotRow, pivot, position);
 
         // Eliminate all other entries in the current column (both above and below) to make them 0.
         // This transforms the matrix directly into Reduced Row Echelon Form.
-        for (let i = 0; i < n; i++) {
+        for (let i = 0; i < m; i++) {
             if (i !== pivotRow) {
                 const factor = A[i][col];
+                if (factor === 0) continue;
                 for (let j = col; j < n; j++) {
                     A[i][j] -= factor * A[pivotRow][j];
                 }
                 b[i] -= factor * b[pivotRow];
+                flops += 2 * (n - col) + 2;
+                recorder.eliminate(i, pivotRow, factor, position);
             }
         }
+        pivotColumns.push(col);
         pivotRow++;
     }
 
-    for (let i = 0; i < n; i++) {
+    const trace = recorder.steps;
+
+    for (let i = 0; i < m; i++) {
         let rowIsZero = true;
         for (let j = 0; j < n; j++) {
             if (Math.abs(A[i][j]) > EPSILON) {
@@ -141,27 +414,78 @@ export const solveGaussJordan = (matrix: Matrix, vector: Vector): SolverResult =
             }
         }
         if (rowIsZero && Math.abs(b[i]) > EPSILON) {
-            return { status: 'none' };
+            return { status: 'none', flops, trace };
         }
     }
 
     if (pivotRow < n) {
-        return { status: 'infinite' };
+        return { status: 'infinite', general: unpermuteGeneral(buildGeneralSolution(A, b, pivotColumns), columnOrder), flops, trace };
     }
 
-    return { status: 'unique', solution: b };
+    return { status: 'unique', solution: unpermute(b.slice(0, n), columnOrder), flops, trace };
 };
 
 
 /**
- * Solves a system of linear equations using LU Factorization .
- * Decomposes A into Lower (L) and Upper (U) triangular matrices, then solves Ly = b and Ux = y.
+ * The factors of P * A = L * U, kept so that any number of right-hand sides can be solved
+ * without repeating the O(n³) elimination.
  */
+export interface LUFactorization {
+    L: Matrix;
+    U: Matrix;
+    P: Matrix;
+    /** Column permutation, only with complete pivoting: P * A * Q = L * U. */
+    Q?: Matrix;
+    /** False when a zero pivot was hit; the factors are then incomplete and cannot be used to solve. */
+    complete: boolean;
+    singular?: Singularity;
+    flops: number;
+    trace?: TraceStep[];
+}
+
+/** Permutation matrix Q with A * Q = A with its columns in `order`. */
+export const columnPermutation = (order: number[]): Matrix =>
+    order.map((_, i) => order.map(original => (original === i ? 1 : 0)));
+
 /**
- * Solves a system of linear equations using LU Factorization with Partial Pivoting.
- * Decomposes P * A = L * U, then solves L * y = P * b and U * x = y.
+ * Rank and one column and row dependency of a singular square matrix, read off the general solutions
+ * of the homogeneous systems A * c = 0 and Aᵀ * r = 0.
+ */
+export const describeSingularity = (matrix: Matrix, column: number): Singularity => {
+    const zeros = new Array(matrix.length).fill(0);
+    const columns = solveGaussElimination(matrix, zeros).general;
+    const rows = solveGaussElimination(matrix[0].map((_, j) => matrix.map(row => row[j])), zeros).general;
+    return {
+        column,
+        rank: matrix.length - (columns?.basis.length ?? 0),
+        determinant: 0,
+        columnDependency: columns?.basis[0] ?? zeros,
+        rowDependency: rows?.basis[0] ?? zeros,
+    };
+};
+
+/**
+ * Rescales the finished Doolittle factors into Crout form: with D = diag(U), L_crout = L * D and U_crout = D⁻¹ * U.
+ * This is not Crout's column-by-column order. Each row division is recorded, so the trace shows where L's diagonal comes from.
+ */
+const toCrout = (L: Matrix, U: Matrix, recorder: ReturnType<typeof createRecorder<number>>) => {
+    const n = L.length;
+    for (let k = 0; k < n; k++) {
+        const d = U[k][k];
+        for (let i = k; i < n; i++) L[i][k] *= d;
+        for (let j = k; j < n; j++) U[k][j] /= d;
+        if (d !== 1) recorder.scale(k, d, { row: k, col: k });
+    }
+    return n * (n + 1);
+};
+
+/**
+ * Factorizes P * A = L * U with Partial Pivoting (Doolittle form: L has a unit diagonal).
+ * With complete pivoting the columns are permuted too, giving P * A * Q = L * U.
+ * `options.luForm = 'crout'` returns the Crout form instead, where U has the unit diagonal, by rescaling these factors.
  */
-export const solveLUFactorization = (matrix: Matrix, vector: Vector): SolverResult => {
+export const factorizeLU = (matrix: Matrix, options: SolverOptions = {}): LUFactorization => {
+    assertSquare(matrix, 'LU Factorization');
     const n = matrix.length;
     // Create a working copy of the matrix for U
     const U = matrix.map(row => [...row]);
@@ -169,42 +493,45 @@ export const solveLUFactorization = (matrix: Matrix, vector: Vector): SolverResu
     const L: Matrix = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
     // Initialize P as identity matrix (permutation matrix)
     const P: Matrix = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
-    // Working copy of vector P*b (will be permuted)
-    const Pb = [...vector];
+    // The trace follows U as it is reduced; the multipliers end up in L.
+    const recorder = createRecorder(options.trace, () => U.map(row => [...row]));
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = pivotMagnitude(strategy);
+    const scales = rowScales(U, magnitude);
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+    const Q = () => (strategy === 'complete' ? columnPermutation(columnOrder) : undefined);
+    let flops = 0;
 
     for (let k = 0; k < n; k++) {
-        // Partial Pivoting: Find the row with the largest absolute value in the current column
-        let pivotRow = k;
-        for (let i = k + 1; i < n; i++) {
-            if (Math.abs(U[i][k]) > Math.abs(U[pivotRow][k])) {
-                pivotRow = i;
-            }
+        // Partial Pivoting (by default): Find the row with the largest absolute value in the current column
+        const choice = selectPivot(U, k, k, strategy, magnitude, scales);
+        if (!choice) {
+            // In typical LU, a zero pivot (even after pivoting) means the matrix is singular.
+            return { L, U, P, Q: Q(), complete: false, singular: describeSingularity(matrix, columnOrder[k]), flops, trace: recorder.steps };
+        }
+
+        // Complete pivoting may bring the pivot in from another column
+        if (choice.col !== k) {
+            swapColumns(U, k, choice.col);
+            [columnOrder[k], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[k]];
+            recorder.swapColumns(k, choice.col, { row: k, col: k });
         }
 
         // Swap rows if necessary
+        const pivotRow = choice.row;
         if (pivotRow !== k) {
             // Swap rows in U
             [U[k], U[pivotRow]] = [U[pivotRow], U[k]];
             // Swap rows in P
             [P[k], P[pivotRow]] = [P[pivotRow], P[k]];
-            // Swap rows in Pb (vector)
-            [Pb[k], Pb[pivotRow]] = [Pb[pivotRow], Pb[k]];
+            [scales[k], scales[pivotRow]] = [scales[pivotRow], scales[k]];
             // Swap rows in L (only for columns 0 to k-1)
             for (let j = 0; j < k; j++) {
                 const temp = L[k][j];
                 L[k][j] = L[pivotRow][j];
                 L[pivotRow][j] = temp;
             }
-        }
-
-        if (Math.abs(U[k][k]) < EPSILON) {
-            // Singular or near-singular, fallback or error logic. 
-            // In typical LU, a zero pivot means singular matrix.
-            // Let's defer to the existing Gauss elimination fallback if meaningful specific status is needed,
-            // or just continue if the user expects "infinite" or "none" handling from the Gauss function.
-            // However, this task specifically asked for LU pivoting.
-            // If we cant pivot, then the matrix is singular.
-            return solveGaussElimination(matrix, vector);
+            recorder.swap(k, pivotRow, { row: k, col: k });
         }
 
         // Elimination
@@ -216,9 +543,30 @@ export const solveLUFactorization = (matrix: Matrix, vector: Vector): SolverResu
             for (let j = k + 1; j < n; j++) {
                 U[i][j] -= factor * U[k][j];
             }
+            flops += 1 + 2 * (n - k - 1);
+            if (factor !== 0) recorder.eliminate(i, k, factor, { row: k, col: k });
         }
     }
 
+    if (options.luForm === 'crout') {
+        flops += toCrout(L, U, recorder);
+    }
+
+    return { L, U, P, Q: Q(), complete: true, flops, trace: recorder.steps };
+};
+
+/**
+ * Solves A * x = b with existing factors: L * y = P * b (forward), then U * x = y (backward).
+ * With a column permutation Q the backward step gives Q⁻¹ * x, which is mapped back at the end.
+ * Costs O(n²) per right-hand side.
+ */
+export const solveLU = (factors: LUFactorization, vector: Vector): { solution: Vector; y: Vector; flops: number } => {
+    const { L, U, P, Q } = factors;
+    const n = L.length;
+    let flops = 0;
+    // P * b: row i of P picks the entry of b that was swapped into position i
+    const Pb = P.map(row => vector[row.indexOf(1)]);
+
     // Forward Substitution: Solve L * y = P * b
     const y = new Array(n).fill(0);
     for (let i = 0; i < n; i++) {
@@ -227,6 +575,7 @@ export const solveLUFactorization = (matrix: Matrix, vector: Vector): SolverResu
             sum += L[i][j] * y[j];
         }
         y[i] = (Pb[i] - sum) / L[i][i];
+        flops += 2 * i + 2;
     }
 
     // Backward Substitution: Solve U * x = y
@@ -236,38 +585,92 @@ export const solveLUFactorization = (matrix: Matrix, vector: Vector): SolverResu
         for (let j = i + 1; j < n; j++) {
             sum += U[i][j] * x[j];
         }
-        if (Math.abs(U[i][i]) < EPSILON) {
-            return solveGaussElimination(matrix, vector);
-        }
         x[i] = (y[i] - sum) / U[i][i];
+        flops += 2 * (n - i - 1) + 2;
+    }
+
+    return { solution: Q ? Q.map(row => x[row.indexOf(1)]) : x, y, flops };
+};
+
+// The partial factors, the singularity and the classification of the system by Gaussian Elimination
+const singularLUResult = (matrix: Matrix, vector: Vector, factors: LUFactorization, options: SolverOptions, flops: number): SolverResult => {
+    const { status, general, flops: eliminationFlops } = solveGaussElimination(matrix, vector, { ...options, trace: false });
+    const { L, U, P, Q, singular, trace } = factors;
+    return { status, general, L, U, P, Q, singular, flops: flops + (eliminationFlops ?? 0), trace };
+};
+
+/**
+ * Solves a system of linear equations using LU Factorization with Partial Pivoting.
+ * Decomposes P * A = L * U, then solves L * y = P * b and U * x = y.
+ * A singular matrix returns the partial factors and `singular`; Gaussian Elimination then classifies
+ * the system itself as 'none' or 'infinite'.
+ */
+export const solveLUFactorization = (matrix: Matrix, vector: Vector, options: SolverOptions = {}): SolverResult => {
+    const factors = factorizeLU(matrix, options);
+    if (!factors.complete) {
+        return singularLUResult(matrix, vector, factors, options, factors.flops);
     }
+    const { L, U, P, Q, trace } = factors;
+    const { solution, y, flops } = solveLU(factors, vector);
+    return { status: 'unique', solution, L, U, P, Q, y, flops: factors.flops + flops, trace };
+};
 
-    return { status: 'unique', solution: x, L, U, P };
+/**
+ * Solves A * X = B for several right-hand-side columns from a single factorization.
+ * Returns one result per column; every result shares the same L, U and P.
+ */
+export const solveLUFactorizationMultiple = (matrix: Matrix, columns: Vector[], options: SolverOptions = {}): SolverResult[] => {
+    const factors = factorizeLU(matrix, options);
+    if (!factors.complete) {
+        return columns.map((vector, k) => singularLUResult(matrix, vector, factors, options, k === 0 ? factors.flops : 0));
+    }
+    const { L, U, P, Q, trace } = factors;
+    return columns.map((vector, k) => {
+        const { solution, y, flops } = solveLU(factors, vector);
+        // The factorization cost is charged to the first column only
+        return { status: 'unique', solution, L, U, P, Q, y, flops: (k === 0 ? factors.flops : 0) + flops, trace };
+    });
 };
 
 /**
  * Finds the inverse of a matrix using Gauss-Jordan Elimination.
  * Augments the matrix with the identity matrix and reduces it.
  */
-export const findInverse = (matrix: Matrix): Matrix | null => {
+export const invertMatrix = (matrix: Matrix, options: SolverOptions = {}): InverseResult => {
+    assertSquare(matrix, 'Matrix inversion');
     const n = matrix.length;
     const A = matrix.map(row => [...row]);
     const I: Matrix = Array.from({ length: n }, (_, i) =>
         Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
     );
+    const recorder = createRecorder(options.trace, () => A.map((row, i) => [...row, ...I[i]]), n);
+    const strategy = options.pivoting ?? 'partial';
+    const magnitude = pivotMagnitude(strategy);
+    const scales = rowScales(A, magnitude);
+    const columnOrder = Array.from({ length: n }, (_, j) => j);
+    let flops = 0;
 
     for (let i = 0; i < n; i++) {
-        // Partial Pivoting
-        let maxRow = i;
-        for (let k = i + 1; k < n; k++) {
-            if (Math.abs(A[k][i]) > Math.abs(A[maxRow][i])) maxRow = k;
+        // Partial Pivoting (by default)
+        const choice = selectPivot(A, i, i, strategy, magnitude, scales);
+        if (!choice) return { inverse: null, singular: describeSingularity(matrix, columnOrder[i]), flops, trace: recorder.steps };
+
+        // Column swaps only touch A: they reorder the unknowns, i.e. the rows of the inverse
+        const position = { row: i, col: i };
+        if (choice.col !== i) {
+            swapColumns(A, i, choice.col);
+            [columnOrder[i], columnOrder[choice.col]] = [columnOrder[choice.col], columnOrder[i]];
+            recorder.swapColumns(i, choice.col, position);
         }
 
         // Swap rows in both Matrix A and Identity Matrix I
-        [A[i], A[maxRow]] = [A[maxRow], A[i]];
-        [I[i], I[maxRow]] = [I[maxRow], I[i]];
-
-        if (Math.abs(A[i][i]) < EPSILON) return null;
+        const maxRow = choice.row;
+        if (maxRow !== i) {
+            [A[i], A[maxRow]] = [A[maxRow], A[i]];
+            [I[i], I[maxRow]] = [I[maxRow], I[i]];
+            [scales[i], scales[maxRow]] = [scales[maxRow], scales[i]];
+            recorder.swap(i, maxRow, position);
+        }
 
         // Scale the pivot row to make the pivot element 1.
         // This ensures the final matrix on the left is the Identity Matrix I.
@@ -276,18 +679,29 @@ export const findInverse = (matrix: Matrix): Matrix | null => {
             A[i][j] /= pivot;
             I[i][j] /= pivot;
         }
+        flops += 2 * n;
+        if (pivot !== 1) recorder.scale(i, pivot, position);
 
         // Eliminate all other entries in the column to 0.
         // The operations performed on A to make it I are performed on I to make it A^(-1).
         for (let k = 0; k < n; k++) {
             if (k !== i) {
                 const factor = A[k][i];
+                if (factor === 0) continue;
                 for (let j = 0; j < n; j++) {
                     A[k][j] -= factor * A[i][j];
                     I[k][j] -= factor * I[i][j];
                 }
+                flops += 4 * n;
+                recorder.eliminate(k, i, factor, position);
             }
         }
     }
-    return I;
+    // [A | I] is now [I | (A * Q)⁻¹], and A⁻¹ = Q * (A * Q)⁻¹
+    return { inverse: unpermute(I, columnOrder), flops, trace: recorder.steps };
 };
+
+/**
+ * Finds the inverse of a matrix, or null if it is singular.
+ */
+export const findInverse = (matrix: Matrix): Matrix | null => invertMatrix(matrix).inverse;
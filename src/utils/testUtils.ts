@@ -0,0 +1,15 @@
+import { expect } from 'vitest';
+import type { Matrix, Vector } from './solver';
+
+/** Assertions shared by the solver tests: same shape, every entry within `digits` decimals. */
+export const expectVectorClose = (actual: Vector | undefined, expected: Vector, digits = 10) => {
+    expect(actual).toBeDefined();
+    expect(actual).toHaveLength(expected.length);
+    actual!.forEach((val, i) => expect(val).toBeCloseTo(expected[i], digits));
+};
+
+export const expectMatrixClose = (actual: Matrix | null | undefined, expected: Matrix, digits = 10) => {
+    expect(actual).toBeTruthy();
+    expect(actual).toHaveLength(expected.length);
+    actual!.forEach((row, i) => expectVectorClose(row, expected[i], digits));
+};
@@ -0,0 +1,14 @@
+import type { ProblemState } from '../utils/persistence';
+import type { SolveOutcome } from '../utils/solve';
+
+/** Messages from the page to the solver worker. */
+export type SolveRequest =
+    | { type: 'solve'; problem: ProblemState; trace: boolean }
+    /** A is n × n row-major; each column is one right-hand side. The buffers are transferred, not copied. */
+    | { type: 'solve-dense'; n: number; A: Float64Array; columns: Float64Array[] };
+
+/** Messages from the solver worker back to the page; 'done' and 'error' end the job. */
+export type SolveResponse =
+    | { type: 'progress'; fraction: number }
+    | { type: 'done'; outcome: SolveOutcome }
+    | { type: 'error'; message: string };
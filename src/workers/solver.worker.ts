@@ -0,0 +1,28 @@
+import { solveDenseProblem, solveProblem } from '../utils/solve';
+import type { SolveRequest, SolveResponse } from './protocol';
+
+// Progress messages are rate-limited; a 2000 × 2000 factorization would otherwise send 2000 of them.
+const PROGRESS_INTERVAL_MS = 50;
+
+const post = (message: SolveResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SolveRequest>) => {
+    const request = event.data;
+    try {
+        if (request.type === 'solve') {
+            post({ type: 'done', outcome: solveProblem(request.problem, request.trace) });
+            return;
+        }
+
+        let lastPost = 0;
+        const onProgress = (fraction: number) => {
+            const now = performance.now();
+            if (now - lastPost < PROGRESS_INTERVAL_MS) return;
+            lastPost = now;
+            post({ type: 'progress', fraction });
+        };
+        post({ type: 'done', outcome: solveDenseProblem({ n: request.n, data: request.A }, request.columns, onProgress) });
+    } catch (err) {
+        post({ type: 'error', message: (err instanceof Error && err.message) || 'An error occurred during calculation.' });
+    }
+};
@@ -0,0 +1,72 @@
+import { Fraction } from '../utils/fraction';
+import { Complex } from '../utils/complex';
+import type { SolveOutcome } from '../utils/solve';
+import type { SolveRequest, SolveResponse } from './protocol';
+
+export class SolveCancelledError extends Error {
+    constructor() {
+        super('The solve was cancelled.');
+        this.name = 'SolveCancelledError';
+    }
+}
+
+export interface SolveJob {
+    promise: Promise<SolveOutcome>;
+    /** Stops the worker mid-computation; the promise rejects with SolveCancelledError. */
+    cancel: () => void;
+}
+
+/**
+ * Structured cloning keeps the fields of a Fraction or Complex but not its class, so exact and complex
+ * results arrive as plain { num, den } or { re, im } objects and are turned back into instances here.
+ */
+const reviveScalars = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(reviveScalars);
+    if (value === null || typeof value !== 'object') return value;
+    const record = value as Record<string, unknown>;
+    if (typeof record.num === 'bigint' && typeof record.den === 'bigint') return new Fraction(record.num, record.den);
+    if (typeof record.re === 'number' && typeof record.im === 'number') return new Complex(record.re, record.im);
+    return Object.fromEntries(Object.entries(record).map(([key, entry]) => [key, reviveScalars(entry)]));
+};
+
+/**
+ * Solves in a fresh worker, so a long elimination never blocks the page and cancelling is
+ * simply terminating the worker.
+ */
+export const startSolve = (request: SolveRequest, onProgress: (fraction: number) => void): SolveJob => {
+    const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+    let rejectJob: (reason: Error) => void = () => {};
+
+    const promise = new Promise<SolveOutcome>((resolve, reject) => {
+        rejectJob = reject;
+        worker.onmessage = (event: MessageEvent<SolveResponse>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress(message.fraction);
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'done') {
+                const revive = request.type === 'solve' && (request.problem.exact || request.problem.imaginary);
+                resolve(revive ? (reviveScalars(message.outcome) as SolveOutcome) : message.outcome);
+            } else {
+                reject(new Error(message.message));
+            }
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(event.message || 'The solver stopped unexpectedly.'));
+        };
+    });
+
+    const transfer = request.type === 'solve-dense' ? [request.A.buffer, ...request.columns.map(column => column.buffer)] : [];
+    worker.postMessage(request, transfer);
+
+    return {
+        promise,
+        cancel: () => {
+            worker.terminate();
+            rejectJob(new SolveCancelledError());
+        },
+    };
+};